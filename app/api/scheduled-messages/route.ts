@@ -0,0 +1,218 @@
+import { NextResponse } from "next/server"
+import {
+  getScheduledGroupFailure,
+  getScheduledMessageFields,
+  getScheduledRequestFailure,
+  isScheduledMessageClaimable,
+  type ScheduledMessage,
+} from "@/lib/scheduled-messages"
+import { getExpiresAt } from "@/lib/disappearing-messages"
+import { getBlockedByPath } from "@/lib/moderation"
+import { hasGroupPermission, type GroupAccess } from "@/lib/group-permissions"
+import { isChannel } from "@/lib/channels"
+
+// Delivers due scheduled messages when the author has no tab open.
+// Call it from a cron job (e.g. every minute) with `Authorization: Bearer $CRON_SECRET`.
+// It talks to the Realtime Database REST API with a database secret, so it bypasses security rules.
+const DATABASE_URL = process.env.FIREBASE_DATABASE_URL || "https://web-chat-77ed2-default-rtdb.firebaseio.com"
+const DATABASE_SECRET = process.env.FIREBASE_DATABASE_SECRET
+const CRON_SECRET = process.env.CRON_SECRET
+
+const SERVER_TIMESTAMP = { ".sv": "timestamp" }
+const increment = (delta: number) => ({ ".sv": { increment: delta } })
+
+const getChatId = (uid1: string, uid2: string) => (uid1 > uid2 ? `${uid1}-${uid2}` : `${uid2}-${uid1}`)
+
+const databaseUrl = (path: string, params: Record<string, string> = {}) => {
+  const searchParams = new URLSearchParams({ ...params, auth: DATABASE_SECRET || "" })
+  return `${DATABASE_URL}/${path}.json?${searchParams.toString()}`
+}
+
+async function databaseRequest(path: string, init: RequestInit = {}, params: Record<string, string> = {}) {
+  const response = await fetch(databaseUrl(path, params), { ...init, cache: "no-store" })
+  if (!response.ok) {
+    throw new Error(`Database request to ${path} failed with status ${response.status}`)
+  }
+  return response.json()
+}
+
+// Marks the message as being sent using an ETag precondition, mirroring the client's transaction
+async function claimScheduledMessage(id: string): Promise<ScheduledMessage | null> {
+  const path = `scheduledMessages/${id}`
+  const current = await fetch(databaseUrl(path), { headers: { "X-Firebase-ETag": "true" }, cache: "no-store" })
+  const etag = current.headers.get("ETag")
+  const scheduled = await current.json()
+
+  if (!etag || !scheduled || !isScheduledMessageClaimable(scheduled)) return null
+
+  const claimed = { ...scheduled, status: "sending", claimedAt: Date.now() }
+  const response = await fetch(databaseUrl(path), {
+    method: "PUT",
+    headers: { "if-match": etag },
+    body: JSON.stringify(claimed),
+    cache: "no-store",
+  })
+
+  // 412 means another worker changed it first
+  if (!response.ok) return null
+  return { ...claimed, id }
+}
+
+// Same writes as ChatContext's deliverDirectMessage
+async function deliverDirectMessage(scheduled: ScheduledMessage) {
+  const chatId = getChatId(scheduled.senderUid, scheduled.targetId)
+  const disappearingTimer: number | null = await databaseRequest(`chatSettings/${chatId}/disappearingTimer`)
+  const withheld = !!(await databaseRequest(getBlockedByPath(scheduled.senderUid, scheduled.targetId)))
+
+  const { name: messageId } = await databaseRequest(`messages/${chatId}`, {
+    method: "POST",
+    body: JSON.stringify({
+      text: "",
+      senderUid: scheduled.senderUid,
+      receiverUid: scheduled.targetId,
+      timestamp: SERVER_TIMESTAMP,
+      clientTimestamp: Date.now(),
+      status: "sent",
+      fileUrl: null,
+      fileType: null,
+      fileName: null,
+      reactions: {},
+      read: false,
+      expiresAt: getExpiresAt(disappearingTimer),
+      withheld: withheld || null,
+      ...getScheduledMessageFields(scheduled),
+    }),
+  })
+
+  const timestamp = Date.now()
+  const contactUpdates: Record<string, unknown> = {
+    [`contacts/${scheduled.senderUid}/${scheduled.targetId}/lastMessage`]: scheduled.text,
+    [`contacts/${scheduled.senderUid}/${scheduled.targetId}/timestamp`]: timestamp,
+  }
+  if (!withheld) {
+    contactUpdates[`contacts/${scheduled.targetId}/${scheduled.senderUid}/lastMessage`] = scheduled.text
+    contactUpdates[`contacts/${scheduled.targetId}/${scheduled.senderUid}/timestamp`] = timestamp
+    contactUpdates[`contacts/${scheduled.targetId}/${scheduled.senderUid}/unread`] = increment(1)
+  }
+  await databaseRequest("", { method: "PATCH", body: JSON.stringify(contactUpdates) })
+
+  return messageId
+}
+
+// Same writes as ChatInterface's deliverGroupMessage
+async function deliverGroupMessage(scheduled: ScheduledMessage) {
+  const group: (GroupAccess & { settings?: { disappearingTimer?: number } }) | null = await databaseRequest(
+    `groups/${scheduled.targetId}`,
+  )
+
+  // The author may have left the group, or lost permission to post, since scheduling
+  if (!group?.members || !hasGroupPermission(group, scheduled.senderUid, "sendMessages")) return null
+
+  const members = group.members
+  const disappearingTimer = group.settings?.disappearingTimer ?? null
+
+  const { name: messageId } = await databaseRequest(`groupMessages/${scheduled.targetId}`, {
+    method: "POST",
+    body: JSON.stringify({
+      text: "",
+      senderUid: scheduled.senderUid,
+      senderName: scheduled.senderName,
+      groupId: scheduled.targetId,
+      timestamp: SERVER_TIMESTAMP,
+      clientTimestamp: Date.now(),
+      status: "sent",
+      reactions: {},
+      expiresAt: getExpiresAt(disappearingTimer),
+      ...getScheduledMessageFields(scheduled),
+    }),
+  })
+
+  const timestamp = Date.now()
+  const updates: { [path: string]: unknown } = {
+    [`groups/${scheduled.targetId}/lastMessage`]: scheduled.text,
+    [`groups/${scheduled.targetId}/timestamp`]: SERVER_TIMESTAMP,
+  }
+
+  if (isChannel(group)) {
+    updates[`groups/${scheduled.targetId}/messageCount`] = increment(1)
+  } else {
+    Object.keys(members)
+      .filter((memberId) => memberId !== scheduled.senderUid)
+      .forEach((memberId) => {
+        const isMentioned = scheduled.mentionsAll || (scheduled.mentions || []).includes(memberId)
+        const unreadPath = `groupUnread/${scheduled.targetId}/${memberId}`
+        updates[`${unreadPath}/count`] = increment(1)
+        updates[`${unreadPath}/mentions`] = increment(isMentioned ? 1 : 0)
+        updates[`${unreadPath}/lastMessage`] = scheduled.text
+        updates[`${unreadPath}/timestamp`] = timestamp
+      })
+  }
+
+  await databaseRequest("", { method: "PATCH", body: JSON.stringify(updates) })
+  return messageId
+}
+
+// Why a due message can't be sent at all: an unaccepted contact request, or no longer being able to post
+async function getUndeliverableReason(scheduled: ScheduledMessage) {
+  if (scheduled.chatType === "group") {
+    return getScheduledGroupFailure(await databaseRequest(`groups/${scheduled.targetId}`), scheduled.senderUid)
+  }
+  return getScheduledRequestFailure(
+    await databaseRequest(`contacts/${scheduled.senderUid}/${scheduled.targetId}/requestStatus`),
+  )
+}
+
+export async function GET(request: Request) {
+  if (!CRON_SECRET || request.headers.get("authorization") !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!DATABASE_SECRET) {
+    return NextResponse.json({ error: "FIREBASE_DATABASE_SECRET is not configured" }, { status: 500 })
+  }
+
+  const dueMessages: { [id: string]: ScheduledMessage } | null = await databaseRequest(
+    "scheduledMessages",
+    {},
+    { orderBy: JSON.stringify("sendAt"), endAt: String(Date.now()) },
+  )
+
+  let delivered = 0
+  let failed = 0
+
+  for (const id of Object.keys(dueMessages || {})) {
+    try {
+      const scheduled = await claimScheduledMessage(id)
+      if (!scheduled) continue
+
+      try {
+        // Messages that can never go out would be retried forever, so mark them failed for the author instead
+        const failedReason = await getUndeliverableReason(scheduled)
+        if (failedReason) {
+          await databaseRequest(`scheduledMessages/${id}`, {
+            method: "PATCH",
+            body: JSON.stringify({ status: "failed", claimedAt: null, failedReason }),
+          })
+          failed++
+          continue
+        }
+
+        const messageId =
+          scheduled.chatType === "group" ? await deliverGroupMessage(scheduled) : await deliverDirectMessage(scheduled)
+        await databaseRequest(`scheduledMessages/${id}`, { method: "DELETE" })
+        if (messageId) delivered++
+      } catch (error) {
+        // Release the claim so the next run (or the author's tab) retries it
+        await databaseRequest(`scheduledMessages/${id}`, {
+          method: "PATCH",
+          body: JSON.stringify({ status: "pending", claimedAt: null }),
+        })
+        throw error
+      }
+    } catch (error) {
+      console.error(`Failed to deliver scheduled message ${id}:`, error)
+      failed++
+    }
+  }
+
+  return NextResponse.json({ delivered, failed })
+}
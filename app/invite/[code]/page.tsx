@@ -0,0 +1,10 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import InviteScreen from "@/components/invite-screen"
+
+export default function InvitePage() {
+  const { code } = useParams<{ code: string }>()
+
+  return <InviteScreen code={code} />
+}
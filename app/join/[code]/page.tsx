@@ -0,0 +1,10 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import GroupJoinScreen from "@/components/group-join-screen"
+
+export default function JoinGroupPage() {
+  const { code } = useParams<{ code: string }>()
+
+  return <GroupJoinScreen code={code} />
+}
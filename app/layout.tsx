@@ -5,6 +5,7 @@ import "./globals.css"
 import { ThemeProvider } from "@/contexts/theme-context"
 import { AuthProvider } from "@/contexts/auth-context"
 import { ChatProvider } from "@/contexts/chat-context"
+import UsernameConflictDialog from "@/components/username-conflict-dialog"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -25,6 +26,7 @@ export default function RootLayout({
         <ThemeProvider>
           <AuthProvider>
             <ChatProvider>{children}</ChatProvider>
+            <UsernameConflictDialog />
           </AuthProvider>
         </ThemeProvider>
       </body>
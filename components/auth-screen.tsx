@@ -18,6 +18,7 @@ import {
   Sparkles,
   MessageCircle,
   CheckCircle,
+  AtSign,
 } from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
 import { useToast } from "@/components/ui/use-toast"
@@ -499,6 +500,7 @@ export default function AuthScreen() {
   const [loginEmail, setLoginEmail] = useState("")
   const [loginPassword, setLoginPassword] = useState("")
   const [signupName, setSignupName] = useState("")
+  const [signupUsername, setSignupUsername] = useState("")
   const [signupEmail, setSignupEmail] = useState("")
   const [signupPassword, setSignupPassword] = useState("")
   const [error, setError] = useState("")
@@ -678,7 +680,7 @@ export default function AuthScreen() {
 
     try {
       console.log("Signup attempt:", signupEmail)
-      await signUp(signupEmail, signupPassword, signupName)
+      await signUp(signupEmail, signupPassword, signupName, signupUsername)
       console.log("Signup successful")
 
       toast({
@@ -1043,6 +1045,28 @@ export default function AuthScreen() {
                               </div>
                             </motion.div>
 
+                            <motion.div
+                              initial={{ opacity: 0, x: -20 }}
+                              animate={{ opacity: 1, x: 0 }}
+                              transition={{ delay: 0.25 }}
+                              className="space-y-2"
+                            >
+                              <Label htmlFor="signup-username" className="text-gray-300 font-medium">
+                                Username <span className="text-gray-500 font-normal">(optional)</span>
+                              </Label>
+                              <div className="relative group">
+                                <AtSign className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400 transition-colors group-focus-within:text-white" />
+                                <Input
+                                  id="signup-username"
+                                  placeholder="Pick a handle people can find you by"
+                                  className="border-gray-600 bg-gray-800/50 backdrop-blur-sm pl-10 h-11 text-white placeholder:text-gray-500 focus:border-white/50 focus:bg-gray-800/70 transition-all duration-300"
+                                  value={signupUsername}
+                                  onChange={(e) => setSignupUsername(e.target.value)}
+                                  disabled={loading}
+                                />
+                              </div>
+                            </motion.div>
+
                             <motion.div
                               initial={{ opacity: 0, x: -20 }}
                               animate={{ opacity: 1, x: 0 }}
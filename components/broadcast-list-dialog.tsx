@@ -0,0 +1,178 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Radio, Trash2 } from "lucide-react"
+import {
+  MAX_BROADCAST_LIST_NAME_LENGTH,
+  MAX_BROADCAST_RECIPIENTS,
+  getBroadcastRecipientIds,
+  type BroadcastList,
+} from "@/lib/broadcast-lists"
+
+interface Contact {
+  id: string
+  name: string
+  avatar?: string
+}
+
+interface BroadcastListDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The list being edited, or null to create a new one
+  list: BroadcastList | null
+  contacts: Contact[]
+  onSave: (fields: { name: string; recipientIds: string[] }) => Promise<void>
+  onDelete: (listId: string) => Promise<void>
+}
+
+export default function BroadcastListDialog({
+  open,
+  onOpenChange,
+  list,
+  contacts,
+  onSave,
+  onDelete,
+}: BroadcastListDialogProps) {
+  const [name, setName] = useState("")
+  const [recipientIds, setRecipientIds] = useState<Set<string>>(new Set())
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setName(list?.name || "")
+    setRecipientIds(new Set(list ? getBroadcastRecipientIds(list) : []))
+  }, [open, list])
+
+  const toggleRecipient = (contactId: string) => {
+    setRecipientIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(contactId)) {
+        next.delete(contactId)
+      } else if (next.size < MAX_BROADCAST_RECIPIENTS) {
+        next.add(contactId)
+      }
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    if (!name.trim() || recipientIds.size === 0) return
+
+    setIsSaving(true)
+    try {
+      await onSave({ name: name.trim(), recipientIds: Array.from(recipientIds) })
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!list) return
+
+    setIsSaving(true)
+    try {
+      await onDelete(list.id)
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-border bg-card text-card-foreground max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Radio className="h-5 w-5 text-primary" />
+            <span>{list ? "Edit Broadcast List" : "New Broadcast List"}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="broadcast-list-name">Name</Label>
+            <Input
+              id="broadcast-list-name"
+              placeholder="e.g. Team updates"
+              value={name}
+              maxLength={MAX_BROADCAST_LIST_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              className="border-border bg-background"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Recipients ({recipientIds.size}/{MAX_BROADCAST_RECIPIENTS})
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Each recipient gets the message as a private chat and can't see who else received it.
+            </p>
+            <ScrollArea className="h-56 rounded-lg border border-border">
+              <div className="p-1">
+                {contacts.length > 0 ? (
+                  contacts.map((contact) => (
+                    <label
+                      key={contact.id}
+                      className="flex cursor-pointer items-center space-x-3 rounded-md px-2 py-2 hover:bg-muted"
+                    >
+                      <Checkbox
+                        checked={recipientIds.has(contact.id)}
+                        onCheckedChange={() => toggleRecipient(contact.id)}
+                      />
+                      <Avatar className="h-7 w-7">
+                        <AvatarImage src={contact.avatar || "/placeholder.svg?height=28&width=28"} />
+                        <AvatarFallback className="bg-muted text-xs">
+                          {contact.name.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="flex-1 truncate text-sm">{contact.name}</span>
+                    </label>
+                  ))
+                ) : (
+                  <p className="p-4 text-center text-sm text-muted-foreground">No contacts to add yet</p>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="flex items-center justify-between">
+            {list ? (
+              <Button
+                variant="ghost"
+                onClick={handleDelete}
+                disabled={isSaving}
+                className="text-red-600 hover:bg-red-500/10 hover:text-red-600 dark:text-red-400"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            ) : (
+              <div />
+            )}
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)} className="border-border">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={isSaving || !name.trim() || recipientIds.size === 0}
+                className="bg-primary text-primary-foreground hover:bg-primary/90"
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
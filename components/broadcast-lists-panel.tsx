@@ -0,0 +1,349 @@
+"use client"
+
+import { useState } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { format } from "date-fns"
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useToast } from "@/components/ui/use-toast"
+import { Radio, X, Plus, ArrowLeft, Pencil, Send, Check, CheckCheck, Clock, AlertCircle } from "lucide-react"
+import { useChat } from "@/contexts/chat-context"
+import { useBroadcastLists } from "@/hooks/use-broadcast-lists"
+import { useBroadcastHistory } from "@/hooks/use-broadcast-history"
+import { useBroadcastDelivery } from "@/hooks/use-broadcast-delivery"
+import BroadcastListDialog from "./broadcast-list-dialog"
+import {
+  BROADCAST_STATUS_LABELS,
+  getBroadcastDeliveryStatus,
+  getBroadcastRecipientIds,
+  type BroadcastDeliveryStatus,
+  type BroadcastList,
+  type BroadcastMessage,
+} from "@/lib/broadcast-lists"
+import type { OutboxStatus } from "@/lib/outbox"
+
+interface Contact {
+  id: string
+  name: string
+  avatar?: string
+}
+
+interface BroadcastListsPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  userId: string
+  // Contacts a DM can go to right now; list members who aren't among them are skipped when sending
+  contacts: Contact[]
+}
+
+const StatusIcon = ({ status }: { status: BroadcastDeliveryStatus }) => {
+  switch (status) {
+    case "read":
+      return <CheckCheck className="h-4 w-4 text-blue-500" />
+    case "delivered":
+      return <CheckCheck className="h-4 w-4 text-muted-foreground" />
+    case "sent":
+      return <Check className="h-4 w-4 text-muted-foreground" />
+    case "failed":
+      return <AlertCircle className="h-4 w-4 text-red-500" />
+    default:
+      return <Clock className="h-4 w-4 text-muted-foreground" />
+  }
+}
+
+// Per-recipient status for one broadcast, shown under it in the history
+function BroadcastDeliveryList({ userId, broadcast }: { userId: string; broadcast: BroadcastMessage }) {
+  const copies = useBroadcastDelivery(userId, broadcast)
+  const { pendingMessages } = useChat()
+
+  return (
+    <div className="mt-2 space-y-1 rounded-lg border border-border bg-background p-2">
+      {Object.entries(broadcast.recipients || {}).map(([contactId, recipient]) => {
+        const pending = pendingMessages.find((m) => m.id === recipient.messageId)
+        const status = getBroadcastDeliveryStatus(
+          copies[contactId] ?? null,
+          pending?.status as OutboxStatus | undefined,
+        )
+        return (
+          <div key={contactId} className="flex items-center justify-between px-1 py-1 text-sm">
+            <span className="truncate text-foreground">{recipient.name}</span>
+            <span className="flex flex-shrink-0 items-center space-x-1 text-xs text-muted-foreground">
+              <StatusIcon status={status} />
+              <span>{BROADCAST_STATUS_LABELS[status]}</span>
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default function BroadcastListsPanel({ isOpen, onClose, userId, contacts }: BroadcastListsPanelProps) {
+  const { broadcastLists, saveBroadcastList, deleteBroadcastList } = useBroadcastLists(userId)
+  const { sendBroadcastMessage } = useChat()
+  const [activeListId, setActiveListId] = useState<string | null>(null)
+  const [listDialog, setListDialog] = useState<{ open: boolean; list: BroadcastList | null }>({
+    open: false,
+    list: null,
+  })
+  const [inspectingId, setInspectingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState("")
+  const [isSending, setIsSending] = useState(false)
+  const broadcasts = useBroadcastHistory(userId, activeListId)
+  const { toast } = useToast()
+
+  const activeList = broadcastLists.find((list) => list.id === activeListId) || null
+
+  const getRecipients = (list: BroadcastList) =>
+    getBroadcastRecipientIds(list)
+      .map((id) => contacts.find((contact) => contact.id === id))
+      .filter(Boolean) as Contact[]
+
+  const handleOpenList = (listId: string | null) => {
+    setActiveListId(listId)
+    setInspectingId(null)
+    setDraft("")
+  }
+
+  const handleSaveList = async (fields: { name: string; recipientIds: string[] }) => {
+    const editingList = listDialog.list
+    try {
+      const listId = await saveBroadcastList(editingList, fields.name, fields.recipientIds)
+      if (!editingList && listId) handleOpenList(listId)
+      toast({
+        title: editingList ? "Broadcast list updated" : "Broadcast list created",
+        description: `"${fields.name}" has ${fields.recipientIds.length} ${
+          fields.recipientIds.length === 1 ? "recipient" : "recipients"
+        }`,
+      })
+    } catch (error) {
+      console.error("Error saving broadcast list:", error)
+      toast({
+        title: "Error",
+        description: "Failed to save broadcast list",
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
+  const handleDeleteList = async (listId: string) => {
+    try {
+      await deleteBroadcastList(listId)
+      if (activeListId === listId) handleOpenList(null)
+      toast({ title: "Broadcast list deleted", description: "Messages already sent stay in each chat" })
+    } catch (error) {
+      console.error("Error deleting broadcast list:", error)
+      toast({
+        title: "Error",
+        description: "Failed to delete broadcast list",
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
+  const handleSend = async () => {
+    if (!activeList || !draft.trim()) return
+
+    const recipients = getRecipients(activeList)
+    if (recipients.length === 0) {
+      toast({
+        title: "No recipients",
+        description: "None of the people on this list can receive messages right now",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSending(true)
+    try {
+      await sendBroadcastMessage(
+        activeList.id,
+        recipients.map((contact) => ({ id: contact.id, name: contact.name })),
+        draft.trim(),
+      )
+      setDraft("")
+    } catch (error) {
+      console.error("Error sending broadcast:", error)
+      toast({
+        title: "Error",
+        description: "Failed to send broadcast. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <>
+      <Sheet open={isOpen} onOpenChange={onClose}>
+        <SheetContent
+          side="left"
+          className="w-full sm:max-w-md bg-card border-border text-card-foreground flex flex-col h-full overflow-hidden p-0"
+        >
+          <SheetHeader className="flex-shrink-0 p-4 border-b border-border">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 min-w-0">
+                {activeList && (
+                  <Button variant="ghost" size="icon" onClick={() => handleOpenList(null)}>
+                    <ArrowLeft className="h-5 w-5" />
+                  </Button>
+                )}
+                <SheetTitle className="flex items-center space-x-2 text-card-foreground min-w-0">
+                  <Radio className="h-5 w-5 text-primary flex-shrink-0" />
+                  <span className="truncate">{activeList ? activeList.name : "Broadcast Lists"}</span>
+                </SheetTitle>
+              </div>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setListDialog({ open: true, list: activeList })}
+                  title={activeList ? "Edit list" : "New list"}
+                >
+                  {activeList ? <Pencil className="h-4 w-4" /> : <Plus className="h-5 w-5" />}
+                </Button>
+                <Button variant="ghost" size="icon" onClick={onClose}>
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground text-left truncate">
+              {activeList
+                ? getRecipients(activeList)
+                    .map((contact) => contact.name)
+                    .join(", ") || "No recipients"
+                : "Send a message to many contacts at once. Each one receives it privately."}
+            </p>
+          </SheetHeader>
+
+          {activeList ? (
+            <>
+              {/* The list's outgoing history; tap a message to see where each copy is */}
+              <ScrollArea className="flex-1">
+                <div className="space-y-3 p-4">
+                  {broadcasts.length > 0 ? (
+                    broadcasts.map((broadcast) => {
+                      const recipientCount = Object.keys(broadcast.recipients || {}).length
+                      return (
+                        <div key={broadcast.id} className="flex flex-col items-end">
+                          <button
+                            type="button"
+                            className="max-w-[85%] rounded-2xl bg-primary px-4 py-2 text-left text-primary-foreground"
+                            onClick={() => setInspectingId(inspectingId === broadcast.id ? null : broadcast.id)}
+                          >
+                            <p className="whitespace-pre-wrap break-words text-sm">{broadcast.text}</p>
+                            <p className="mt-1 text-right text-xs opacity-70">
+                              {broadcast.sentAt ? format(new Date(broadcast.sentAt), "MMM d, HH:mm") : ""} · Sent to{" "}
+                              {recipientCount} {recipientCount === 1 ? "recipient" : "recipients"}
+                            </p>
+                          </button>
+                          {inspectingId === broadcast.id && (
+                            <div className="w-full">
+                              <BroadcastDeliveryList userId={userId} broadcast={broadcast} />
+                            </div>
+                          )}
+                        </div>
+                      )
+                    })
+                  ) : (
+                    <div className="flex flex-col items-center justify-center py-12 text-center">
+                      <Radio className="h-12 w-12 text-muted-foreground mb-4" />
+                      <p className="text-foreground">No broadcasts yet</p>
+                      <p className="text-sm text-muted-foreground mt-1">Messages you send to this list appear here</p>
+                    </div>
+                  )}
+                </div>
+              </ScrollArea>
+
+              <div className="flex flex-shrink-0 items-center space-x-2 border-t border-border p-4">
+                <Input
+                  placeholder="Message everyone on this list..."
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.shiftKey) {
+                      e.preventDefault()
+                      handleSend()
+                    }
+                  }}
+                  className="bg-muted border-border"
+                />
+                <Button
+                  size="icon"
+                  onClick={handleSend}
+                  disabled={isSending || !draft.trim()}
+                  className="bg-primary text-primary-foreground hover:bg-primary/90 flex-shrink-0"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              </div>
+            </>
+          ) : (
+            <ScrollArea className="flex-1">
+              <div className="space-y-1 p-2">
+                <AnimatePresence mode="popLayout">
+                  {broadcastLists.length > 0 ? (
+                    broadcastLists.map((list) => {
+                      const recipientCount = getBroadcastRecipientIds(list).length
+                      return (
+                        <motion.div
+                          key={list.id}
+                          layout
+                          initial={{ opacity: 0, y: 20 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, x: -20 }}
+                          className="flex cursor-pointer items-center space-x-3 rounded-lg p-3 hover:bg-accent/30"
+                          onClick={() => handleOpenList(list.id)}
+                        >
+                          <Avatar className="h-10 w-10">
+                            <AvatarFallback className="bg-primary/20 text-primary">
+                              <Radio className="h-5 w-5" />
+                            </AvatarFallback>
+                          </Avatar>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">{list.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {recipientCount} {recipientCount === 1 ? "recipient" : "recipients"}
+                            </p>
+                          </div>
+                        </motion.div>
+                      )
+                    })
+                  ) : (
+                    <div className="flex flex-col items-center justify-center py-12 text-center">
+                      <Radio className="h-12 w-12 text-muted-foreground mb-4" />
+                      <p className="text-foreground">No broadcast lists</p>
+                      <p className="text-sm text-muted-foreground mt-1">Create a list to message several contacts</p>
+                      <Button
+                        className="mt-4 bg-primary text-primary-foreground hover:bg-primary/90"
+                        onClick={() => setListDialog({ open: true, list: null })}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        New list
+                      </Button>
+                    </div>
+                  )}
+                </AnimatePresence>
+              </div>
+            </ScrollArea>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <BroadcastListDialog
+        open={listDialog.open}
+        onOpenChange={(open) => setListDialog((prev) => ({ ...prev, open }))}
+        list={listDialog.list}
+        contacts={contacts}
+        onSave={handleSaveList}
+        onDelete={handleDeleteList}
+      />
+    </>
+  )
+}
@@ -3,8 +3,24 @@
 import { useState, useRef, useEffect } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import { Button } from "@/components/ui/button"
-import { Pin, PinOff, Trash2, Archive, ArchiveRestore, CheckCheck } from "lucide-react"
+import {
+  Pin,
+  PinOff,
+  Trash2,
+  Archive,
+  ArchiveRestore,
+  CheckCheck,
+  Bell,
+  BellOff,
+  ChevronRight,
+  MessageCircle,
+  FolderPlus,
+  Check,
+  Ban,
+  Flag,
+} from "lucide-react"
 import { useTheme } from "@/contexts/theme-context"
+import { MUTE_OPTIONS } from "@/lib/chat-mutes"
 
 interface Contact {
   id: string
@@ -43,8 +59,20 @@ interface ChatContextMenuProps {
   onDelete: (chatId: string, isGroup?: boolean) => void
   onArchive: (chatId: string, isGroup?: boolean) => void
   onMarkAsRead: (chatId: string, isGroup?: boolean) => void
+  onMarkAsUnread: (chatId: string, isGroup?: boolean) => void
+  // duration is a MUTE_OPTIONS value, or null to unmute
+  onMute: (chatId: string, duration: number | null) => void
   isPinned: (chatId: string) => boolean
   isArchived: (chatId: string) => boolean
+  isMuted: (chatId: string) => boolean
+  folders: { id: string; name: string }[]
+  // Only manual membership is toggled here; rule-based folders pick chats up on their own
+  isInFolder: (folderId: string, chatId: string) => boolean
+  onToggleFolder: (folderId: string, chatId: string) => void
+  // Blocking and reporting only apply to contacts
+  isBlocked: (chatId: string) => boolean
+  onBlock: (chatId: string) => void
+  onReport: (chatId: string) => void
 }
 
 export default function ChatContextMenu({
@@ -58,12 +86,23 @@ export default function ChatContextMenu({
   onDelete,
   onArchive,
   onMarkAsRead,
+  onMarkAsUnread,
+  onMute,
   isPinned,
   isArchived,
+  isMuted,
+  folders,
+  isInFolder,
+  onToggleFolder,
+  isBlocked,
+  onBlock,
+  onReport,
 }: ChatContextMenuProps) {
   const { currentTheme } = useTheme()
   const menuRef = useRef<HTMLDivElement>(null)
   const [position, setPosition] = useState({ x, y })
+  const [showMuteOptions, setShowMuteOptions] = useState(false)
+  const [showFolderOptions, setShowFolderOptions] = useState(false)
 
   const currentChat = contact || group
   const isGroup = !!group
@@ -71,6 +110,8 @@ export default function ChatContextMenu({
   const chatName = contact?.name || group?.name || ""
   const pinned = isPinned(chatId)
   const archived = isArchived(chatId)
+  const muted = isMuted(chatId)
+  const blocked = !isGroup && isBlocked(chatId)
   const hasUnread = (contact?.unread || 0) > 0 || (group?.unread || 0) > 0
 
   // Adjust position if menu would go off screen
@@ -97,7 +138,14 @@ export default function ChatContextMenu({
 
       setPosition(newPosition)
     }
-  }, [x, y, visible])
+  }, [x, y, visible, showMuteOptions, showFolderOptions])
+
+  useEffect(() => {
+    if (!visible) {
+      setShowMuteOptions(false)
+      setShowFolderOptions(false)
+    }
+  }, [visible])
 
   // Close menu when clicking outside or pressing escape
   useEffect(() => {
@@ -210,6 +258,36 @@ export default function ChatContextMenu({
               </motion.div>
             )}
 
+            {/* Mark as Unread Option - Only show once everything has been read */}
+            {!hasUnread && (
+              <motion.div whileHover={{ x: 4 }} transition={{ type: "spring", stiffness: 400, damping: 30 }}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="flex w-full items-center justify-start gap-3 px-4 py-3 text-sm transition-all duration-200 hover:bg-transparent"
+                  style={{ color: getContextMenuStyles().color }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = "transparent"
+                  }}
+                  onClick={() => {
+                    onMarkAsUnread(chatId, isGroup)
+                  }}
+                >
+                  <motion.div
+                    whileHover={{ scale: 1.1 }}
+                    transition={{ type: "spring", stiffness: 400, damping: 30 }}
+                    className="p-1.5 rounded-lg bg-green-500/20 text-green-600 dark:text-green-400"
+                  >
+                    <MessageCircle className="h-4 w-4" />
+                  </motion.div>
+                  <span className="font-medium">Mark as unread</span>
+                </Button>
+              </motion.div>
+            )}
+
             {/* Archive/Unarchive Option */}
             <motion.div whileHover={{ x: 4 }} transition={{ type: "spring", stiffness: 400, damping: 30 }}>
               <Button
@@ -276,6 +354,190 @@ export default function ChatContextMenu({
               </motion.div>
             )}
 
+            {/* Mute/Unmute Option - muting asks how long for */}
+            <motion.div whileHover={{ x: 4 }} transition={{ type: "spring", stiffness: 400, damping: 30 }}>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex w-full items-center justify-start gap-3 px-4 py-3 text-sm transition-all duration-200 hover:bg-transparent"
+                style={{ color: getContextMenuStyles().color }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = "transparent"
+                }}
+                onClick={() => {
+                  if (muted) {
+                    onMute(chatId, null)
+                  } else {
+                    setShowMuteOptions((prev) => !prev)
+                  }
+                }}
+              >
+                <motion.div
+                  whileHover={{ scale: 1.1 }}
+                  transition={{ type: "spring", stiffness: 400, damping: 30 }}
+                  className="p-1.5 rounded-lg bg-purple-500/20 text-purple-600 dark:text-purple-400"
+                >
+                  {muted ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+                </motion.div>
+                <span className="font-medium flex-1 text-left">{muted ? "Unmute chat" : "Mute chat"}</span>
+                {!muted && (
+                  <ChevronRight className={`h-4 w-4 transition-transform ${showMuteOptions ? "rotate-90" : ""}`} />
+                )}
+              </Button>
+            </motion.div>
+
+            <AnimatePresence>
+              {showMuteOptions && !muted && (
+                <motion.div
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: "auto", opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden"
+                >
+                  {MUTE_OPTIONS.map((option) => (
+                    <Button
+                      key={option.label}
+                      variant="ghost"
+                      size="sm"
+                      className="flex w-full items-center justify-start pl-16 pr-4 py-2 text-sm hover:bg-transparent"
+                      style={{ color: getContextMenuStyles().color }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.backgroundColor = "transparent"
+                      }}
+                      onClick={() => onMute(chatId, option.duration)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {/* Add to Folder Option - Only show once the user has folders */}
+            {folders.length > 0 && (
+              <motion.div whileHover={{ x: 4 }} transition={{ type: "spring", stiffness: 400, damping: 30 }}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="flex w-full items-center justify-start gap-3 px-4 py-3 text-sm transition-all duration-200 hover:bg-transparent"
+                  style={{ color: getContextMenuStyles().color }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = "transparent"
+                  }}
+                  onClick={() => setShowFolderOptions((prev) => !prev)}
+                >
+                  <motion.div
+                    whileHover={{ scale: 1.1 }}
+                    transition={{ type: "spring", stiffness: 400, damping: 30 }}
+                    className="p-1.5 rounded-lg bg-cyan-500/20 text-cyan-600 dark:text-cyan-400"
+                  >
+                    <FolderPlus className="h-4 w-4" />
+                  </motion.div>
+                  <span className="font-medium flex-1 text-left">Add to folder</span>
+                  <ChevronRight className={`h-4 w-4 transition-transform ${showFolderOptions ? "rotate-90" : ""}`} />
+                </Button>
+              </motion.div>
+            )}
+
+            <AnimatePresence>
+              {showFolderOptions && folders.length > 0 && (
+                <motion.div
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: "auto", opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden"
+                >
+                  {folders.map((folder) => (
+                    <Button
+                      key={folder.id}
+                      variant="ghost"
+                      size="sm"
+                      className="flex w-full items-center justify-start pl-16 pr-4 py-2 text-sm hover:bg-transparent"
+                      style={{ color: getContextMenuStyles().color }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.backgroundColor = "transparent"
+                      }}
+                      onClick={() => onToggleFolder(folder.id, chatId)}
+                    >
+                      <span className="flex-1 truncate text-left">{folder.name}</span>
+                      {isInFolder(folder.id, chatId) && <Check className="h-4 w-4 text-primary" />}
+                    </Button>
+                  ))}
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {/* Block/Unblock and Report Options - Only for contacts */}
+            {!isGroup && (
+              <>
+                <motion.div whileHover={{ x: 4 }} transition={{ type: "spring", stiffness: 400, damping: 30 }}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="flex w-full items-center justify-start gap-3 px-4 py-3 text-sm transition-all duration-200 hover:bg-transparent"
+                    onMouseEnter={(e) => {
+                      e.currentTarget.style.backgroundColor = "rgba(239, 68, 68, 0.1)"
+                    }}
+                    onMouseLeave={(e) => {
+                      e.currentTarget.style.backgroundColor = "transparent"
+                    }}
+                    onClick={() => {
+                      onBlock(chatId)
+                    }}
+                  >
+                    <motion.div
+                      whileHover={{ scale: 1.1 }}
+                      transition={{ type: "spring", stiffness: 400, damping: 30 }}
+                      className="p-1.5 rounded-lg bg-red-500/20 text-red-600 dark:text-red-400"
+                    >
+                      <Ban className="h-4 w-4" />
+                    </motion.div>
+                    <span className="font-medium text-red-600 dark:text-red-400">
+                      {blocked ? "Unblock contact" : "Block contact"}
+                    </span>
+                  </Button>
+                </motion.div>
+
+                <motion.div whileHover={{ x: 4 }} transition={{ type: "spring", stiffness: 400, damping: 30 }}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="flex w-full items-center justify-start gap-3 px-4 py-3 text-sm transition-all duration-200 hover:bg-transparent"
+                    onMouseEnter={(e) => {
+                      e.currentTarget.style.backgroundColor = "rgba(239, 68, 68, 0.1)"
+                    }}
+                    onMouseLeave={(e) => {
+                      e.currentTarget.style.backgroundColor = "transparent"
+                    }}
+                    onClick={() => {
+                      onReport(chatId)
+                    }}
+                  >
+                    <motion.div
+                      whileHover={{ scale: 1.1 }}
+                      transition={{ type: "spring", stiffness: 400, damping: 30 }}
+                      className="p-1.5 rounded-lg bg-red-500/20 text-red-600 dark:text-red-400"
+                    >
+                      <Flag className="h-4 w-4" />
+                    </motion.div>
+                    <span className="font-medium text-red-600 dark:text-red-400">Report contact</span>
+                  </Button>
+                </motion.div>
+              </>
+            )}
+
             {/* Delete Option */}
             <motion.div whileHover={{ x: 4 }} transition={{ type: "spring", stiffness: 400, damping: 30 }}>
               <Button
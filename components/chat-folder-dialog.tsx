@@ -0,0 +1,209 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { FolderOpen, Trash2, User, Users } from "lucide-react"
+import { MAX_FOLDER_NAME_LENGTH, type ChatFolder, type ChatFolderRules } from "@/lib/chat-folders"
+
+interface ChatFolderDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The folder being edited, or null to create a new one
+  folder: ChatFolder | null
+  chats: { id: string; name: string; isGroup: boolean }[]
+  onSave: (fields: { name: string; rules: ChatFolderRules; chatIds: string[] }) => Promise<void>
+  onDelete: (folderId: string) => Promise<void>
+}
+
+export default function ChatFolderDialog({
+  open,
+  onOpenChange,
+  folder,
+  chats,
+  onSave,
+  onDelete,
+}: ChatFolderDialogProps) {
+  const [name, setName] = useState("")
+  const [rules, setRules] = useState<ChatFolderRules>({})
+  const [chatIds, setChatIds] = useState<Set<string>>(new Set())
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setName(folder?.name || "")
+    setRules(folder?.rules || {})
+    setChatIds(new Set(Object.keys(folder?.chatIds || {})))
+  }, [open, folder])
+
+  const toggleChat = (chatId: string) => {
+    setChatIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(chatId)) {
+        next.delete(chatId)
+      } else {
+        next.add(chatId)
+      }
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+
+    setIsSaving(true)
+    try {
+      await onSave({ name: name.trim(), rules, chatIds: Array.from(chatIds) })
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!folder) return
+
+    setIsSaving(true)
+    try {
+      await onDelete(folder.id)
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-border bg-card text-card-foreground max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FolderOpen className="h-5 w-5 text-primary" />
+            <span>{folder ? "Edit Folder" : "New Folder"}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="folder-name">Name</Label>
+            <Input
+              id="folder-name"
+              placeholder="e.g. Work, Family"
+              value={name}
+              maxLength={MAX_FOLDER_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              className="border-border bg-background"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Include automatically</Label>
+            <div className="space-y-2 rounded-lg border border-border p-3">
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="folder-rule-unread"
+                  checked={!!rules.unreadOnly}
+                  onCheckedChange={(checked) => setRules({ ...rules, unreadOnly: checked === true })}
+                />
+                <Label htmlFor="folder-rule-unread" className="cursor-pointer font-normal">
+                  Unread chats
+                </Label>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="folder-rule-contacts"
+                  checked={!!rules.contactsOnly}
+                  onCheckedChange={(checked) =>
+                    setRules({
+                      ...rules,
+                      contactsOnly: checked === true,
+                      groupsOnly: checked ? false : rules.groupsOnly,
+                    })
+                  }
+                />
+                <Label htmlFor="folder-rule-contacts" className="cursor-pointer font-normal">
+                  Contacts only
+                </Label>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="folder-rule-groups"
+                  checked={!!rules.groupsOnly}
+                  onCheckedChange={(checked) =>
+                    setRules({
+                      ...rules,
+                      groupsOnly: checked === true,
+                      contactsOnly: checked ? false : rules.contactsOnly,
+                    })
+                  }
+                />
+                <Label htmlFor="folder-rule-groups" className="cursor-pointer font-normal">
+                  Groups only
+                </Label>
+              </div>
+              <Input
+                placeholder="Name contains..."
+                value={rules.nameMatch || ""}
+                onChange={(e) => setRules({ ...rules, nameMatch: e.target.value })}
+                className="border-border bg-background"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Chats ({chatIds.size})</Label>
+            <ScrollArea className="h-40 rounded-lg border border-border">
+              <div className="p-1">
+                {chats.map((chat) => (
+                  <label
+                    key={chat.id}
+                    className="flex cursor-pointer items-center space-x-3 rounded-md px-2 py-2 hover:bg-muted"
+                  >
+                    <Checkbox checked={chatIds.has(chat.id)} onCheckedChange={() => toggleChat(chat.id)} />
+                    {chat.isGroup ? (
+                      <Users className="h-4 w-4 text-muted-foreground" />
+                    ) : (
+                      <User className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <span className="flex-1 truncate text-sm">{chat.name}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="flex items-center justify-between">
+            {folder ? (
+              <Button
+                variant="ghost"
+                onClick={handleDelete}
+                disabled={isSaving}
+                className="text-red-600 hover:bg-red-500/10 hover:text-red-600 dark:text-red-400"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            ) : (
+              <div />
+            )}
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)} className="border-border">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={isSaving || !name.trim()}
+                className="bg-primary text-primary-foreground hover:bg-primary/90"
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -18,6 +18,7 @@ import {
   MoreVertical,
   Phone,
   Video,
+  Shield,
   ArrowLeft,
   Settings,
   LogOut,
@@ -29,11 +30,25 @@ import {
   Archive,
   ChevronDown,
   ChevronUp,
+  Pencil,
+  Forward,
+  MessageSquare,
+  BarChart,
+  Star,
+  Timer,
+  Clock,
+  AlertCircle,
+  BellOff,
+  FolderPlus,
+  Ban,
+  UserPlus,
+  Megaphone,
+  Radio,
 } from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
 import { useChat } from "@/contexts/chat-context"
 import { useTheme } from "@/contexts/theme-context"
-import { ref, set, get, onValue, query, orderByChild, equalTo, push, update } from "firebase/database"
+import { ref, set, get, onValue, push, update, increment } from "firebase/database"
 import { database } from "@/lib/firebase"
 import { formatDistanceToNow } from "date-fns"
 import ContactProfileDrawer from "./contact-profile-drawer"
@@ -50,6 +65,67 @@ import GroupProfileDrawer from "./group-profile-drawer"
 import ChatContextMenu from "./chat-context-menu"
 import CallingInterface from "./calling-interface"
 import IncomingCallNotification from "./incoming-call-notification"
+import MessageEditHistory from "./message-edit-history"
+import ForwardMessageModal from "./forward-message-modal"
+import ThreadPanel from "./thread-panel"
+import MentionSuggestions, { type MentionSuggestion } from "./mention-suggestions"
+import PollCreationModal from "./poll-creation-modal"
+import PollMessage from "./poll-message"
+import VoiceRecorder from "./voice-recorder"
+import MessageSearchPanel, { type MessageSearchResult } from "./message-search-panel"
+import StarredMessagesPanel, { type StarredMessage } from "./starred-messages-panel"
+import PinnedMessagesBanner, { MAX_PINNED_MESSAGES, type PinnedMessage } from "./pinned-messages-banner"
+import ScheduleMessageDialog from "./schedule-message-dialog"
+import ScheduledMessagesTray from "./scheduled-messages-tray"
+import DisappearingMessagesDialog from "./disappearing-messages-dialog"
+import OfflineModeBanner from "./offline-mode-banner"
+import MessageInfoSheet, { type MessageInfoRecipient } from "./message-info-sheet"
+import ChatFolderDialog from "./chat-folder-dialog"
+import ReportContactDialog from "./report-contact-dialog"
+import ContactRequestsPanel from "./contact-requests-panel"
+import BroadcastListsPanel from "./broadcast-lists-panel"
+import { MENTION_ALL, resolveMentions, splitMentions } from "@/lib/mentions"
+import { getPollPreview, isPollClosed, type Poll } from "@/lib/polls"
+import { VOICE_NOTE_PREVIEW, type VoiceNote } from "@/lib/voice-notes"
+import { MIN_SEARCH_LENGTH } from "@/lib/message-search"
+import {
+  getScheduledGroupFailure,
+  getScheduledMessageFields,
+  getScheduledRequestFailure,
+  type ScheduledMessage,
+} from "@/lib/scheduled-messages"
+import {
+  getDisappearingTimerLabel,
+  getDisappearingTimerNotice,
+  getExpiresAt,
+  isMessageExpired,
+} from "@/lib/disappearing-messages"
+import { useScheduledMessages } from "@/hooks/use-scheduled-messages"
+import { usePollBallots } from "@/hooks/use-poll-ballots"
+import { useExpiredMessageSweeper } from "@/hooks/use-expired-message-sweeper"
+import { getGroupMessageReceipts, getReceiptStatus, type MemberReceipt } from "@/lib/read-receipts"
+import { getMuteDescription, getMutedUntil, isMuteActive } from "@/lib/chat-mutes"
+import { useNotificationSound } from "@/hooks/use-notification-sound"
+import {
+  chatMatchesFolder,
+  parseChatFolders,
+  type ChatFolder,
+  type ChatFolderRules,
+  type FolderChat,
+} from "@/lib/chat-folders"
+import { getPresencePath, type ReportReason } from "@/lib/moderation"
+import {
+  getAddContactMessage,
+  getContactRequestLabel,
+  type ContactRequest,
+  type ContactRequestStatus,
+} from "@/lib/contact-requests"
+import { useContactRequests } from "@/hooks/use-contact-requests"
+import type { DirectoryUser } from "@/lib/usernames"
+import { useUserDirectory } from "@/hooks/use-user-directory"
+import { hasGroupPermission, isGroupAdmin, type GroupPermissions } from "@/lib/group-permissions"
+import { getChannelUnread, isChannel, type GroupType } from "@/lib/channels"
+import { buildGroupSystemMessage } from "@/lib/group-events"
 
 interface Contact {
   id: string
@@ -60,6 +136,9 @@ interface Contact {
   lastMessage?: string
   timestamp?: number
   unread?: number
+  markedUnread?: boolean
+  // Set while our contact request is waiting for them or after they declined it
+  requestStatus?: ContactRequestStatus
   isOnline?: boolean
   lastSeen?: number
 }
@@ -69,12 +148,17 @@ interface Group {
   name: string
   description?: string
   avatar?: string
+  type?: GroupType
   createdBy: string
   createdAt: number
   members: { [uid: string]: { name: string; role: "admin" | "member"; joinedAt: number } }
   lastMessage?: string
   timestamp?: number
+  messageCount?: number
   unread?: number
+  unreadMentions?: number
+  markedUnread?: boolean
+  settings?: { membersCanPin?: boolean; disappearingTimer?: number; permissions?: GroupPermissions }
 }
 
 interface Message {
@@ -95,6 +179,23 @@ interface Message {
   replyToText?: string
   reactions?: { [emoji: string]: { users: string[]; userNames: { [uid: string]: string } } }
   isDeleted?: boolean
+  editedAt?: number
+  editHistory?: { [versionId: string]: { text: string; timestamp: number } }
+  forwardedFrom?: { uid: string; name: string }
+  replyCount?: number
+  mentions?: string[]
+  mentionsAll?: boolean
+  type?: "poll" | "system"
+  poll?: Poll
+  voiceNote?: VoiceNote
+  listened?: boolean
+  listenedBy?: { [uid: string]: number }
+  scheduledAt?: number
+  expiresAt?: number
+  systemEvent?: string
+  read?: boolean
+  readAt?: number
+  deliveredAt?: number
 }
 
 export default function ChatInterface() {
@@ -106,8 +207,17 @@ export default function ChatInterface() {
     messages,
     setMessages,
     sendMessage,
+    forwardMessage,
+    sendPoll,
+    votePoll,
+    closePoll,
+    setDisappearingTimer,
+    sendScheduledMessage,
+    sendVoiceNote,
+    markVoiceNoteListened,
     addReaction,
     deleteMessage,
+    editMessage,
     contacts,
     setContacts,
     typingUsers,
@@ -115,15 +225,57 @@ export default function ChatInterface() {
     stopTyping,
     loadMoreMessages,
     hasMoreMessages,
+    pendingMessages,
+    retryPendingMessage,
+    cancelPendingMessage,
+    isConnected,
+    blockedUsers,
+    blockedByUsers,
+    blockContact,
+    unblockContact,
+    reportContact,
   } = useChat()
   const [newMessage, setNewMessage] = useState("")
   const [searchQuery, setSearchQuery] = useState("")
   const [showAddContact, setShowAddContact] = useState(false)
-  const [newContactEmail, setNewContactEmail] = useState("")
+  const [contactSearchQuery, setContactSearchQuery] = useState("")
   const [isMobile, setIsMobile] = useState(false)
   const [showContactProfile, setShowContactProfile] = useState(false)
   const [showUserProfile, setShowUserProfile] = useState(false)
   const [replyingTo, setReplyingTo] = useState<Message | null>(null)
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null)
+  const [editHistoryMessage, setEditHistoryMessage] = useState<Message | null>(null)
+  const [forwardingMessage, setForwardingMessage] = useState<Message | null>(null)
+  const [threadMessage, setThreadMessage] = useState<Message | null>(null)
+  const [isPollModalOpen, setIsPollModalOpen] = useState(false)
+  const [starredMessages, setStarredMessages] = useState<StarredMessage[]>([])
+  const [showStarredMessages, setShowStarredMessages] = useState(false)
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([])
+  const [showScheduleDialog, setShowScheduleDialog] = useState(false)
+  const [reschedulingMessage, setReschedulingMessage] = useState<ScheduledMessage | null>(null)
+  const [showDisappearingDialog, setShowDisappearingDialog] = useState(false)
+  const [directDisappearingTimer, setDirectDisappearingTimer] = useState(0)
+  // Advanced when the next loaded message expires so it is hidden right away
+  const [expiryClock, setExpiryClock] = useState(() => Date.now())
+  const [groupReceipts, setGroupReceipts] = useState<{ [uid: string]: MemberReceipt }>({})
+  const [infoMessage, setInfoMessage] = useState<Message | null>(null)
+  const sendLongPressTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const sendLongPressTriggeredRef = useRef(false)
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null)
+  // Unread count when the open chat was entered; messageId is the first unread message once it is loaded
+  const [unreadDivider, setUnreadDivider] = useState<{ count: number; messageId: string | null } | null>(null)
+  const [isJumpingToUnread, setIsJumpingToUnread] = useState(false)
+  const [isAwayFromLatest, setIsAwayFromLatest] = useState(false)
+  // Messages cached from an earlier visit, which may predate the unread ones
+  const staleMessagesRef = useRef<Message[] | undefined>(undefined)
+  // Message to scroll to once a chat opened from search results has switched in
+  const jumpAfterSwitchRef = useRef<string | null>(null)
+  // Latest group message timestamp this device has already acknowledged as delivered, per group
+  const deliveredGroupMessagesRef = useRef<{ [groupId: string]: number }>({})
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null)
+  const [mentionStart, setMentionStart] = useState(0)
+  const [mentionIndex, setMentionIndex] = useState(0)
   const [isSending, setIsSending] = useState(false)
   const [activeTab, setActiveTab] = useState<"chats" | "groups">("chats")
   const [groups, setGroups] = useState<Group[]>([])
@@ -215,27 +367,84 @@ export default function ChatInterface() {
   const [pinnedChats, setPinnedChats] = useState<Set<string>>(new Set())
   const [archivedChats, setArchivedChats] = useState<Set<string>>(new Set())
   const [showArchivedChats, setShowArchivedChats] = useState(false)
+  // Mute end time per chat id (contact uid or group id), synced from mutedChats/{uid}
+  const [mutedChats, setMutedChats] = useState<{ [chatId: string]: number }>({})
+  const [muteClock, setMuteClock] = useState(() => Date.now())
+  const { playNotificationSound } = useNotificationSound()
+  // Custom sidebar folders, synced from chatFolders/{uid}; null shows every chat
+  const [chatFolders, setChatFolders] = useState<ChatFolder[]>([])
+  const [activeFolderId, setActiveFolderId] = useState<string | null>(null)
+  const [folderDialog, setFolderDialog] = useState<{ open: boolean; folder: ChatFolder | null }>({
+    open: false,
+    folder: null,
+  })
+  const [reportingContact, setReportingContact] = useState<{ id: string; name: string } | null>(null)
+  const [showContactRequests, setShowContactRequests] = useState(false)
+  const [showBroadcastLists, setShowBroadcastLists] = useState(false)
+  const {
+    contactRequests: incomingContactRequests,
+    acceptContactRequest,
+    declineContactRequest,
+    sendContactRequest,
+  } = useContactRequests(currentUser?.uid)
+  const { results: directoryResults, isSearching: isSearchingDirectory } = useUserDirectory(
+    contactSearchQuery,
+    currentUser?.uid,
+  )
 
   // Load more messages state
   const [isLoadingMore, setIsLoadingMore] = useState(false)
 
-  // Calculate total unread counts for tabs (excluding archived)
+  const isChatMuted = (chatId: string) => isMuteActive(mutedChats[chatId], muteClock)
+
+  // Neither side of a block sees the other's presence
+  const isPresenceHidden = (contactId: string) => !!blockedUsers[contactId] || !!blockedByUsers[contactId]
+  const isSelectedContactBlocked = !!selectedContact && !!blockedUsers[selectedContact.id]
+  // Contacts that haven't accepted our request can't be messaged, forwarded to or added to groups
+  const acceptedContacts = contacts.filter((contact) => !contact.requestStatus)
+  // Requests from people we've blocked stay hidden
+  const contactRequests = incomingContactRequests.filter((request) => !blockedUsers[request.id])
+  // Chat stays disabled until the other person accepts our contact request
+  const selectedRequestStatus = selectedContact
+    ? contacts.find((contact) => contact.id === selectedContact.id)?.requestStatus
+    : undefined
+
+  // Calculate total unread counts for tabs (excluding archived and muted)
   const totalUnreadChats = contacts
-    .filter((contact) => !archivedChats.has(contact.id))
+    .filter((contact) => !archivedChats.has(contact.id) && !isChatMuted(contact.id))
     .reduce((total, contact) => total + (contact.unread || 0), 0)
   const totalUnreadGroups = groups
-    .filter((group) => !archivedChats.has(group.id))
+    .filter((group) => !archivedChats.has(group.id) && !isChatMuted(group.id))
     .reduce((total, group) => total + (group.unread || 0), 0)
 
   // Calculate archived unread counts
   const archivedUnreadChats = contacts
-    .filter((contact) => archivedChats.has(contact.id))
+    .filter((contact) => archivedChats.has(contact.id) && !isChatMuted(contact.id))
     .reduce((total, contact) => total + (contact.unread || 0), 0)
   const archivedUnreadGroups = groups
-    .filter((group) => archivedChats.has(group.id))
+    .filter((group) => archivedChats.has(group.id) && !isChatMuted(group.id))
     .reduce((total, group) => total + (group.unread || 0), 0)
   const totalArchivedUnread = archivedUnreadChats + archivedUnreadGroups
 
+  const activeFolder = chatFolders.find((folder) => folder.id === activeFolderId) || null
+
+  const toFolderChat = (
+    chat: { id: string; name: string; unread?: number; markedUnread?: boolean },
+    isGroup: boolean,
+  ): FolderChat => ({
+    id: chat.id,
+    name: chat.name,
+    unread: chat.unread,
+    markedUnread: chat.markedUnread,
+    isGroup,
+  })
+
+  // Folder tab badges use the same rules as the main tabs: archived and muted chats don't count
+  const getFolderUnread = (folder: ChatFolder) =>
+    [...contacts.map((contact) => toFolderChat(contact, false)), ...groups.map((group) => toFolderChat(group, true))]
+      .filter((chat) => !archivedChats.has(chat.id) && !isChatMuted(chat.id) && chatMatchesFolder(folder, chat))
+      .reduce((total, chat) => total + (chat.unread || 0), 0)
+
   // Auto-focus message input when chat is selected
   useEffect(() => {
     if ((selectedContact || selectedGroup) && messageInputRef.current) {
@@ -246,6 +455,34 @@ export default function ChatInterface() {
     }
   }, [selectedContact, selectedGroup])
 
+  // Drop any in-progress edit or open thread when switching conversations
+  useEffect(() => {
+    setEditingMessage(null)
+    setThreadMessage(null)
+    setPendingJumpId(jumpAfterSwitchRef.current)
+    jumpAfterSwitchRef.current = null
+
+    // Remember how many messages were unread before opening the chat resets the count
+    const openedChat = selectedContact
+      ? contacts.find((contact) => contact.id === selectedContact.id)
+      : selectedGroup
+        ? groups.find((group) => group.id === selectedGroup.id)
+        : null
+    const unreadCount = openedChat && !openedChat.markedUnread ? openedChat.unread || 0 : 0
+    setUnreadDivider(unreadCount > 0 ? { count: unreadCount, messageId: null } : null)
+    setIsJumpingToUnread(false)
+    staleMessagesRef.current = selectedContact
+      ? messages[selectedContact.id]
+      : selectedGroup
+        ? groupMessages[selectedGroup.id]
+        : undefined
+
+    // A chat that was only marked unread has no unread messages for the read receipts to clear
+    if (currentUser && selectedContact && openedChat?.markedUnread) {
+      update(ref(database, `contacts/${currentUser.uid}/${selectedContact.id}`), { unread: 0, markedUnread: null })
+    }
+  }, [selectedContact?.id, selectedGroup?.id])
+
   // Enhanced back navigation with ESC key support
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -650,12 +887,36 @@ export default function ChatInterface() {
                 // Get unread count for this group
                 const groupUnreadRef = ref(database, `groupUnread/${groupId}/${currentUser.uid}`)
                 const unreadSnapshot = await get(groupUnreadRef)
-                const unreadCount = unreadSnapshot.exists() ? unreadSnapshot.val().count || 0 : 0
+                const markedUnread = unreadSnapshot.exists() ? unreadSnapshot.val().markedUnread || false : false
+                // Channels derive unread from their post counter; only admins post, so there are no mentions
+                const unreadCount = isChannel(groupData)
+                  ? getChannelUnread(groupData.messageCount, unreadSnapshot.val()?.readCount, markedUnread)
+                  : unreadSnapshot.exists()
+                    ? unreadSnapshot.val().count || 0
+                    : 0
+                const unreadMentions =
+                  !isChannel(groupData) && unreadSnapshot.exists() ? unreadSnapshot.val().mentions || 0 : 0
+
+                // Receiving the group update means its latest message reached this device. Only a newer message
+                // moves the receipt forward, and each one is acknowledged once even if the listener fires again.
+                const latestMessageAt = groupData.timestamp || 0
+                const lastDelivered = Math.max(
+                  unreadSnapshot.exists() ? unreadSnapshot.val().lastDelivered || 0 : 0,
+                  deliveredGroupMessagesRef.current[groupId] || 0,
+                )
+                if (latestMessageAt > lastDelivered) {
+                  deliveredGroupMessagesRef.current[groupId] = latestMessageAt
+                  update(groupUnreadRef, { lastDelivered: { ".sv": "timestamp" } }).catch((error) => {
+                    console.error("Failed to update group delivery receipt:", error)
+                  })
+                }
 
                 return {
                   id: groupId,
                   ...groupData,
                   unread: unreadCount,
+                  unreadMentions,
+                  markedUnread,
                 }
               }
               return null
@@ -703,6 +964,9 @@ export default function ChatInterface() {
 
             if (userSnapshot.exists()) {
               const userData = userSnapshot.val()
+              // Contacts who have blocked us can't be read here, so they just show as offline
+              const presenceSnapshot = await get(ref(database, getPresencePath(contactUid))).catch(() => null)
+              const presence = presenceSnapshot?.val() || {}
 
               // Ensure unread count is properly set
               const unreadCount = Math.max(0, contactData.unread || 0)
@@ -716,8 +980,10 @@ export default function ChatInterface() {
                 lastMessage: contactData.lastMessage || "",
                 timestamp: contactData.timestamp || 0,
                 unread: unreadCount,
-                isOnline: userData.isOnline || false,
-                lastSeen: userData.lastSeen || 0,
+                markedUnread: contactData.markedUnread || false,
+                requestStatus: contactData.requestStatus,
+                isOnline: presence.isOnline || false,
+                lastSeen: presence.lastSeen || 0,
               }
             }
             return null
@@ -768,15 +1034,26 @@ export default function ChatInterface() {
         messagesList.sort((a, b) => a.timestamp - b.timestamp)
         setGroupMessages((prev) => ({ ...prev, [selectedGroup.id]: messagesList }))
 
-        // Mark group messages as read when opening the group
+        // Mark group messages as read when opening the group; lastRead also drives other members' read receipts
         const groupUnreadRef = ref(database, `groupUnread/${selectedGroup.id}/${currentUser.uid}`)
-        await set(groupUnreadRef, { count: 0, lastRead: Date.now() })
+        // Channels catch up to the live post counter rather than zeroing a per-member count
+        const messageCountSnapshot = isChannel(selectedGroup)
+          ? await get(ref(database, `groups/${selectedGroup.id}/messageCount`))
+          : null
+        await update(groupUnreadRef, {
+          count: 0,
+          mentions: 0,
+          markedUnread: null,
+          lastRead: { ".sv": "timestamp" },
+          lastDelivered: { ".sv": "timestamp" },
+          ...(messageCountSnapshot && { readCount: messageCountSnapshot.val() || 0 }),
+        })
 
         // Update local groups state to reflect zero unread count
         setGroups((prevGroups) =>
           prevGroups.map((group) => {
             if (group.id === selectedGroup.id) {
-              return { ...group, unread: 0 }
+              return { ...group, unread: 0, unreadMentions: 0, markedUnread: false }
             }
             return group
           }),
@@ -796,8 +1073,8 @@ export default function ChatInterface() {
 
   // Auto-scroll to bottom with mobile header preservation - IMPROVED FOR PAGINATION
   useEffect(() => {
-    // Only auto-scroll if we're not loading more messages
-    if (isLoadingMore) return
+    // Only auto-scroll if we're not loading more messages or jumping to an older one
+    if (isLoadingMore || pendingJumpId || isJumpingToUnread) return
 
     if (isMobile && (selectedContact || selectedGroup)) {
       // On mobile, scroll to bottom but preserve some space for header visibility
@@ -812,7 +1089,7 @@ export default function ChatInterface() {
       // Desktop behavior remains the same
       messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
     }
-  }, [messages, groupMessages, selectedContact, selectedGroup, isMobile, isLoadingMore])
+  }, [messages, groupMessages, pendingMessages, selectedContact, selectedGroup, isMobile, isLoadingMore])
 
   // Handle typing indicators - OPTIMIZED
   const handleInputChange = useCallback(
@@ -820,6 +1097,20 @@ export default function ChatInterface() {
       const value = e.target.value
       setNewMessage(value)
 
+      // Open member autocomplete while an "@" token is being typed in a group
+      if (selectedGroup) {
+        const caret = e.target.selectionStart ?? value.length
+        const mentionMatch = value.slice(0, caret).match(/(^|\s)@([^\s@]*)$/)
+
+        if (mentionMatch) {
+          setMentionQuery(mentionMatch[2])
+          setMentionStart(caret - mentionMatch[2].length - 1)
+          setMentionIndex(0)
+        } else {
+          setMentionQuery(null)
+        }
+      }
+
       // Debounce typing indicators to reduce lag
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current)
@@ -837,13 +1128,50 @@ export default function ChatInterface() {
         stopTyping(selectedContact.uid)
       }
     },
-    [selectedContact, startTyping, stopTyping],
+    [selectedContact, selectedGroup, startTyping, stopTyping],
   )
 
+  const isSelectedGroupAdmin = !!(selectedGroup && currentUser && isGroupAdmin(selectedGroup, currentUser.uid))
+
+  const mentionSuggestions: MentionSuggestion[] =
+    selectedGroup && mentionQuery !== null
+      ? [
+          // Only admins may notify the whole group
+          ...(isSelectedGroupAdmin && MENTION_ALL.startsWith(mentionQuery.toLowerCase())
+            ? [{ uid: MENTION_ALL, name: MENTION_ALL, isAll: true }]
+            : []),
+          ...Object.entries(selectedGroup.members)
+            .filter(
+              ([uid, member]) =>
+                uid !== currentUser?.uid && member.name.toLowerCase().includes(mentionQuery.toLowerCase()),
+            )
+            .map(([uid, member]) => ({ uid, name: member.name, isAdmin: isGroupAdmin(selectedGroup, uid) })),
+        ].slice(0, 8)
+      : []
+
+  const handleSelectMention = (suggestion: MentionSuggestion) => {
+    const caret = messageInputRef.current?.selectionStart ?? newMessage.length
+    const mentionText = `@${suggestion.name} `
+    const updatedMessage = newMessage.slice(0, mentionStart) + mentionText + newMessage.slice(caret)
+
+    setNewMessage(updatedMessage)
+    setMentionQuery(null)
+
+    // Place the caret right after the inserted mention
+    setTimeout(() => {
+      const input = messageInputRef.current
+      if (input) {
+        const position = mentionStart + mentionText.length
+        input.focus()
+        input.setSelectionRange(position, position)
+      }
+    }, 0)
+  }
+
   // Swipe to reply handlers - FIXED AND OPTIMIZED
   const handleTouchStart = useCallback(
     (e: React.TouchEvent, message: Message) => {
-      if (!isMobile || message.isDeleted) return
+      if (!isMobile || message.isDeleted || message.isTemp) return
 
       // Don't interfere if user is typing or scrolling
       if (document.activeElement === messageInputRef.current) return
@@ -949,10 +1277,25 @@ export default function ChatInterface() {
   )
 
   const handleMessageAction = (message: Message) => {
+    setEditingMessage(null)
     setReplyingTo(message)
     messageInputRef.current?.focus()
   }
 
+  const handleStartEdit = (message: Message) => {
+    setReplyingTo(null)
+    setEditingMessage(message)
+    setNewMessage(message.text)
+    setTimeout(() => {
+      messageInputRef.current?.focus()
+    }, 100)
+  }
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null)
+    setNewMessage("")
+  }
+
   // Load more messages handler
   const handleLoadMoreMessages = async () => {
     if (!selectedContact || isLoadingMore || !hasMoreMessages[selectedContact.id]) return
@@ -975,6 +1318,17 @@ export default function ChatInterface() {
   // Calling handlers
   const handleVoiceCall = () => {
     if (!selectedContact) return
+    if (isSelectedContactBlocked) {
+      toast({ title: "Contact blocked", description: "Unblock this contact to call them", variant: "destructive" })
+      return
+    }
+    if (selectedRequestStatus) {
+      toast({
+        title: "Can't call yet",
+        description: getContactRequestLabel(selectedRequestStatus, selectedContact.name),
+      })
+      return
+    }
     setCurrentCall({
       contact: selectedContact,
       type: "voice",
@@ -985,6 +1339,17 @@ export default function ChatInterface() {
 
   const handleVideoCall = () => {
     if (!selectedContact) return
+    if (isSelectedContactBlocked) {
+      toast({ title: "Contact blocked", description: "Unblock this contact to call them", variant: "destructive" })
+      return
+    }
+    if (selectedRequestStatus) {
+      toast({
+        title: "Can't call yet",
+        description: getContactRequestLabel(selectedRequestStatus, selectedContact.name),
+      })
+      return
+    }
     setCurrentCall({
       contact: selectedContact,
       type: "video",
@@ -1028,68 +1393,172 @@ export default function ChatInterface() {
     setCurrentCall(null)
   }
 
+  // Writes a group message, updates the group's last message and bumps every other member's unread count.
+  // Channels bump a single messageCount instead, so posting costs the same however many members there are.
+  const deliverGroupMessage = useCallback(
+    async (group: Group, fields: { [key: string]: any }, previewText: string) => {
+      if (!currentUser) return
+
+      // Check against the live group, since admins may have restricted posting since it was selected
+      const liveGroup = groups.find((g) => g.id === group.id) || group
+      if (!hasGroupPermission(liveGroup, currentUser.uid, "sendMessages")) {
+        throw new Error("Only admins can send messages in this group")
+      }
+
+      const groupMessagesRef = ref(database, `groupMessages/${group.id}`)
+      const newMessageRef = push(groupMessagesRef)
+
+      // Read the timer at send time; the group passed in may be a stale snapshot
+      const timerSnapshot = await get(ref(database, `groups/${group.id}/settings/disappearingTimer`))
+
+      await set(newMessageRef, {
+        text: "",
+        senderUid: currentUser.uid,
+        senderName: userProfile?.name || currentUser.email?.split("@")[0] || "Unknown",
+        groupId: group.id,
+        timestamp: {
+          ".sv": "timestamp",
+        },
+        clientTimestamp: Date.now(),
+        status: "sent",
+        reactions: {},
+        expiresAt: getExpiresAt(timerSnapshot.val()),
+        ...fields,
+      })
+
+      // Update group's last message
+      const groupRef = ref(database, `groups/${group.id}`)
+      await update(groupRef, {
+        lastMessage: previewText,
+        timestamp: {
+          ".sv": "timestamp",
+        },
+        ...(isChannel(liveGroup) && { messageCount: increment(1) }),
+      })
+
+      if (isChannel(liveGroup)) return
+
+      // Update unread count for all other group members, tracking mentions separately
+      const groupMembers = Object.keys(group.members)
+      const unreadPromises = groupMembers
+        .filter((memberId) => memberId !== currentUser.uid)
+        .map(async (memberId) => {
+          const memberUnreadRef = ref(database, `groupUnread/${group.id}/${memberId}`)
+          const currentUnreadSnapshot = await get(memberUnreadRef)
+          const currentCount = currentUnreadSnapshot.exists() ? currentUnreadSnapshot.val().count || 0 : 0
+          const currentMentions = currentUnreadSnapshot.exists() ? currentUnreadSnapshot.val().mentions || 0 : 0
+          const isMentioned = fields.mentionsAll || (fields.mentions || []).includes(memberId)
+
+          // update rather than set so the member's lastRead/lastDelivered receipts survive
+          return update(memberUnreadRef, {
+            count: currentCount + 1,
+            mentions: currentMentions + (isMentioned ? 1 : 0),
+            lastMessage: previewText,
+            timestamp: Date.now(),
+          })
+        })
+
+      await Promise.all(unreadPromises)
+    },
+    [currentUser, userProfile, groups],
+  )
+
+  // Due scheduled messages go out through the normal DM and group send paths
+  const deliverScheduledMessage = useCallback(
+    async (scheduled: ScheduledMessage) => {
+      if (scheduled.chatType === "group") {
+        const groupSnapshot = await get(ref(database, `groups/${scheduled.targetId}`))
+
+        // Fail it if the group is gone, or the author has left or lost permission to post since scheduling
+        const failedReason = getScheduledGroupFailure(groupSnapshot.val(), scheduled.senderUid)
+        if (failedReason) return failedReason
+
+        const group = { id: scheduled.targetId, ...groupSnapshot.val() } as Group
+        await deliverGroupMessage(group, getScheduledMessageFields(scheduled), scheduled.text)
+      } else {
+        const requestSnapshot = await get(
+          ref(database, `contacts/${scheduled.senderUid}/${scheduled.targetId}/requestStatus`),
+        )
+        const failedReason = getScheduledRequestFailure(requestSnapshot.val())
+        if (failedReason) return failedReason
+
+        await sendScheduledMessage(scheduled.targetId, scheduled.text, scheduled.sendAt)
+      }
+      return null
+    },
+    [deliverGroupMessage, sendScheduledMessage],
+  )
+
+  const { scheduledMessages } = useScheduledMessages(currentUser?.uid, deliverScheduledMessage)
+  const { ballots: pollBallots, getBallotKey } = usePollBallots(currentUser?.uid)
+
   const handleSendMessage = useCallback(
     async (e: React.FormEvent) => {
       e.preventDefault()
-      if (!newMessage.trim() && !replyingTo) return
       if ((!selectedContact && !selectedGroup) || isSending) return
 
+      if (editingMessage) {
+        const editedText = newMessage.trim()
+        if (!editedText) return
+
+        setIsSending(true)
+        try {
+          await editMessage(
+            editingMessage.id,
+            selectedGroup ? { groupId: selectedGroup.id } : { contactId: selectedContact!.id },
+            editedText,
+          )
+
+          setEditingMessage(null)
+          setNewMessage("")
+        } catch (error) {
+          console.error("Failed to edit message:", error)
+          toast({
+            title: "Error",
+            description: "Failed to edit message. Please try again.",
+            variant: "destructive",
+          })
+        } finally {
+          setIsSending(false)
+        }
+        return
+      }
+
+      if (!newMessage.trim() && !replyingTo) return
+
       const messageText = newMessage.trim()
       setNewMessage("")
+      setMentionQuery(null)
       setIsSending(true)
 
       try {
         if (selectedGroup) {
           // Send group message
-          const groupMessagesRef = ref(database, `groupMessages/${selectedGroup.id}`)
-          const newMessageRef = push(groupMessagesRef)
-
-          const message = {
+          const message: { [key: string]: any } = {
             text: messageText,
-            senderUid: currentUser!.uid,
-            senderName: userProfile?.name || currentUser!.email?.split("@")[0] || "Unknown",
-            groupId: selectedGroup.id,
-            timestamp: {
-              ".sv": "timestamp",
-            },
-            clientTimestamp: Date.now(),
-            status: "sent",
-            reactions: {},
           }
 
+          const { mentions, mentionsAll } = resolveMentions(
+            messageText,
+            selectedGroup.members,
+            currentUser!.uid,
+            isGroupAdmin(selectedGroup, currentUser!.uid),
+          )
+          if (mentions.length > 0) message.mentions = mentions
+          if (mentionsAll) message.mentionsAll = true
+
           if (replyingTo) {
             message.replyToId = replyingTo.id
             message.replyToText = replyingTo.text
           }
 
-          await set(newMessageRef, message)
+          await deliverGroupMessage(selectedGroup, message, messageText)
 
-          // Update group's last message
-          const groupRef = ref(database, `groups/${selectedGroup.id}`)
-          await update(groupRef, {
-            lastMessage: messageText,
-            timestamp: {
-              ".sv": "timestamp",
-            },
-          })
-
-          // Update unread count for all other group members
-          const groupMembers = Object.keys(selectedGroup.members)
-          const unreadPromises = groupMembers
-            .filter((memberId) => memberId !== currentUser!.uid)
-            .map(async (memberId) => {
-              const memberUnreadRef = ref(database, `groupUnread/${selectedGroup.id}/${memberId}`)
-              const currentUnreadSnapshot = await get(memberUnreadRef)
-              const currentCount = currentUnreadSnapshot.exists() ? currentUnreadSnapshot.val().count || 0 : 0
-
-              return set(memberUnreadRef, {
-                count: currentCount + 1,
-                lastMessage: messageText,
-                timestamp: Date.now(),
-              })
-            })
-
-          await Promise.all(unreadPromises)
+          // Count the reply on its parent so the thread size is known without loading it
+          if (replyingTo) {
+            const parentRef = ref(database, `groupMessages/${selectedGroup.id}/${replyingTo.id}`)
+            await update(parentRef, { replyCount: increment(1) })
+          }
         } else if (selectedContact) {
           // Send direct message
           await sendMessage(messageText, replyingTo?.id, undefined, undefined, undefined)
@@ -1120,167 +1589,298 @@ export default function ChatInterface() {
       selectedContact,
       selectedGroup,
       sendMessage,
+      editMessage,
       replyingTo,
+      editingMessage,
       isSending,
       toast,
       stopTyping,
       currentUser,
-      userProfile,
-      database,
+      deliverGroupMessage,
     ],
   )
 
-  const handleAddContact = async (e?: React.FormEvent) => {
-    e?.preventDefault()
-    if (!newContactEmail.trim() || !currentUser) return
+  const handleAddContact = async (user: DirectoryUser) => {
+    if (!currentUser) return
 
     try {
-      // Find user by email
-      const usersRef = ref(database, "users")
-      const userQuery = query(usersRef, orderByChild("email"), equalTo(newContactEmail.trim()))
-      const snapshot = await get(userQuery)
+      const outcome = await sendContactRequest(user, {
+        name: userProfile?.name || currentUser.email?.split("@")[0] || "Unknown",
+        email: currentUser.email || "",
+        avatar: userProfile?.avatar,
+      })
+      toast(getAddContactMessage(outcome, user.name))
 
-      if (!snapshot.exists()) {
-        toast({
-          title: "User not found",
-          description: "No user found with this email address",
-          variant: "destructive",
-        })
-        return
+      if (outcome === "accepted" || outcome === "sent") {
+        setContactSearchQuery("")
+        setShowAddContact(false)
       }
+    } catch (error) {
+      console.error("Error adding contact:", error)
+      toast({
+        title: "Error",
+        description: "Failed to add contact. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
 
-      const userData = Object.values(snapshot.val())[0] as any
-      const contactUid = userData.uid
+  const handleFileUpload = async (fileUrl: string, fileType: string, fileName: string) => {
+    if (!selectedContact && !selectedGroup) return
 
-      if (contactUid === currentUser.uid) {
-        toast({
-          title: "Invalid contact",
-          description: "You cannot add yourself as a contact",
-          variant: "destructive",
-        })
-        return
+    try {
+      if (selectedGroup) {
+        // Send file to group
+        await deliverGroupMessage(selectedGroup, { fileUrl, fileType, fileName }, `📎 ${fileName}`)
+      } else {
+        await sendMessage("", undefined, fileUrl, fileType, fileName)
       }
 
-      // Check if contact already exists
-      const existingContactRef = ref(database, `contacts/${currentUser.uid}/${contactUid}`)
-      const existingSnapshot = await get(existingContactRef)
+      toast({
+        title: "File sent",
+        description: "Your file has been sent successfully",
+      })
+    } catch (error) {
+      console.error("Failed to send file:", error)
+      toast({
+        title: "Error",
+        description: "Failed to send file. Please try again.",
+      })
+    }
+  }
 
-      if (existingSnapshot.exists()) {
-        toast({
-          title: "Contact exists",
-          description: "This contact is already in your list",
-        })
-        return
-      }
+  const handleCreatePoll = async (
+    poll: Pick<Poll, "question" | "options" | "allowMultiple" | "anonymous" | "closesAt">,
+  ) => {
+    if (!currentUser || (!selectedContact && !selectedGroup)) return
 
-      // Add contact for current user
-      await set(existingContactRef, {
-        name: userData.name || userData.email?.split("@")[0] || "Unknown",
-        email: userData.email,
-        addedAt: Date.now(),
-        lastMessage: "",
-        timestamp: 0,
-        unread: 0,
+    try {
+      if (selectedGroup) {
+        await deliverGroupMessage(
+          selectedGroup,
+          {
+            text: getPollPreview(poll),
+            type: "poll",
+            poll: { ...poll, closesAt: poll.closesAt || null, createdBy: currentUser.uid },
+          },
+          getPollPreview(poll),
+        )
+      } else if (selectedContact) {
+        await sendPoll(selectedContact.id, poll)
+      }
+    } catch (error) {
+      console.error("Failed to send poll:", error)
+      toast({
+        title: "Error",
+        description: "Failed to send poll. Please try again.",
+        variant: "destructive",
       })
+      throw error
+    }
+  }
 
-      // Add current user as contact for the other user
-      const reverseContactRef = ref(database, `contacts/${contactUid}/${currentUser.uid}`)
-      await set(reverseContactRef, {
-        name: userProfile?.name || currentUser.email?.split("@")[0] || "Unknown",
-        email: currentUser.email,
-        addedAt: Date.now(),
-        lastMessage: "",
-        timestamp: 0,
-        unread: 0,
-      })
+  const handleVotePoll = async (message: Message, optionIds: string[]) => {
+    if (!currentUser || !message.poll || isPollClosed(message.poll)) return
+
+    try {
+      // Votes are stored per voter so concurrent voters never overwrite each other
+      const voteKey = message.poll.anonymous ? await getBallotKey(message.id) : currentUser.uid
 
+      if (selectedGroup) {
+        const voteRef = ref(database, `groupMessages/${selectedGroup.id}/${message.id}/poll/votes/${voteKey}`)
+        if (optionIds.length === 0) {
+          await set(voteRef, null)
+        } else {
+          await set(voteRef, {
+            options: Object.fromEntries(optionIds.map((optionId) => [optionId, true])),
+            ...(message.poll.anonymous ? {} : { name: userProfile?.name || "Unknown" }),
+            timestamp: Date.now(),
+          })
+        }
+      } else if (selectedContact) {
+        await votePoll(message.id, selectedContact.id, optionIds, voteKey)
+      }
+    } catch (error) {
+      console.error("Failed to vote:", error)
       toast({
-        title: "Contact added",
-        description: `${userData.name || userData.email} has been added to your contacts`,
+        title: "Error",
+        description: "Failed to submit your vote. Please try again.",
+        variant: "destructive",
       })
+    }
+  }
+
+  // Poll creators can always close their poll; in groups the owner and admins can too
+  const canClosePoll = (message: Message) => {
+    if (!currentUser || !message.poll) return false
+    if (message.poll.createdBy === currentUser.uid) return true
+    if (!selectedGroup) return false
+    return isGroupAdmin(selectedGroup, currentUser.uid)
+  }
+
+  const handleClosePoll = async (message: Message) => {
+    if (!currentUser || !canClosePoll(message)) return
 
-      setNewContactEmail("")
-      setShowAddContact(false)
+    try {
+      if (selectedGroup) {
+        await update(ref(database, `groupMessages/${selectedGroup.id}/${message.id}/poll`), {
+          closedAt: Date.now(),
+          closedBy: currentUser.uid,
+        })
+      } else if (selectedContact) {
+        await closePoll(message.id, selectedContact.id)
+      }
     } catch (error) {
-      console.error("Error adding contact:", error)
+      console.error("Failed to close poll:", error)
       toast({
         title: "Error",
-        description: "Failed to add contact. Please try again.",
+        description: "Failed to close poll. Please try again.",
         variant: "destructive",
       })
     }
   }
 
-  const handleFileUpload = async (fileUrl: string, fileType: string, fileName: string) => {
-    if (!selectedContact && !selectedGroup) return
+  // Errors propagate to the recorder, which reports them
+  const handleSendVoiceNote = async (fileUrl: string, fileName: string, voiceNote: VoiceNote) => {
+    if (selectedGroup) {
+      await deliverGroupMessage(selectedGroup, { fileUrl, fileType: "audio", fileName, voiceNote }, VOICE_NOTE_PREVIEW)
+    } else if (selectedContact) {
+      await sendVoiceNote(selectedContact.id, fileUrl, fileName, voiceNote)
+    }
+  }
+
+  const handleVoiceNotePlayed = async (message: Message) => {
+    if (!currentUser || message.senderUid === currentUser.uid) return
 
     try {
       if (selectedGroup) {
-        // Send file to group
-        const groupMessagesRef = ref(database, `groupMessages/${selectedGroup.id}`)
-        const newMessageRef = push(groupMessagesRef)
+        if (message.listenedBy?.[currentUser.uid]) return
+        await update(ref(database, `groupMessages/${selectedGroup.id}/${message.id}/listenedBy`), {
+          [currentUser.uid]: Date.now(),
+        })
+      } else if (selectedContact && !message.listened) {
+        await markVoiceNoteListened(message.id, selectedContact.id)
+      }
+    } catch (error) {
+      console.error("Failed to mark voice message as listened:", error)
+    }
+  }
 
-        const message = {
-          text: "",
-          senderUid: currentUser!.uid,
-          senderName: userProfile?.name || currentUser!.email?.split("@")[0] || "Unknown",
-          groupId: selectedGroup.id,
-          timestamp: {
-            ".sv": "timestamp",
-          },
-          clientTimestamp: Date.now(),
-          status: "sent",
-          fileUrl,
-          fileType,
-          fileName,
-          reactions: {},
-        }
+  // Senders see whether anyone has listened; recipients see whether they have
+  const isVoiceNoteListened = (message: Message) => {
+    if (!selectedGroup) return !!message.listened
+    if (message.senderUid === currentUser?.uid) return Object.keys(message.listenedBy || {}).length > 0
+    return !!(currentUser && message.listenedBy?.[currentUser.uid])
+  }
 
-        await set(newMessageRef, message)
+  const chatScheduledMessages = scheduledMessages.filter((scheduled) =>
+    selectedGroup
+      ? scheduled.chatType === "group" && scheduled.targetId === selectedGroup.id
+      : scheduled.chatType === "direct" && scheduled.targetId === selectedContact?.id,
+  )
 
-        // Update group's last message
-        const groupRef = ref(database, `groups/${selectedGroup.id}`)
-        await update(groupRef, {
-          lastMessage: `📎 ${fileName}`,
-          timestamp: {
-            ".sv": "timestamp",
-          },
-        })
+  // Mentions are resolved when scheduling so both delivery paths notify the same members
+  const getScheduledMentions = (text: string) => {
+    if (!selectedGroup || !currentUser) return {}
+    const { mentions, mentionsAll } = resolveMentions(
+      text,
+      selectedGroup.members,
+      currentUser.uid,
+      isGroupAdmin(selectedGroup, currentUser.uid),
+    )
+    return { mentions: mentions.length > 0 ? mentions : null, mentionsAll: mentionsAll || null }
+  }
 
-        // Update unread count for all other group members
-        const groupMembers = Object.keys(selectedGroup.members)
-        const unreadPromises = groupMembers
-          .filter((memberId) => memberId !== currentUser!.uid)
-          .map(async (memberId) => {
-            const memberUnreadRef = ref(database, `groupUnread/${selectedGroup.id}/${memberId}`)
-            const currentUnreadSnapshot = await get(memberUnreadRef)
-            const currentCount = currentUnreadSnapshot.exists() ? currentUnreadSnapshot.val().count || 0 : 0
-
-            return set(memberUnreadRef, {
-              count: currentCount + 1,
-              lastMessage: `📎 ${fileName}`,
-              timestamp: Date.now(),
-            })
-          })
+  const handleScheduleMessage = async (sendAt: number) => {
+    if (!currentUser || (!selectedContact && !selectedGroup)) return
 
-        await Promise.all(unreadPromises)
+    try {
+      if (reschedulingMessage) {
+        // Rescheduling a failed message puts it back in the queue
+        await update(ref(database, `scheduledMessages/${reschedulingMessage.id}`), {
+          sendAt,
+          status: "pending",
+          failedReason: null,
+        })
+        setReschedulingMessage(null)
       } else {
-        await sendMessage("", undefined, fileUrl, fileType, fileName)
+        const text = newMessage.trim()
+        if (!text) return
+
+        await set(push(ref(database, "scheduledMessages")), {
+          senderUid: currentUser.uid,
+          senderName: userProfile?.name || currentUser.email?.split("@")[0] || "Unknown",
+          chatType: selectedGroup ? "group" : "direct",
+          targetId: selectedGroup ? selectedGroup.id : selectedContact!.id,
+          text,
+          ...getScheduledMentions(text),
+          sendAt,
+          createdAt: Date.now(),
+          status: "pending",
+        })
+
+        setNewMessage("")
+        setMentionQuery(null)
       }
 
       toast({
-        title: "File sent",
-        description: "Your file has been sent successfully",
+        title: "Message scheduled",
+        description: `It will be sent ${new Date(sendAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}`,
       })
     } catch (error) {
-      console.error("Failed to send file:", error)
+      console.error("Failed to schedule message:", error)
       toast({
         title: "Error",
-        description: "Failed to send file. Please try again.",
+        description: "Failed to schedule message. Please try again.",
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
+  const handleUpdateScheduledText = async (scheduled: ScheduledMessage, text: string) => {
+    try {
+      await update(ref(database, `scheduledMessages/${scheduled.id}`), { text, ...getScheduledMentions(text) })
+    } catch (error) {
+      console.error("Failed to update scheduled message:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update scheduled message. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCancelScheduled = async (scheduled: ScheduledMessage) => {
+    try {
+      await set(ref(database, `scheduledMessages/${scheduled.id}`), null)
+    } catch (error) {
+      console.error("Failed to cancel scheduled message:", error)
+      toast({
+        title: "Error",
+        description: "Failed to cancel scheduled message. Please try again.",
+        variant: "destructive",
       })
     }
   }
 
+  // Long-pressing or right-clicking Send opens "Send later"
+  const handleSendPointerDown = () => {
+    sendLongPressTriggeredRef.current = false
+    sendLongPressTimerRef.current = setTimeout(() => {
+      if (!newMessage.trim() || editingMessage) return
+      sendLongPressTriggeredRef.current = true
+      setShowScheduleDialog(true)
+    }, 500)
+  }
+
+  const clearSendLongPress = () => {
+    if (sendLongPressTimerRef.current) {
+      clearTimeout(sendLongPressTimerRef.current)
+      sendLongPressTimerRef.current = null
+    }
+  }
+
   const handleFileDrop = (files: File[]) => {
     console.log("Files dropped:", files)
   }
@@ -1315,11 +1915,23 @@ export default function ChatInterface() {
         title: "Error",
         description: "Failed to delete message. Please try again.",
       })
+      return
+    }
+
+    // A deleted message can't stay pinned; the delete already went through, so this is best-effort
+    if (pinnedMessageIds.has(message.id) && pinnedMessagesKey) {
+      try {
+        await set(ref(database, `pinnedMessages/${pinnedMessagesKey}/${message.id}`), null)
+      } catch (error) {
+        console.error("Failed to unpin deleted message:", error)
+      }
     }
   }
 
   const handleMessageContextMenu = (e: React.MouseEvent, message: Message) => {
     e.preventDefault()
+    // Outbox messages don't exist in Firebase yet, so there is nothing to act on
+    if (message.isTemp) return
     setContextMenu({
       visible: true,
       x: e.clientX,
@@ -1338,28 +1950,369 @@ export default function ChatInterface() {
     }
   }
 
-  const handleReaction = async (message: Message, emoji: string) => {
-    if (!selectedContact && !selectedGroup) return
+  const getChatId = (uid1: string, uid2: string): string => {
+    return uid1 > uid2 ? `${uid1}-${uid2}` : `${uid2}-${uid1}`
+  }
+
+  useExpiredMessageSweeper([
+    ...(currentUser ? contacts.map((contact) => `messages/${getChatId(currentUser.uid, contact.id)}`) : []),
+    ...groups.map((group) => `groupMessages/${group.id}`),
+  ])
+
+  const getThreadSenderName = (message: { senderUid: string; senderName?: string }) => {
+    if (message.senderUid === currentUser?.uid) return "You"
+    return message.senderName || selectedContact?.name || "Unknown"
+  }
+
+  // The sender's real display name, for copies of a message that other people (or later sessions) read
+  const getMessageSenderName = (message: { senderUid: string; senderName?: string }) => {
+    if (message.senderUid === currentUser?.uid) {
+      return userProfile?.name || currentUser.email?.split("@")[0] || "Unknown"
+    }
+    return message.senderName || selectedContact?.name || "Unknown"
+  }
+
+  const handleSendThreadReply = async (text: string) => {
+    if (!threadMessage) return
 
     try {
       if (selectedGroup) {
-        // Add reaction to group message
-        const messageRef = ref(database, `groupMessages/${selectedGroup.id}/${message.id}`)
-        const messageSnapshot = await get(messageRef)
+        await deliverGroupMessage(
+          selectedGroup,
+          { text, replyToId: threadMessage.id, replyToText: threadMessage.text },
+          text,
+        )
 
-        if (!messageSnapshot.exists()) return
+        const parentRef = ref(database, `groupMessages/${selectedGroup.id}/${threadMessage.id}`)
+        await update(parentRef, { replyCount: increment(1) })
+      } else if (selectedContact) {
+        await sendMessage(text, threadMessage.id)
+      }
+    } catch (error) {
+      console.error("Failed to send thread reply:", error)
+      toast({
+        title: "Error",
+        description: "Failed to send reply. Please try again.",
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
 
-        const messageData = messageSnapshot.val()
-        const reactions = messageData.reactions || {}
+  const handleJumpToMessage = (messageId: string) => {
+    setThreadMessage(null)
+    setPendingJumpId(messageId)
+  }
 
-        if (!reactions[emoji]) {
-          reactions[emoji] = {
-            users: [],
-            userNames: {},
-          }
-        }
+  // Opens the conversation holding a message (from search or starred) and scrolls to it
+  const handleOpenMessageInChat = (result: MessageSearchResult) => {
+    const isAlreadyOpen = result.isGroup
+      ? selectedGroup?.id === result.conversationId
+      : selectedContact?.id === result.conversationId
 
-        const userIndex = reactions[emoji].users.indexOf(currentUser!.uid)
+    if (isAlreadyOpen) {
+      handleJumpToMessage(result.messageId)
+      return
+    }
+
+    if (result.isGroup) {
+      const group = groups.find((g) => g.id === result.conversationId)
+      if (!group) {
+        toast({ title: "Chat unavailable", description: "You no longer have access to this conversation" })
+        return
+      }
+      jumpAfterSwitchRef.current = result.messageId
+      setSelectedGroup(group)
+      setSelectedContact(null)
+      setActiveTab("groups")
+    } else {
+      const contact = contacts.find((c) => c.id === result.conversationId)
+      if (!contact) {
+        toast({ title: "Chat unavailable", description: "You no longer have access to this conversation" })
+        return
+      }
+      jumpAfterSwitchRef.current = result.messageId
+      setSelectedContact(contact)
+      setSelectedGroup(null)
+      setActiveTab("chats")
+    }
+  }
+
+  // selectedGroup is a snapshot taken on selection; read live settings and roles from the groups list
+  const liveSelectedGroup = selectedGroup ? groups.find((g) => g.id === selectedGroup.id) || selectedGroup : null
+
+  // Pins live at pinnedMessages/{chatId} for DMs and pinnedMessages/{groupId} for groups
+  const pinnedMessagesKey =
+    selectedGroup?.id || (selectedContact && currentUser ? getChatId(currentUser.uid, selectedContact.id) : null)
+  const pinnedMessageIds = new Set(pinnedMessages.map((pin) => pin.messageId))
+
+  // Anyone can pin in a DM; in groups only admins, unless the group lets members pin
+  const canPinMessages =
+    !!currentUser && (!liveSelectedGroup || hasGroupPermission(liveSelectedGroup, currentUser.uid, "pinMessages"))
+
+  const canSendToSelectedGroup =
+    !!currentUser && !!liveSelectedGroup && hasGroupPermission(liveSelectedGroup, currentUser.uid, "sendMessages")
+
+  const currentDisappearingTimer = liveSelectedGroup
+    ? liveSelectedGroup.settings?.disappearingTimer || 0
+    : directDisappearingTimer
+
+  // Either participant can set the timer in a DM; in groups only admins can
+  const canChangeDisappearingTimer =
+    !!currentUser && (!liveSelectedGroup || isGroupAdmin(liveSelectedGroup, currentUser.uid))
+
+  // Group ticks are computed from the current members' receipts; DMs carry their own status
+  const getMessageStatus = (message: Message) => {
+    if (message.isTemp) return message.status
+    if (liveSelectedGroup) {
+      return getReceiptStatus(
+        getGroupMessageReceipts(message, Object.keys(liveSelectedGroup.members), groupReceipts),
+      )
+    }
+    return message.read ? "read" : message.status
+  }
+
+  const getMessageInfoRecipients = (message: Message): MessageInfoRecipient[] => {
+    if (liveSelectedGroup) {
+      return getGroupMessageReceipts(message, Object.keys(liveSelectedGroup.members), groupReceipts).map(
+        (receipt) => ({
+          ...receipt,
+          // Prefer the name the user saved for this contact
+          name:
+            contacts.find((c) => c.id === receipt.uid)?.name || liveSelectedGroup.members[receipt.uid]?.name || "Unknown",
+        }),
+      )
+    }
+
+    if (!selectedContact) return []
+    return [
+      {
+        uid: selectedContact.id,
+        name: selectedContact.name,
+        readAt: message.read ? message.readAt || message.timestamp : undefined,
+        deliveredAt:
+          message.deliveredAt || (message.status === "delivered" || message.read ? message.timestamp : undefined),
+      },
+    ]
+  }
+
+  const handleChangeDisappearingTimer = async (timer: number) => {
+    if (!currentUser || !canChangeDisappearingTimer) return
+
+    try {
+      if (selectedContact) {
+        await setDisappearingTimer(selectedContact.id, timer)
+      } else if (selectedGroup) {
+        await update(ref(database, `groups/${selectedGroup.id}/settings`), { disappearingTimer: timer })
+
+        // Announce the change in the chat without touching unread counts or the last message
+        const actorName = userProfile?.name || "Someone"
+        await set(
+          push(ref(database, `groupMessages/${selectedGroup.id}`)),
+          buildGroupSystemMessage(
+            selectedGroup.id,
+            "disappearing_timer",
+            getDisappearingTimerNotice(actorName, timer),
+            { uid: currentUser.uid, name: actorName },
+          ),
+        )
+      }
+    } catch (error) {
+      console.error("Failed to update disappearing messages:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update disappearing messages. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleTogglePin = async (message: Message) => {
+    if (!currentUser || !pinnedMessagesKey || !canPinMessages) return
+
+    const pinRef = ref(database, `pinnedMessages/${pinnedMessagesKey}/${message.id}`)
+
+    try {
+      if (pinnedMessageIds.has(message.id)) {
+        await set(pinRef, null)
+        return
+      }
+
+      if (pinnedMessages.length >= MAX_PINNED_MESSAGES) {
+        toast({
+          title: "Pin limit reached",
+          description: `You can pin up to ${MAX_PINNED_MESSAGES} messages. Unpin one to pin another.`,
+          variant: "destructive",
+        })
+        return
+      }
+
+      await set(pinRef, {
+        messageId: message.id,
+        text: message.text || "",
+        fileName: message.fileName || null,
+        senderUid: message.senderUid,
+        senderName: getMessageSenderName(message),
+        pinnedBy: currentUser.uid,
+        pinnedAt: Date.now(),
+      })
+    } catch (error) {
+      console.error("Failed to update pinned messages:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update pinned messages. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleUnpinMessage = async (messageId: string) => {
+    const message = currentMessages.find((m) => m.id === messageId)
+    if (message) {
+      await handleTogglePin(message)
+    } else if (pinnedMessagesKey && canPinMessages) {
+      await set(ref(database, `pinnedMessages/${pinnedMessagesKey}/${messageId}`), null)
+    }
+  }
+
+  const starredMessageIds = new Set(starredMessages.map((starred) => starred.messageId))
+
+  const handleToggleStar = async (message: Message) => {
+    if (!currentUser || (!selectedContact && !selectedGroup)) return
+
+    const starRef = ref(database, `starredMessages/${currentUser.uid}/${message.id}`)
+
+    try {
+      if (starredMessageIds.has(message.id)) {
+        await set(starRef, null)
+        return
+      }
+
+      // Keep a snapshot so the starred list renders without loading every conversation
+      await set(starRef, {
+        messageId: message.id,
+        chatId: selectedGroup ? selectedGroup.id : getChatId(currentUser.uid, selectedContact!.id),
+        conversationId: selectedGroup ? selectedGroup.id : selectedContact!.id,
+        isGroup: !!selectedGroup,
+        chatName: selectedGroup ? selectedGroup.name : selectedContact!.name,
+        senderUid: message.senderUid,
+        senderName: getMessageSenderName(message),
+        text: message.text || "",
+        fileUrl: message.fileUrl || null,
+        fileType: message.fileType || null,
+        fileName: message.fileName || null,
+        messageTimestamp: message.timestamp,
+        starredAt: Date.now(),
+      })
+
+      toast({
+        title: "Message starred",
+        description: "You can find it in Starred Messages",
+      })
+    } catch (error) {
+      console.error("Failed to star message:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update starred messages. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleUnstar = async (starred: StarredMessage) => {
+    if (!currentUser) return
+
+    try {
+      await set(ref(database, `starredMessages/${currentUser.uid}/${starred.messageId}`), null)
+    } catch (error) {
+      console.error("Failed to unstar message:", error)
+      toast({
+        title: "Error",
+        description: "Failed to unstar message. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleOpenStarredMessage = (starred: StarredMessage) => {
+    setShowStarredMessages(false)
+    handleOpenMessageInChat(starred)
+  }
+
+  const handleForwardMessage = async (contactIds: string[], groupIds: string[]) => {
+    if (!forwardingMessage || !currentUser) return
+
+    const message = forwardingMessage
+
+    // Keep the original attribution when forwarding something that was already forwarded
+    const forwardedFrom = message.forwardedFrom || { uid: message.senderUid, name: getMessageSenderName(message) }
+    const payload = {
+      text: message.text || "",
+      fileUrl: message.fileUrl,
+      fileType: message.fileType,
+      fileName: message.fileName,
+    }
+    const previewText = payload.text || (payload.fileName ? `📎 ${payload.fileName}` : "File")
+
+    try {
+      await Promise.all([
+        ...contactIds.map((contactId) => forwardMessage(contactId, payload, forwardedFrom)),
+        ...groupIds.map((groupId) => {
+          const group = groups.find((g) => g.id === groupId)
+          if (!group) return Promise.resolve()
+
+          return deliverGroupMessage(
+            group,
+            {
+              text: payload.text,
+              ...(payload.fileUrl
+                ? { fileUrl: payload.fileUrl, fileType: payload.fileType || "", fileName: payload.fileName || "" }
+                : {}),
+              forwardedFrom,
+            },
+            previewText,
+          )
+        }),
+      ])
+
+      const targetCount = contactIds.length + groupIds.length
+      toast({
+        title: "Message forwarded",
+        description: `Forwarded to ${targetCount} ${targetCount === 1 ? "chat" : "chats"}`,
+      })
+      setForwardingMessage(null)
+    } catch (error) {
+      console.error("Failed to forward message:", error)
+      toast({
+        title: "Error",
+        description: "Failed to forward message. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleReaction = async (message: Message, emoji: string) => {
+    if (!selectedContact && !selectedGroup) return
+
+    try {
+      if (selectedGroup) {
+        // Add reaction to group message
+        const messageRef = ref(database, `groupMessages/${selectedGroup.id}/${message.id}`)
+        const messageSnapshot = await get(messageRef)
+
+        if (!messageSnapshot.exists()) return
+
+        const messageData = messageSnapshot.val()
+        const reactions = messageData.reactions || {}
+
+        if (!reactions[emoji]) {
+          reactions[emoji] = {
+            users: [],
+            userNames: {},
+          }
+        }
+
+        const userIndex = reactions[emoji].users.indexOf(currentUser!.uid)
 
         if (userIndex > -1) {
           reactions[emoji].users.splice(userIndex, 1)
@@ -1441,12 +2394,165 @@ export default function ChatInterface() {
 
   const filteredGroups = groups.filter((group) => group.name.toLowerCase().includes(searchQuery.toLowerCase()))
 
-  const currentMessages = selectedContact
+  const loadedMessages = selectedContact
     ? messages[selectedContact.id] || []
     : selectedGroup
       ? groupMessages[selectedGroup.id] || []
       : []
 
+  // Queued outbox messages trail the conversation until Firebase echoes them back
+  const loadedMessageIds = new Set(loadedMessages.map((message) => message.id))
+  const outboxMessages = selectedContact
+    ? pendingMessages.filter(
+        (message) => message.receiverUid === selectedContact.id && !loadedMessageIds.has(message.id),
+      )
+    : []
+
+  // Expired messages are hidden immediately; the sweeper deletes them from the database later
+  const currentMessages = [
+    ...loadedMessages.filter((message) => !isMessageExpired(message, expiryClock)),
+    ...outboxMessages,
+  ]
+
+  useEffect(() => {
+    const upcomingExpiries = loadedMessages
+      .map((message) => message.expiresAt || 0)
+      .filter((expiresAt) => expiresAt > expiryClock)
+    if (upcomingExpiries.length === 0) return
+
+    // setTimeout overflows past ~24.8 days, so long timers just re-check later
+    const delay = Math.min(Math.max(Math.min(...upcomingExpiries) - Date.now(), 0), 2 ** 31 - 1)
+    const timeout = setTimeout(() => setExpiryClock(Date.now()), delay)
+    return () => clearTimeout(timeout)
+  }, [loadedMessages, expiryClock])
+
+  // Place the unread divider: the first unread message is the Nth-newest message from someone else.
+  // When jumping to it, older DM pages are loaded until enough of the history is present.
+  useEffect(() => {
+    if (!unreadDivider) return
+    if (unreadDivider.messageId) {
+      if (isJumpingToUnread) {
+        setPendingJumpId(unreadDivider.messageId)
+        setIsJumpingToUnread(false)
+      }
+      return
+    }
+    if (staleMessagesRef.current && loadedMessages === staleMessagesRef.current) return
+
+    const incomingMessages = loadedMessages.filter(
+      (message) => message.senderUid !== currentUser?.uid && message.type !== "system",
+    )
+    if (incomingMessages.length >= unreadDivider.count) {
+      setUnreadDivider({
+        ...unreadDivider,
+        messageId: incomingMessages[incomingMessages.length - unreadDivider.count].id,
+      })
+    } else if (isJumpingToUnread) {
+      if (selectedContact && hasMoreMessages[selectedContact.id]) {
+        if (!isLoadingMore) handleLoadMoreMessages()
+      } else if (incomingMessages.length > 0) {
+        // Some unread messages were deleted; everything from the oldest remaining one is unread
+        setUnreadDivider({ ...unreadDivider, messageId: incomingMessages[0].id })
+      } else {
+        setIsJumpingToUnread(false)
+      }
+    }
+  }, [unreadDivider, loadedMessages, isJumpingToUnread, isLoadingMore])
+
+  // Track whether the user has scrolled up, for the "jump to latest" button
+  useEffect(() => {
+    const viewport = chatContainerRef.current?.querySelector("[data-radix-scroll-area-viewport]")
+    if (!viewport) return
+
+    const handleScroll = () => {
+      setIsAwayFromLatest(viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight > 300)
+    }
+
+    handleScroll()
+    viewport.addEventListener("scroll", handleScroll)
+    return () => viewport.removeEventListener("scroll", handleScroll)
+  }, [selectedContact?.id, selectedGroup?.id])
+
+  const renderUnreadDivider = (count: number) => (
+    <motion.div
+      key="unread-divider"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="flex items-center space-x-3"
+      data-unread-divider
+    >
+      <div className="h-px flex-1 bg-primary/40" />
+      <span className="rounded-full bg-primary/15 px-3 py-1 text-xs font-medium text-primary">
+        {count} unread {count === 1 ? "message" : "messages"}
+      </span>
+      <div className="h-px flex-1 bg-primary/40" />
+    </motion.div>
+  )
+
+  // Inserts the unread divider in front of the first unread message's element
+  const withUnreadDivider = (elements: React.ReactNode[]) => {
+    const index = unreadDivider?.messageId
+      ? currentMessages.findIndex((message) => message.id === unreadDivider.messageId)
+      : -1
+    if (!unreadDivider || index === -1) return elements
+    return [...elements.slice(0, index), renderUnreadDivider(unreadDivider.count), ...elements.slice(index)]
+  }
+
+  const handleJumpToLatest = () => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
+  }
+
+  // Scroll to a requested message, paging older DM history in until it is rendered
+  useEffect(() => {
+    if (!pendingJumpId) return
+
+    // Wait for the first page of a freshly opened conversation to arrive
+    const isConversationLoaded = selectedContact
+      ? !!messages[selectedContact.id]
+      : selectedGroup
+        ? !!groupMessages[selectedGroup.id]
+        : false
+    if (!isConversationLoaded) return
+
+    const element = document.querySelector(`[data-message-id="${pendingJumpId}"]`)
+    if (element) {
+      element.scrollIntoView({ behavior: "smooth", block: "center" })
+      setHighlightedMessageId(pendingJumpId)
+      setPendingJumpId(null)
+      setTimeout(() => setHighlightedMessageId(null), 2000)
+      return
+    }
+
+    if (selectedContact && hasMoreMessages[selectedContact.id]) {
+      if (!isLoadingMore) handleLoadMoreMessages()
+      return
+    }
+
+    setPendingJumpId(null)
+    toast({
+      title: "Message not found",
+      description: "The original message is no longer available",
+    })
+  }, [pendingJumpId, currentMessages, isLoadingMore])
+
+  // Highlights resolved @mentions in group messages
+  const renderMessageText = (message: Message) => {
+    if (!selectedGroup || (!message.mentions?.length && !message.mentionsAll)) return message.text
+
+    const mentionedNames = (message.mentions || []).map((uid) => selectedGroup.members[uid]?.name || "")
+    if (message.mentionsAll) mentionedNames.push(MENTION_ALL)
+
+    return splitMentions(message.text, mentionedNames).map((segment, index) =>
+      segment.isMention ? (
+        <span key={index} className="font-semibold text-blue-400">
+          {segment.text}
+        </span>
+      ) : (
+        segment.text
+      ),
+    )
+  }
+
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp)
     const now = new Date()
@@ -1565,6 +2671,208 @@ export default function ChatInterface() {
     setChatContextMenu({ visible: false, x: 0, y: 0, contact: null, group: null })
   }
 
+  const handleMuteChat = async (chatId: string, duration: number | null) => {
+    if (!currentUser) return
+
+    try {
+      const mutedRef = ref(database, `mutedChats/${currentUser.uid}/${chatId}`)
+      if (duration === null) {
+        await set(mutedRef, null)
+        toast({ title: "Chat unmuted", description: "You'll be notified about new messages again" })
+      } else {
+        const mutedUntil = getMutedUntil(duration)
+        await set(mutedRef, mutedUntil)
+        setMuteClock(Date.now())
+        toast({ title: "Chat muted", description: getMuteDescription(mutedUntil) })
+      }
+    } catch (error) {
+      console.error("Error muting chat:", error)
+      toast({
+        title: "Error",
+        description: "Failed to mute/unmute chat",
+        variant: "destructive",
+      })
+    }
+
+    setChatContextMenu({ visible: false, x: 0, y: 0, contact: null, group: null })
+  }
+
+  const handleSelectFolder = (folder: ChatFolder | null) => {
+    setActiveFolderId(folder?.id || null)
+    setShowArchivedChats(false)
+    // A folder that only holds one kind of chat opens on the matching tab
+    if (folder?.rules?.groupsOnly) setActiveTab("groups")
+    if (folder?.rules?.contactsOnly) setActiveTab("chats")
+  }
+
+  const handleSaveFolder = async (fields: { name: string; rules: ChatFolderRules; chatIds: string[] }) => {
+    if (!currentUser) return
+
+    const editingFolder = folderDialog.folder
+    const folderRef = editingFolder
+      ? ref(database, `chatFolders/${currentUser.uid}/${editingFolder.id}`)
+      : push(ref(database, `chatFolders/${currentUser.uid}`))
+
+    try {
+      await set(folderRef, {
+        name: fields.name,
+        rules: {
+          unreadOnly: !!fields.rules.unreadOnly,
+          groupsOnly: !!fields.rules.groupsOnly,
+          contactsOnly: !!fields.rules.contactsOnly,
+          nameMatch: fields.rules.nameMatch?.trim() || null,
+        },
+        chatIds: fields.chatIds.length > 0 ? Object.fromEntries(fields.chatIds.map((id) => [id, true])) : null,
+        createdAt: editingFolder?.createdAt || Date.now(),
+      })
+
+      if (!editingFolder) setActiveFolderId(folderRef.key)
+      toast({
+        title: editingFolder ? "Folder updated" : "Folder created",
+        description: `"${fields.name}" has been saved`,
+      })
+    } catch (error) {
+      console.error("Error saving folder:", error)
+      toast({
+        title: "Error",
+        description: "Failed to save folder",
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
+  const handleDeleteFolder = async (folderId: string) => {
+    if (!currentUser) return
+
+    try {
+      await set(ref(database, `chatFolders/${currentUser.uid}/${folderId}`), null)
+      if (activeFolderId === folderId) setActiveFolderId(null)
+      toast({ title: "Folder deleted", description: "The chats in it are still in your chat list" })
+    } catch (error) {
+      console.error("Error deleting folder:", error)
+      toast({
+        title: "Error",
+        description: "Failed to delete folder",
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
+  const handleToggleFolder = async (folderId: string, chatId: string) => {
+    if (!currentUser) return
+
+    const folder = chatFolders.find((f) => f.id === folderId)
+    if (!folder) return
+
+    const isInFolder = !!folder.chatIds?.[chatId]
+    try {
+      await set(ref(database, `chatFolders/${currentUser.uid}/${folderId}/chatIds/${chatId}`), isInFolder ? null : true)
+      toast({
+        title: isInFolder ? "Removed from folder" : "Added to folder",
+        description: isInFolder ? `Chat removed from "${folder.name}"` : `Chat added to "${folder.name}"`,
+      })
+    } catch (error) {
+      console.error("Error updating folder:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update folder",
+        variant: "destructive",
+      })
+    }
+
+    setChatContextMenu({ visible: false, x: 0, y: 0, contact: null, group: null })
+  }
+
+  const handleBlockChat = async (chatId: string) => {
+    if (!currentUser) return
+
+    const contactName = contacts.find((c) => c.id === chatId)?.name || "This contact"
+    const isBlocked = !!blockedUsers[chatId]
+    try {
+      if (isBlocked) {
+        await unblockContact(chatId)
+        toast({ title: "Contact unblocked", description: `${contactName} can message and call you again` })
+      } else {
+        await blockContact(chatId)
+        toast({ title: "Contact blocked", description: `You won't receive messages or calls from ${contactName}` })
+      }
+    } catch (error) {
+      console.error("Error blocking contact:", error)
+      toast({
+        title: "Error",
+        description: "Failed to block/unblock contact",
+        variant: "destructive",
+      })
+    }
+
+    setChatContextMenu({ visible: false, x: 0, y: 0, contact: null, group: null })
+  }
+
+  const handleAcceptContactRequest = async (request: ContactRequest) => {
+    try {
+      await acceptContactRequest(request)
+      toast({ title: "Request accepted", description: `${request.name} has been added to your contacts` })
+    } catch (error) {
+      console.error("Error accepting contact request:", error)
+      toast({
+        title: "Error",
+        description: "Failed to accept request",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDeclineContactRequest = async (request: ContactRequest, block = false) => {
+    try {
+      await declineContactRequest(request)
+      if (block) await blockContact(request.id)
+      toast({
+        title: block ? "Request declined and blocked" : "Request declined",
+        description: block
+          ? `You won't receive messages, calls or requests from ${request.name}`
+          : `${request.name} won't be added to your contacts`,
+      })
+    } catch (error) {
+      console.error("Error declining contact request:", error)
+      toast({
+        title: "Error",
+        description: "Failed to decline request",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleReportChat = (chatId: string) => {
+    const contact = contacts.find((c) => c.id === chatId)
+    if (contact) setReportingContact({ id: contact.id, name: contact.name })
+    setChatContextMenu({ visible: false, x: 0, y: 0, contact: null, group: null })
+  }
+
+  const handleSubmitReport = async (reason: ReportReason, details: string, alsoBlock: boolean) => {
+    if (!reportingContact) return
+
+    try {
+      await reportContact(reportingContact.id, reason, details)
+      if (alsoBlock) await blockContact(reportingContact.id)
+      toast({
+        title: "Report sent",
+        description: alsoBlock
+          ? `${reportingContact.name} has been reported and blocked`
+          : `${reportingContact.name} has been reported`,
+      })
+    } catch (error) {
+      console.error("Error reporting contact:", error)
+      toast({
+        title: "Error",
+        description: "Failed to send report",
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
   const handleArchiveChat = async (chatId: string, isGroup = false) => {
     if (!currentUser) return
 
@@ -1667,14 +2975,50 @@ export default function ChatInterface() {
       }
 
       toast({
-        title: "Chat deleted",
-        description: "Chat has been deleted successfully",
+        title: "Chat deleted",
+        description: "Chat has been deleted successfully",
+      })
+    } catch (error) {
+      console.error("Error deleting chat:", error)
+      toast({
+        title: "Error",
+        description: "Failed to delete chat",
+        variant: "destructive",
+      })
+    }
+
+    setChatContextMenu({ visible: false, x: 0, y: 0, contact: null, group: null })
+  }
+
+  // Flags a read chat as unread again; it counts as one unread until opened or marked read
+  const handleMarkAsUnread = async (chatId: string, isGroup = false) => {
+    if (!currentUser) return
+
+    try {
+      if (isGroup) {
+        const groupUnreadRef = ref(database, `groupUnread/${chatId}/${currentUser.uid}`)
+        await update(groupUnreadRef, { count: 1, markedUnread: true })
+
+        // Group unread counts are only re-read when the groups list changes, so update locally too
+        setGroups((prevGroups) =>
+          prevGroups.map((group) => (group.id === chatId ? { ...group, unread: 1, markedUnread: true } : group)),
+        )
+        if (selectedGroup?.id === chatId) setSelectedGroup(null)
+      } else {
+        const contactRef = ref(database, `contacts/${currentUser.uid}/${chatId}`)
+        await update(contactRef, { unread: 1, markedUnread: true })
+        if (selectedContact?.id === chatId) setSelectedContact(null)
+      }
+
+      toast({
+        title: "Marked as unread",
+        description: "The chat will stay unread until you open it",
       })
     } catch (error) {
-      console.error("Error deleting chat:", error)
+      console.error("Error marking as unread:", error)
       toast({
         title: "Error",
-        description: "Failed to delete chat",
+        description: "Failed to mark as unread",
         variant: "destructive",
       })
     }
@@ -1690,13 +3034,21 @@ export default function ChatInterface() {
       if (isGroup) {
         // Mark group messages as read
         const groupUnreadRef = ref(database, `groupUnread/${chatId}/${currentUser.uid}`)
-        await set(groupUnreadRef, { count: 0, lastRead: Date.now() })
+        const group = groups.find((g) => g.id === chatId)
+        await update(groupUnreadRef, {
+          count: 0,
+          mentions: 0,
+          markedUnread: null,
+          lastRead: { ".sv": "timestamp" },
+          lastDelivered: { ".sv": "timestamp" },
+          ...(group && isChannel(group) && { readCount: group.messageCount || 0 }),
+        })
 
         // Update local groups state
         setGroups((prevGroups) =>
           prevGroups.map((group) => {
             if (group.id === chatId) {
-              return { ...group, unread: 0 }
+              return { ...group, unread: 0, unreadMentions: 0, markedUnread: false }
             }
             return group
           }),
@@ -1704,13 +3056,13 @@ export default function ChatInterface() {
       } else {
         // Mark contact messages as read
         const contactRef = ref(database, `contacts/${currentUser.uid}/${chatId}`)
-        await update(contactRef, { unread: 0 })
+        await update(contactRef, { unread: 0, markedUnread: null })
 
         // Update local contacts state
         setContacts((prevContacts) =>
           prevContacts.map((contact) => {
             if (contact.id === chatId) {
-              return { ...contact, unread: 0 }
+              return { ...contact, unread: 0, markedUnread: false }
             }
             return contact
           }),
@@ -1733,19 +3085,26 @@ export default function ChatInterface() {
     setChatContextMenu({ visible: false, x: 0, y: 0, contact: null, group: null })
   }
 
-  // Enhanced sorting with archive filtering
+  // Enhanced sorting with archive and folder filtering
   const getVisibleContacts = () => {
     if (showArchivedChats) {
       return filteredContacts.filter((contact) => archivedChats.has(contact.id))
     }
-    return filteredContacts.filter((contact) => !archivedChats.has(contact.id))
+    return filteredContacts.filter(
+      (contact) =>
+        !archivedChats.has(contact.id) &&
+        (!activeFolder || chatMatchesFolder(activeFolder, toFolderChat(contact, false))),
+    )
   }
 
   const getVisibleGroups = () => {
     if (showArchivedChats) {
       return filteredGroups.filter((group) => archivedChats.has(group.id))
     }
-    return filteredGroups.filter((group) => !archivedChats.has(group.id))
+    return filteredGroups.filter(
+      (group) =>
+        !archivedChats.has(group.id) && (!activeFolder || chatMatchesFolder(activeFolder, toFolderChat(group, true))),
+    )
   }
 
   const sortedContacts = [...getVisibleContacts()].sort((a, b) => {
@@ -1807,10 +3166,133 @@ export default function ChatInterface() {
       }
     })
 
+    // Mutes need their end time, so they are stored as a map rather than a list
+    const mutedRef = ref(database, `mutedChats/${currentUser.uid}`)
+    const unsubscribeMuted = onValue(mutedRef, (snapshot) => {
+      setMutedChats(snapshot.exists() ? snapshot.val() : {})
+    })
+
+    const foldersRef = ref(database, `chatFolders/${currentUser.uid}`)
+    const unsubscribeFolders = onValue(foldersRef, (snapshot) => {
+      setChatFolders(parseChatFolders(snapshot.val()))
+    })
+
     return () => {
       unsubscribePinned()
       unsubscribeArchived()
+      unsubscribeMuted()
+      unsubscribeFolders()
+    }
+  }, [currentUser])
+
+  // Fall back to all chats if the open folder is deleted, possibly from another device
+  useEffect(() => {
+    if (activeFolderId && !chatFolders.some((folder) => folder.id === activeFolderId)) {
+      setActiveFolderId(null)
+    }
+  }, [activeFolderId, chatFolders])
+
+  // Lift timed mutes when they run out and clear them from Firebase
+  useEffect(() => {
+    if (!currentUser) return
+
+    const upcomingEnds = Object.values(mutedChats).filter((mutedUntil) => mutedUntil > muteClock)
+    if (upcomingEnds.length === 0) return
+
+    // setTimeout overflows past ~24.8 days, so long mutes just re-check later
+    const delay = Math.min(Math.max(Math.min(...upcomingEnds) - Date.now(), 0), 2 ** 31 - 1)
+    const timeout = setTimeout(() => {
+      const now = Date.now()
+      Object.entries(mutedChats).forEach(([chatId, mutedUntil]) => {
+        if (!isMuteActive(mutedUntil, now)) {
+          set(ref(database, `mutedChats/${currentUser.uid}/${chatId}`), null)
+        }
+      })
+      setMuteClock(now)
+    }, delay)
+
+    return () => clearTimeout(timeout)
+  }, [currentUser, mutedChats, muteClock])
+
+  // Alert on new incoming messages, except in muted chats. Only a new message moves a chat's last-message
+  // time, so marking a chat unread stays silent; our own sends move it without raising the unread count.
+  const previousChatActivityRef = useRef<{ [chatId: string]: { timestamp: number; unread: number } }>({})
+  useEffect(() => {
+    const chatActivity: { [chatId: string]: { timestamp: number; unread: number } } = {}
+    contacts.forEach((contact) => {
+      chatActivity[contact.id] = { timestamp: contact.timestamp || 0, unread: contact.unread || 0 }
+    })
+    groups.forEach((group) => {
+      chatActivity[group.id] = { timestamp: group.timestamp || 0, unread: group.unread || 0 }
+    })
+
+    const hasNewMessages = Object.entries(chatActivity).some(([chatId, { timestamp, unread }]) => {
+      const previous = previousChatActivityRef.current[chatId]
+      return !!previous && timestamp > previous.timestamp && unread > previous.unread && !isChatMuted(chatId)
+    })
+    previousChatActivityRef.current = chatActivity
+
+    if (hasNewMessages) playNotificationSound()
+  }, [contacts, groups])
+
+  // Listen to the pinned messages of the open conversation
+  useEffect(() => {
+    if (!pinnedMessagesKey) {
+      setPinnedMessages([])
+      return
+    }
+
+    const pinnedRef = ref(database, `pinnedMessages/${pinnedMessagesKey}`)
+    const unsubscribe = onValue(pinnedRef, (snapshot) => {
+      const pins = snapshot.exists() ? (Object.values(snapshot.val()) as PinnedMessage[]) : []
+      setPinnedMessages(pins.sort((a, b) => a.pinnedAt - b.pinnedAt))
+    })
+
+    return () => unsubscribe()
+  }, [pinnedMessagesKey])
+
+  // Every member's lastRead/lastDelivered for the open group, used for ticks and message info.
+  // Channels skip this: listening to every member's receipt doesn't scale to their size.
+  useEffect(() => {
+    if (!selectedGroup || isChannel(selectedGroup)) {
+      setGroupReceipts({})
+      return
+    }
+
+    const receiptsRef = ref(database, `groupUnread/${selectedGroup.id}`)
+    const unsubscribe = onValue(receiptsRef, (snapshot) => {
+      setGroupReceipts(snapshot.exists() ? snapshot.val() : {})
+    })
+
+    return () => unsubscribe()
+  }, [selectedGroup])
+
+  // DM timers live at chatSettings/{chatId}; group timers come with the group's settings
+  useEffect(() => {
+    if (!currentUser || !selectedContact) {
+      setDirectDisappearingTimer(0)
+      return
     }
+
+    const chatId = getChatId(currentUser.uid, selectedContact.id)
+    const timerRef = ref(database, `chatSettings/${chatId}/disappearingTimer`)
+    const unsubscribe = onValue(timerRef, (snapshot) => {
+      setDirectDisappearingTimer(snapshot.val() || 0)
+    })
+
+    return () => unsubscribe()
+  }, [currentUser, selectedContact])
+
+  // Load the user's starred messages index
+  useEffect(() => {
+    if (!currentUser) return
+
+    const starredRef = ref(database, `starredMessages/${currentUser.uid}`)
+    const unsubscribe = onValue(starredRef, (snapshot) => {
+      setStarredMessages(snapshot.exists() ? (Object.values(snapshot.val()) as StarredMessage[]) : [])
+    })
+
+    return () => unsubscribe()
   }, [currentUser])
 
   // Auto-return to main view when all archives are removed
@@ -1885,7 +3367,7 @@ export default function ChatInterface() {
               </Avatar>
               <div className="flex-1 min-w-0">
                 <h2 className="font-semibold text-foreground truncate">{userProfile?.name || "User"}</h2>
-                <p className="text-xs text-muted-foreground">Online</p>
+                <p className="text-xs text-muted-foreground">{isConnected ? "Online" : "Offline"}</p>
               </div>
             </div>
             <div className="flex space-x-2 flex-shrink-0">
@@ -1897,6 +3379,24 @@ export default function ChatInterface() {
               >
                 <Plus className="h-5 w-5" />
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground hover:text-foreground hover:bg-accent"
+                onClick={() => setShowStarredMessages(true)}
+                title="Starred messages"
+              >
+                <Star className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground hover:text-foreground hover:bg-accent"
+                onClick={() => setShowBroadcastLists(true)}
+                title="Broadcast lists"
+              >
+                <Radio className="h-5 w-5" />
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
@@ -1920,6 +3420,54 @@ export default function ChatInterface() {
             </div>
           </div>
 
+          <OfflineModeBanner />
+
+          {/* Chat Folders - "All" plus the user's own folders; double-click a folder to edit it */}
+          <div className="flex items-center gap-2 overflow-x-auto px-4 py-2 border-b border-border flex-shrink-0">
+            <button
+              className={`flex items-center gap-1.5 whitespace-nowrap rounded-full px-3 py-1 text-sm transition-colors ${
+                !activeFolderId
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted text-muted-foreground hover:text-foreground"
+              }`}
+              onClick={() => handleSelectFolder(null)}
+            >
+              All
+            </button>
+            {chatFolders.map((folder) => {
+              const folderUnread = getFolderUnread(folder)
+              return (
+                <button
+                  key={folder.id}
+                  className={`flex items-center gap-1.5 whitespace-nowrap rounded-full px-3 py-1 text-sm transition-colors ${
+                    activeFolderId === folder.id
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted text-muted-foreground hover:text-foreground"
+                  }`}
+                  onClick={() => handleSelectFolder(folder)}
+                  onDoubleClick={() => setFolderDialog({ open: true, folder })}
+                  onContextMenu={(e) => {
+                    e.preventDefault()
+                    setFolderDialog({ open: true, folder })
+                  }}
+                  title="Double-click to edit"
+                >
+                  {folder.name}
+                  {folderUnread > 0 && <UnreadBadge count={folderUnread} />}
+                </button>
+              )
+            })}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 flex-shrink-0 rounded-full text-muted-foreground hover:text-foreground"
+              onClick={() => setFolderDialog({ open: true, folder: null })}
+              title="New folder"
+            >
+              <FolderPlus className="h-4 w-4" />
+            </Button>
+          </div>
+
           {/* Enhanced Tabs with Better Visibility */}
           <Tabs
             value={activeTab}
@@ -2015,6 +3563,31 @@ export default function ChatInterface() {
               </div>
             )}
 
+            {/* Contact Requests */}
+            {contactRequests.length > 0 && !showArchivedChats && (
+              <div className="px-4 pb-2">
+                <motion.button
+                  className="flex items-center justify-between w-full p-3 rounded-lg bg-muted/50 hover:bg-muted transition-all duration-200"
+                  onClick={() => setShowContactRequests(true)}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <div className="flex items-center space-x-3">
+                    <div className="p-2 rounded-lg bg-primary/20 text-primary">
+                      <UserPlus className="h-4 w-4" />
+                    </div>
+                    <div className="flex flex-col items-start">
+                      <span className="font-medium text-foreground">Requests</span>
+                      <span className="text-xs text-muted-foreground">
+                        {contactRequests.length} pending {contactRequests.length === 1 ? "request" : "requests"}
+                      </span>
+                    </div>
+                  </div>
+                  <UnreadBadge count={contactRequests.length} />
+                </motion.button>
+              </div>
+            )}
+
             <TabsContent value="chats" className="flex-1 mt-0 overflow-hidden">
               <ScrollArea className="h-full">
                 <div className="space-y-1 p-2">
@@ -2075,7 +3648,7 @@ ${
                                 {contact.name.charAt(0).toUpperCase()}
                               </AvatarFallback>
                             </Avatar>
-                            {contact.isOnline && (
+                            {contact.isOnline && !isPresenceHidden(contact.id) && (
                               <div className="absolute bottom-0 right-0 h-3 w-3 rounded-full border-2 border-card bg-green-500"></div>
                             )}
                           </div>
@@ -2083,10 +3656,13 @@ ${
                             <div className="flex items-center justify-between">
                               <h3 className="font-medium truncate text-foreground">{contact.name}</h3>
                               <div className="flex items-center space-x-2 flex-shrink-0">
+                                {isChatMuted(contact.id) && <BellOff className="h-3 w-3 text-muted-foreground" />}
                                 <span className="text-xs text-muted-foreground">
                                   {contact.timestamp ? formatTime(contact.timestamp) : ""}
                                 </span>
-                                {contact.unread && contact.unread > 0 && <UnreadBadge count={contact.unread} />}
+                                {contact.unread && contact.unread > 0 && (
+                                  <UnreadBadge count={contact.unread} muted={isChatMuted(contact.id)} />
+                                )}
                               </div>
                             </div>
                             <div className="flex items-center justify-between">
@@ -2099,6 +3675,10 @@ ${
                                   >
                                     typing...
                                   </motion.span>
+                                ) : contact.requestStatus === "pending" ? (
+                                  <span className="italic">Request pending</span>
+                                ) : contact.requestStatus === "declined" ? (
+                                  <span className="italic text-red-500">Request declined</span>
                                 ) : (
                                   contact.lastMessage || "No messages yet"
                                 )}
@@ -2188,7 +3768,7 @@ ${
                                 <AvatarImage src={group.avatar || "/placeholder.svg"} />
                               ) : (
                                 <AvatarFallback className={`${getGroupAvatar(group)} text-white`}>
-                                  <Users className="h-6 w-6" />
+                                  {isChannel(group) ? <Megaphone className="h-6 w-6" /> : <Users className="h-6 w-6" />}
                                 </AvatarFallback>
                               )}
                             </Avatar>
@@ -2202,10 +3782,17 @@ ${
                             <div className="flex items-center justify-between">
                               <h3 className="font-medium truncate text-foreground">{group.name}</h3>
                               <div className="flex items-center space-x-2 flex-shrink-0">
+                                {isChatMuted(group.id) && <BellOff className="h-3 w-3 text-muted-foreground" />}
                                 <span className="text-xs text-muted-foreground">
                                   {group.timestamp ? formatTime(group.timestamp) : ""}
                                 </span>
-                                {group.unread && group.unread > 0 && <UnreadBadge count={group.unread} />}
+                                {group.unread && group.unread > 0 && (
+                                  <UnreadBadge
+                                    count={group.unread}
+                                    mentionCount={group.unreadMentions}
+                                    muted={isChatMuted(group.id)}
+                                  />
+                                )}
                               </div>
                             </div>
                             <div className="flex items-center justify-between">
@@ -2213,7 +3800,7 @@ ${
                                 {group.lastMessage || "No messages yet"}
                               </p>
                               <span className="text-xs text-muted-foreground flex-shrink-0">
-                                {Object.keys(group.members).length} members
+                                {Object.keys(group.members).length} {isChannel(group) ? "subscribers" : "members"}
                               </span>
                             </div>
                           </div>
@@ -2240,6 +3827,24 @@ ${
                 </div>
               </ScrollArea>
             </TabsContent>
+
+            {/* Message search results across every conversation */}
+            {searchQuery.trim().length >= MIN_SEARCH_LENGTH && (
+              <div className="flex-1 overflow-hidden border-t border-border">
+                <ScrollArea className="h-full">
+                  <div className="p-4">
+                    <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Messages</p>
+                    <MessageSearchPanel
+                      searchQuery={searchQuery}
+                      currentUserId={currentUser?.uid || ""}
+                      contacts={contacts}
+                      groups={groups}
+                      onSelectResult={handleOpenMessageInChat}
+                    />
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
           </Tabs>
         </div>
 
@@ -2286,7 +3891,11 @@ ${
                           <AvatarImage src={selectedGroup.avatar || "/placeholder.svg"} />
                         ) : (
                           <AvatarFallback className={`${getGroupAvatar(selectedGroup)} text-white`}>
-                            <Users className="h-5 w-5" />
+                            {isChannel(selectedGroup) ? (
+                              <Megaphone className="h-5 w-5" />
+                            ) : (
+                              <Users className="h-5 w-5" />
+                            )}
                           </AvatarFallback>
                         )}
                       </>
@@ -2304,6 +3913,8 @@ ${
                           >
                             typing...
                           </motion.span>
+                        ) : isPresenceHidden(selectedContact.id) ? (
+                          "Offline"
                         ) : selectedContact.isOnline ? (
                           "Online"
                         ) : selectedContact.lastSeen ? (
@@ -2312,12 +3923,23 @@ ${
                           "Offline"
                         )
                       ) : selectedGroup ? (
-                        `${Object.keys(selectedGroup.members).length} members`
+                        `${Object.keys(selectedGroup.members).length} ${isChannel(selectedGroup) ? "subscribers" : "members"}`
                       ) : null}
                     </p>
                   </div>
                 </div>
                 <div className="flex space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={
+                      currentDisappearingTimer > 0 ? "text-primary" : "text-muted-foreground hover:text-foreground"
+                    }
+                    onClick={() => setShowDisappearingDialog(true)}
+                    title={`Disappearing messages: ${getDisappearingTimerLabel(currentDisappearingTimer)}`}
+                  >
+                    <Timer className="h-5 w-5" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="icon"
@@ -2353,6 +3975,17 @@ ${
                 </div>
               </div>
 
+              <PinnedMessagesBanner
+                pins={pinnedMessages.map((pin) => {
+                  // Prefer the loaded message so edits show up in the banner
+                  const loaded = currentMessages.find((m) => m.id === pin.messageId)
+                  return loaded ? { ...pin, text: loaded.text } : pin
+                })}
+                canUnpin={canPinMessages}
+                onJumpToMessage={handleJumpToMessage}
+                onUnpin={handleUnpinMessage}
+              />
+
               {/* Messages with Enhanced Styling and Swipe Support */}
               <ScrollArea
                 ref={chatContainerRef}
@@ -2397,130 +4030,229 @@ ${
                   )}
 
                   <AnimatePresence>
-                    {currentMessages.map((message) => (
-                      <motion.div
-                        key={message.id}
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        exit={{ opacity: 0, y: -20 }}
-                        className={`flex ${message.sender === "user" ? "justify-end" : "justify-start"} relative`}
-                      >
-                        {/* Swipe Reply Indicator - IMPROVED */}
-                        {isMobile && swipeState.messageId === message.id && swipeState.isActive && (
+                    {withUnreadDivider(
+                      currentMessages.map((message) =>
+                        message.type === "system" ? (
                           <motion.div
-                            className="absolute left-4 top-1/2 transform -translate-y-1/2 flex items-center space-x-2 text-primary z-10 pointer-events-none"
-                            initial={{ opacity: 0, x: -30, scale: 0.8 }}
-                            animate={{
-                              opacity: getSwipeOpacity(message.id),
-                              x: 0,
-                              scale: getReplyIndicatorScale(message.id),
-                            }}
-                            transition={{ type: "spring", stiffness: 300, damping: 30 }}
+                            key={message.id}
+                            data-message-id={message.id}
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            className="flex justify-center"
                           >
-                            <div className="bg-primary/20 backdrop-blur-sm rounded-full p-2">
-                              <ReplyIcon className="h-5 w-5" />
-                            </div>
-                            <span className="text-sm font-medium bg-primary/20 backdrop-blur-sm px-2 py-1 rounded-full">
-                              Reply
+                            <span className="flex items-center rounded-full bg-muted px-3 py-1 text-xs text-muted-foreground">
+                              {message.systemEvent === "disappearing_timer" && <Timer className="h-3 w-3 mr-1" />}
+                              {message.systemEvent === "member_joined" && <UserPlus className="h-3 w-3 mr-1" />}
+                              {message.systemEvent === "member_left" && <LogOut className="h-3 w-3 mr-1" />}
+                              {message.systemEvent === "role_changed" && <Shield className="h-3 w-3 mr-1" />}
+                              {(message.systemEvent === "group_renamed" ||
+                                message.systemEvent === "description_changed") && <Pencil className="h-3 w-3 mr-1" />}
+                              {message.text}
                             </span>
                           </motion.div>
-                        )}
-
-                        <div
-                          className={`flex items-end space-x-2 ${message.sender === "user" ? "flex-row-reverse space-x-reverse" : ""}`}
-                          style={{
-                            transform: getSwipeTransform(message.id),
-                            transition:
-                              swipeState.isActive && swipeState.messageId === message.id
-                                ? "none"
-                                : "transform 0.3s cubic-bezier(0.4, 0, 0.2, 1)",
-                          }}
-                        >
+                        ) : (
                           <motion.div
-                            className={`max-w-xs rounded-lg px-4 py-2 ${getMessageBubbleStyle(
-                              message.sender,
-                              message.isDeleted,
-                            )} ${message.isTemp ? "opacity-70" : ""} select-none`}
-                            style={{
-                              backgroundColor: message.isDeleted
-                                ? currentTheme.colors.muted
-                                  ? `hsl(${currentTheme.colors.muted})`
-                                  : "hsl(var(--muted))"
-                                : message.sender === "user"
-                                  ? currentTheme.colors.messageSent
-                                    ? `hsl(${currentTheme.colors.messageSent})`
-                                    : "#ffffff"
-                                  : currentTheme.colors.messageReceived
-                                    ? `hsl(${currentTheme.colors.messageReceived})`
-                                    : "#374151",
-                              color: message.isDeleted
-                                ? currentTheme.colors.mutedForeground
-                                  ? `hsl(${currentTheme.colors.mutedForeground})`
-                                  : "hsl(var(--muted-foreground))"
-                                : message.sender === "user"
-                                  ? currentTheme.colors.messageSentText
-                                    ? `hsl(${currentTheme.colors.messageSentText})`
-                                    : "#000000"
-                                  : currentTheme.colors.messageReceivedText
-                                    ? `hsl(${currentTheme.colors.messageReceivedText})`
-                                    : "#ffffff",
-                            }}
-                            onContextMenu={!isMobile ? (e) => handleMessageContextMenu(e, message) : undefined}
-                            onTouchStart={isMobile ? (e) => handleTouchStart(e, message) : undefined}
-                            onTouchMove={isMobile ? (e) => handleTouchMove(e, message) : undefined}
-                            onTouchEnd={isMobile ? (e) => handleTouchEnd(e, message) : undefined}
-                            whileHover={{ scale: 1.02 }}
-                            whileTap={{ scale: 0.98 }}
+                            key={message.id}
+                            data-message-id={message.id}
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -20 }}
+                            className={`flex ${message.sender === "user" ? "justify-end" : "justify-start"} relative`}
                           >
-                            {/* Group message sender name */}
-                            {selectedGroup && message.sender === "contact" && (
-                              <p className="text-xs font-medium mb-1 opacity-70">{message.senderName}</p>
+                            {/* Swipe Reply Indicator - IMPROVED */}
+                            {isMobile && swipeState.messageId === message.id && swipeState.isActive && (
+                              <motion.div
+                                className="absolute left-4 top-1/2 transform -translate-y-1/2 flex items-center space-x-2 text-primary z-10 pointer-events-none"
+                                initial={{ opacity: 0, x: -30, scale: 0.8 }}
+                                animate={{
+                                  opacity: getSwipeOpacity(message.id),
+                                  x: 0,
+                                  scale: getReplyIndicatorScale(message.id),
+                                }}
+                                transition={{ type: "spring", stiffness: 300, damping: 30 }}
+                              >
+                                <div className="bg-primary/20 backdrop-blur-sm rounded-full p-2">
+                                  <ReplyIcon className="h-5 w-5" />
+                                </div>
+                                <span className="text-sm font-medium bg-primary/20 backdrop-blur-sm px-2 py-1 rounded-full">
+                                  Reply
+                                </span>
+                              </motion.div>
                             )}
 
-                            {/* Reply preview */}
-                            {message.replyToId && message.replyToText && (
-                              <div className="mb-2 p-2 rounded bg-black/10 dark:bg-white/10 border-l-2 border-current">
-                                <p className="text-xs opacity-70 truncate">{message.replyToText}</p>
-                              </div>
-                            )}
+                            <div
+                              className={`flex items-end space-x-2 ${message.sender === "user" ? "flex-row-reverse space-x-reverse" : ""}`}
+                              style={{
+                                transform: getSwipeTransform(message.id),
+                                transition:
+                                  swipeState.isActive && swipeState.messageId === message.id
+                                    ? "none"
+                                    : "transform 0.3s cubic-bezier(0.4, 0, 0.2, 1)",
+                              }}
+                            >
+                              <motion.div
+                                className={`max-w-xs rounded-lg px-4 py-2 ${getMessageBubbleStyle(
+                                  message.sender,
+                                  message.isDeleted,
+                                )} ${message.isTemp ? "opacity-70" : ""} ${
+                                  highlightedMessageId === message.id ? "ring-primary" : ""
+                                } select-none`}
+                                style={{
+                                  backgroundColor: message.isDeleted
+                                    ? currentTheme.colors.muted
+                                      ? `hsl(${currentTheme.colors.muted})`
+                                      : "hsl(var(--muted))"
+                                    : message.sender === "user"
+                                      ? currentTheme.colors.messageSent
+                                        ? `hsl(${currentTheme.colors.messageSent})`
+                                        : "#ffffff"
+                                      : currentTheme.colors.messageReceived
+                                        ? `hsl(${currentTheme.colors.messageReceived})`
+                                        : "#374151",
+                                  color: message.isDeleted
+                                    ? currentTheme.colors.mutedForeground
+                                      ? `hsl(${currentTheme.colors.mutedForeground})`
+                                      : "hsl(var(--muted-foreground))"
+                                    : message.sender === "user"
+                                      ? currentTheme.colors.messageSentText
+                                        ? `hsl(${currentTheme.colors.messageSentText})`
+                                        : "#000000"
+                                      : currentTheme.colors.messageReceivedText
+                                        ? `hsl(${currentTheme.colors.messageReceivedText})`
+                                        : "#ffffff",
+                                }}
+                                onContextMenu={!isMobile ? (e) => handleMessageContextMenu(e, message) : undefined}
+                                onTouchStart={isMobile ? (e) => handleTouchStart(e, message) : undefined}
+                                onTouchMove={isMobile ? (e) => handleTouchMove(e, message) : undefined}
+                                onTouchEnd={isMobile ? (e) => handleTouchEnd(e, message) : undefined}
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                              >
+                                {/* Group message sender name */}
+                                {selectedGroup && message.sender === "contact" && (
+                                  <p className="text-xs font-medium mb-1 opacity-70">{message.senderName}</p>
+                                )}
 
-                            {/* Message content */}
-                            {message.isDeleted ? (
-                              <p className="text-sm italic">This message was deleted</p>
-                            ) : message.fileUrl ? (
-                              <MessageFilePreview
-                                fileUrl={message.fileUrl}
-                                fileType={message.fileType || ""}
-                                fileName={message.fileName || ""}
-                              />
-                            ) : (
-                              <p className="text-sm whitespace-pre-wrap break-words">{message.text}</p>
-                            )}
+                                {/* Forwarded attribution */}
+                                {message.forwardedFrom && !message.isDeleted && (
+                                  <p className="flex items-center text-xs italic opacity-70 mb-1">
+                                    <Forward className="h-3 w-3 mr-1" />
+                                    Forwarded
+                                    {message.forwardedFrom.uid !== message.senderUid && ` from ${message.forwardedFrom.name}`}
+                                  </p>
+                                )}
 
-                            {/* Message reactions */}
-                            {message.reactions && Object.keys(message.reactions).length > 0 && (
-                              <MessageReactions
-                                reactions={message.reactions}
-                                onReactionClick={(emoji) => handleReactionClick(message.id, emoji)}
-                                currentUserId={currentUser?.uid || ""}
-                              />
-                            )}
+                                {/* Reply preview */}
+                                {message.replyToId && message.replyToText && (
+                                  <button
+                                    type="button"
+                                    className="block w-full text-left mb-2 p-2 rounded bg-black/10 dark:bg-white/10 border-l-2 border-current hover:bg-black/20 dark:hover:bg-white/20"
+                                    onClick={() => handleJumpToMessage(message.replyToId!)}
+                                  >
+                                    <p className="text-xs opacity-70 truncate">{message.replyToText}</p>
+                                  </button>
+                                )}
 
-                            {/* Message timestamp and status */}
-                            <div className="flex items-center justify-end space-x-1 mt-1">
-                              <span className="text-xs opacity-60">{formatTime(message.timestamp)}</span>
-                              {message.sender === "user" && (
-                                <span className="text-xs opacity-60">
-                                  {message.status === "sent" && "✓"}
-                                  {message.status === "delivered" && "✓✓"}
-                                  {message.status === "read" && "✓✓"}
-                                </span>
-                              )}
+                                {/* Message content */}
+                                {message.isDeleted ? (
+                                  <p className="text-sm italic">This message was deleted</p>
+                                ) : message.type === "poll" && message.poll ? (
+                                  <PollMessage
+                                    poll={message.poll}
+                                    currentUserId={currentUser?.uid || ""}
+                                    ballotKey={pollBallots[message.id]}
+                                    canClose={canClosePoll(message)}
+                                    onVote={(optionIds) => handleVotePoll(message, optionIds)}
+                                    onClose={() => handleClosePoll(message)}
+                                  />
+                                ) : message.fileUrl ? (
+                                  <MessageFilePreview
+                                    fileUrl={message.fileUrl}
+                                    fileType={message.fileType || ""}
+                                    fileName={message.fileName || ""}
+                                    voiceNote={message.voiceNote}
+                                    isListened={isVoiceNoteListened(message)}
+                                    onVoiceNotePlay={() => handleVoiceNotePlayed(message)}
+                                  />
+                                ) : (
+                                  <p className="text-sm whitespace-pre-wrap break-words">{renderMessageText(message)}</p>
+                                )}
+
+                                {/* Message reactions */}
+                                {message.reactions && Object.keys(message.reactions).length > 0 && (
+                                  <MessageReactions
+                                    reactions={message.reactions}
+                                    onReactionClick={(emoji) => handleReactionClick(message.id, emoji)}
+                                    currentUserId={currentUser?.uid || ""}
+                                  />
+                                )}
+
+                                {/* Thread reply counter */}
+                                {!!message.replyCount && !message.isDeleted && (
+                                  <button
+                                    type="button"
+                                    className="flex items-center text-xs font-medium opacity-80 hover:opacity-100 hover:underline mt-1"
+                                    onClick={() => setThreadMessage(message)}
+                                  >
+                                    <MessageSquare className="h-3 w-3 mr-1" />
+                                    {message.replyCount} {message.replyCount === 1 ? "reply" : "replies"}
+                                  </button>
+                                )}
+
+                                {/* Message timestamp and status */}
+                                <div className="flex items-center justify-end space-x-1 mt-1">
+                                  {starredMessageIds.has(message.id) && (
+                                    <Star className="h-3 w-3 fill-current opacity-60" />
+                                  )}
+                                  {message.editedAt && !message.isDeleted && (
+                                    <button
+                                      type="button"
+                                      className="text-xs opacity-60 italic hover:opacity-100 hover:underline"
+                                      onClick={() => setEditHistoryMessage(message)}
+                                    >
+                                      edited
+                                    </button>
+                                  )}
+                                  <span className="text-xs opacity-60">{formatTime(message.timestamp)}</span>
+                                  {message.sender === "user" && (
+                                    <span className="text-xs opacity-60">
+                                      {getMessageStatus(message) === "sent" && "✓"}
+                                      {getMessageStatus(message) === "delivered" && "✓✓"}
+                                      {getMessageStatus(message) === "read" && <span className="text-sky-400">✓✓</span>}
+                                      {(message.status === "queued" || message.status === "sending") && (
+                                        <Clock className="h-3 w-3" />
+                                      )}
+                                      {message.status === "failed" && <AlertCircle className="h-3 w-3 text-red-500" />}
+                                    </span>
+                                  )}
+                                </div>
+
+                                {/* Outbox controls */}
+                                {message.isTemp && message.status !== "sending" && (
+                                  <div className="flex items-center justify-end space-x-2 mt-1 text-xs">
+                                    <span className="opacity-60">{message.status === "failed" ? "Not sent" : "Queued"}</span>
+                                    <button
+                                      type="button"
+                                      className="font-medium hover:underline"
+                                      onClick={() => retryPendingMessage(message.id)}
+                                    >
+                                      Retry
+                                    </button>
+                                    <button
+                                      type="button"
+                                      className="font-medium hover:underline"
+                                      onClick={() => cancelPendingMessage(message.id)}
+                                    >
+                                      Cancel
+                                    </button>
+                                  </div>
+                                )}
+                              </motion.div>
                             </div>
                           </motion.div>
-                        </div>
-                      </motion.div>
-                    ))}
+                        ),
+                      ),
+                    )}
                   </AnimatePresence>
 
                   {/* Typing indicator */}
@@ -2534,6 +4266,41 @@ ${
                 </div>
               </ScrollArea>
 
+              {/* Jump to the first unread message or back to the latest one */}
+              <div className="relative h-0">
+                <div className="absolute bottom-4 right-6 z-20 flex flex-col items-end space-y-2">
+                  {unreadDivider && (
+                    <Button
+                      size="sm"
+                      className="rounded-full bg-primary text-primary-foreground shadow-lg hover:bg-primary/90"
+                      onClick={() => setIsJumpingToUnread(true)}
+                      disabled={isJumpingToUnread}
+                    >
+                      <ChevronUp className="h-4 w-4 mr-1" />
+                      {unreadDivider.count} unread
+                      <X
+                        className="h-3 w-3 ml-2 opacity-70 hover:opacity-100"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setUnreadDivider(null)
+                        }}
+                      />
+                    </Button>
+                  )}
+                  {isAwayFromLatest && (
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-9 w-9 rounded-full border-border bg-card shadow-lg"
+                      onClick={handleJumpToLatest}
+                      title="Jump to latest"
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
               {/* Reply Preview */}
               <AnimatePresence>
                 {replyingTo && (
@@ -2561,59 +4328,186 @@ ${
                 )}
               </AnimatePresence>
 
+              {/* Edit Preview */}
+              <AnimatePresence>
+                {editingMessage && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 20 }}
+                    className="reply-preview border-t border-border bg-muted/50 p-3"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2 flex-1 min-w-0">
+                        <Pencil className="h-4 w-4 text-primary flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs text-muted-foreground">Editing message</p>
+                          <p className="text-sm truncate">{editingMessage.text}</p>
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-muted-foreground hover:text-foreground"
+                        onClick={handleCancelEdit}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              <ScheduledMessagesTray
+                scheduledMessages={chatScheduledMessages}
+                onUpdateText={handleUpdateScheduledText}
+                onReschedule={setReschedulingMessage}
+                onCancel={handleCancelScheduled}
+              />
+
               {/* Message Input */}
-              <div
-                ref={inputContainerRef}
-                className={`border-t border-border bg-card p-4 transition-all duration-300 ${
-                  isMobile && isKeyboardVisible ? "fixed bottom-0 left-0 right-0 z-50 shadow-lg" : ""
-                }`}
-              >
-                <form onSubmit={handleSendMessage} className="flex items-end space-x-2">
-                  <FileUpload onFileUpload={handleFileUpload} />
-                  <div className="flex-1 relative">
-                    <textarea
-                      ref={messageInputRef}
-                      value={newMessage}
-                      onChange={handleInputChange}
-                      placeholder="Type a message..."
-                      className="w-full resize-none rounded-lg border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent max-h-32 min-h-[40px]"
-                      rows={1}
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter" && !e.shiftKey) {
+              {isSelectedContactBlocked ? (
+                <div className="flex items-center justify-center space-x-3 border-t border-border bg-card p-4">
+                  <Ban className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">You blocked this contact</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-border"
+                    onClick={() => selectedContact && handleBlockChat(selectedContact.id)}
+                  >
+                    Unblock
+                  </Button>
+                </div>
+              ) : liveSelectedGroup && !canSendToSelectedGroup ? (
+                <div className="flex items-center justify-center space-x-3 border-t border-border bg-card p-4">
+                  {isChannel(liveSelectedGroup) ? (
+                    <Megaphone className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Shield className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <span className="text-sm text-muted-foreground">
+                    {isChannel(liveSelectedGroup)
+                      ? "Only admins can post in this channel"
+                      : "Only admins can send messages"}
+                  </span>
+                </div>
+              ) : selectedContact && selectedRequestStatus ? (
+                <div className="flex items-center justify-center space-x-3 border-t border-border bg-card p-4">
+                  <UserPlus className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">
+                    {getContactRequestLabel(selectedRequestStatus, selectedContact.name)}
+                  </span>
+                </div>
+              ) : (
+                <div
+                  ref={inputContainerRef}
+                  className={`border-t border-border bg-card p-4 transition-all duration-300 ${
+                    isMobile && isKeyboardVisible ? "fixed bottom-0 left-0 right-0 z-50 shadow-lg" : ""
+                  }`}
+                >
+                  <form onSubmit={handleSendMessage} className="flex items-end space-x-2">
+                    <FileUpload onFileUpload={handleFileUpload} />
+                    <VoiceRecorder onRecordingComplete={handleSendVoiceNote} disabled={isSending} />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="text-gray-400 hover:text-white"
+                      onClick={() => setIsPollModalOpen(true)}
+                      title="Create poll"
+                    >
+                      <BarChart className="h-5 w-5" />
+                    </Button>
+                    <div className="flex-1 relative">
+                      <MentionSuggestions
+                        suggestions={mentionSuggestions}
+                        activeIndex={mentionIndex}
+                        onSelect={handleSelectMention}
+                      />
+                      <textarea
+                        ref={messageInputRef}
+                        value={newMessage}
+                        onChange={handleInputChange}
+                        placeholder="Type a message..."
+                        className="w-full resize-none rounded-lg border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent max-h-32 min-h-[40px]"
+                        rows={1}
+                        onKeyDown={(e) => {
+                          // Navigate member suggestions before falling back to send-on-Enter
+                          if (mentionSuggestions.length > 0) {
+                            if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+                              e.preventDefault()
+                              const step = e.key === "ArrowDown" ? 1 : -1
+                              setMentionIndex(
+                                (prev) => (prev + step + mentionSuggestions.length) % mentionSuggestions.length,
+                              )
+                              return
+                            }
+                            if (e.key === "Enter" || e.key === "Tab") {
+                              e.preventDefault()
+                              handleSelectMention(mentionSuggestions[mentionIndex] || mentionSuggestions[0])
+                              return
+                            }
+                            if (e.key === "Escape") {
+                              e.preventDefault()
+                              e.stopPropagation()
+                              setMentionQuery(null)
+                              return
+                            }
+                          }
+
+                          if (e.key === "Enter" && !e.shiftKey) {
+                            e.preventDefault()
+                            handleSendMessage(e)
+                          }
+                        }}
+                        style={{
+                          height: "auto",
+                          minHeight: "40px",
+                          maxHeight: "128px",
+                        }}
+                        onInput={(e) => {
+                          const target = e.target as HTMLTextAreaElement
+                          target.style.height = "auto"
+                          target.style.height = `${Math.min(target.scrollHeight, 128)}px`
+                        }}
+                      />
+                    </div>
+                    <Button
+                      type="submit"
+                      size="icon"
+                      className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                      disabled={(!newMessage.trim() && !replyingTo) || isSending}
+                      title="Send (hold or right-click to send later)"
+                      onPointerDown={handleSendPointerDown}
+                      onPointerUp={clearSendLongPress}
+                      onPointerLeave={clearSendLongPress}
+                      onClick={(e) => {
+                        // The long press already opened "Send later"; don't also send now
+                        if (sendLongPressTriggeredRef.current) {
                           e.preventDefault()
-                          handleSendMessage(e)
+                          sendLongPressTriggeredRef.current = false
                         }
                       }}
-                      style={{
-                        height: "auto",
-                        minHeight: "40px",
-                        maxHeight: "128px",
+                      onContextMenu={(e) => {
+                        e.preventDefault()
+                        clearSendLongPress()
+                        if (newMessage.trim() && !editingMessage) setShowScheduleDialog(true)
                       }}
-                      onInput={(e) => {
-                        const target = e.target as HTMLTextAreaElement
-                        target.style.height = "auto"
-                        target.style.height = `${Math.min(target.scrollHeight, 128)}px`
-                      }}
-                    />
-                  </div>
-                  <Button
-                    type="submit"
-                    size="icon"
-                    className="bg-primary hover:bg-primary/90 text-primary-foreground"
-                    disabled={(!newMessage.trim() && !replyingTo) || isSending}
-                  >
-                    {isSending ? (
-                      <motion.div
-                        className="w-4 h-4 border-2 border-current border-t-transparent rounded-full"
-                        animate={{ rotate: 360 }}
-                        transition={{ duration: 1, repeat: Number.POSITIVE_INFINITY, ease: "linear" }}
-                      />
-                    ) : (
-                      <Send className="h-4 w-4" />
-                    )}
-                  </Button>
-                </form>
-              </div>
+                    >
+                      {isSending ? (
+                        <motion.div
+                          className="w-4 h-4 border-2 border-current border-t-transparent rounded-full"
+                          animate={{ rotate: 360 }}
+                          transition={{ duration: 1, repeat: Number.POSITIVE_INFINITY, ease: "linear" }}
+                        />
+                      ) : (
+                        <Send className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </form>
+                </div>
+              )}
             </>
           ) : (
             <div className="flex flex-1 items-center justify-center bg-muted/20">
@@ -2636,13 +4530,92 @@ ${
           message={contextMenu.message}
           onClose={() => setContextMenu({ visible: false, x: 0, y: 0, message: null })}
           onReply={handleMessageAction}
+          onOpenThread={(message) => setThreadMessage(message)}
           onCopy={handleCopyMessage}
+          onEdit={handleStartEdit}
+          onForward={(message) => setForwardingMessage(message)}
+          onStar={handleToggleStar}
+          isStarred={!!contextMenu.message && starredMessageIds.has(contextMenu.message.id)}
+          onPin={canPinMessages ? handleTogglePin : undefined}
+          isPinned={!!contextMenu.message && pinnedMessageIds.has(contextMenu.message.id)}
+          onInfo={(message) => setInfoMessage(message)}
           onDelete={handleDeleteMessage}
           onReaction={handleReaction}
           currentUserId={currentUser?.uid || ""}
           canDelete={true}
         />
 
+        <MessageEditHistory
+          open={!!editHistoryMessage}
+          onOpenChange={(open) => !open && setEditHistoryMessage(null)}
+          message={editHistoryMessage}
+        />
+
+        <ForwardMessageModal
+          open={!!forwardingMessage}
+          onOpenChange={(open) => !open && setForwardingMessage(null)}
+          message={forwardingMessage}
+          contacts={acceptedContacts}
+          groups={groups.filter((group) => !!currentUser && hasGroupPermission(group, currentUser.uid, "sendMessages"))}
+          onForward={handleForwardMessage}
+        />
+
+        <ThreadPanel
+          isOpen={!!threadMessage}
+          onClose={() => setThreadMessage(null)}
+          parentMessage={threadMessage}
+          messagesPath={
+            selectedGroup
+              ? `groupMessages/${selectedGroup.id}`
+              : selectedContact && currentUser
+                ? `messages/${getChatId(currentUser.uid, selectedContact.id)}`
+                : null
+          }
+          currentUserId={currentUser?.uid || ""}
+          getSenderName={getThreadSenderName}
+          onSendReply={handleSendThreadReply}
+          onJumpToMessage={handleJumpToMessage}
+        />
+
+        <StarredMessagesPanel
+          isOpen={showStarredMessages}
+          onClose={() => setShowStarredMessages(false)}
+          starredMessages={starredMessages}
+          onJumpToMessage={handleOpenStarredMessage}
+          onUnstar={handleUnstar}
+        />
+
+        <ScheduleMessageDialog
+          open={showScheduleDialog || !!reschedulingMessage}
+          onOpenChange={(open) => {
+            if (!open) {
+              setShowScheduleDialog(false)
+              setReschedulingMessage(null)
+            }
+          }}
+          messageText={reschedulingMessage ? reschedulingMessage.text : newMessage.trim()}
+          initialSendAt={reschedulingMessage?.sendAt}
+          onSchedule={handleScheduleMessage}
+        />
+
+        <MessageInfoSheet
+          isOpen={!!infoMessage}
+          onClose={() => setInfoMessage(null)}
+          message={infoMessage}
+          recipients={infoMessage ? getMessageInfoRecipients(infoMessage) : []}
+        />
+
+        <DisappearingMessagesDialog
+          open={showDisappearingDialog}
+          onOpenChange={setShowDisappearingDialog}
+          currentTimer={currentDisappearingTimer}
+          canChange={canChangeDisappearingTimer}
+          isGroup={!!selectedGroup}
+          onChangeTimer={handleChangeDisappearingTimer}
+        />
+
+        <PollCreationModal open={isPollModalOpen} onOpenChange={setIsPollModalOpen} onCreatePoll={handleCreatePoll} />
+
         <ChatContextMenu
           visible={chatContextMenu.visible}
           x={chatContextMenu.x}
@@ -2654,8 +4627,57 @@ ${
           onDelete={handleDeleteChat}
           onArchive={handleArchiveChat}
           onMarkAsRead={handleMarkAsRead}
+          onMarkAsUnread={handleMarkAsUnread}
+          onMute={handleMuteChat}
           isPinned={(chatId) => pinnedChats.has(chatId)}
           isArchived={(chatId) => archivedChats.has(chatId)}
+          isMuted={isChatMuted}
+          folders={chatFolders}
+          isInFolder={(folderId, chatId) =>
+            !!chatFolders.find((folder) => folder.id === folderId)?.chatIds?.[chatId]
+          }
+          onToggleFolder={handleToggleFolder}
+          isBlocked={(chatId) => !!blockedUsers[chatId]}
+          onBlock={handleBlockChat}
+          onReport={handleReportChat}
+        />
+
+        <ReportContactDialog
+          open={!!reportingContact}
+          onOpenChange={(open) => !open && setReportingContact(null)}
+          contactName={reportingContact?.name || ""}
+          isBlocked={!!reportingContact && !!blockedUsers[reportingContact.id]}
+          onReport={handleSubmitReport}
+        />
+
+        <ContactRequestsPanel
+          isOpen={showContactRequests}
+          onClose={() => setShowContactRequests(false)}
+          contactRequests={contactRequests}
+          onAccept={handleAcceptContactRequest}
+          onDecline={(request) => handleDeclineContactRequest(request)}
+          onBlock={(request) => handleDeclineContactRequest(request, true)}
+        />
+
+        {currentUser && (
+          <BroadcastListsPanel
+            isOpen={showBroadcastLists}
+            onClose={() => setShowBroadcastLists(false)}
+            userId={currentUser.uid}
+            contacts={acceptedContacts.filter((contact) => !blockedUsers[contact.id])}
+          />
+        )}
+
+        <ChatFolderDialog
+          open={folderDialog.open}
+          onOpenChange={(open) => setFolderDialog((prev) => ({ ...prev, open }))}
+          folder={folderDialog.folder}
+          chats={[
+            ...contacts.map((contact) => ({ id: contact.id, name: contact.name, isGroup: false })),
+            ...groups.map((group) => ({ id: group.id, name: group.name, isGroup: true })),
+          ]}
+          onSave={handleSaveFolder}
+          onDelete={handleDeleteFolder}
         />
 
         {/* Modals and Drawers */}
@@ -2664,21 +4686,53 @@ ${
             <DialogHeader>
               <DialogTitle>Add New Contact</DialogTitle>
             </DialogHeader>
-            <form onSubmit={handleAddContact} className="space-y-4">
-              <Input
-                type="email"
-                placeholder="Enter email address"
-                value={newContactEmail}
-                onChange={(e) => setNewContactEmail(e.target.value)}
-                required
-              />
-              <div className="flex justify-end space-x-2">
+            <div className="space-y-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Search by @username or email"
+                  value={contactSearchQuery}
+                  onChange={(e) => setContactSearchQuery(e.target.value)}
+                  className="pl-9"
+                  autoFocus
+                />
+              </div>
+              <div className="max-h-72 space-y-1 overflow-y-auto">
+                {directoryResults.map((user) => {
+                  const existing = contacts.find((contact) => contact.id === user.uid)
+                  return (
+                    <div key={user.uid} className="flex items-center space-x-3 rounded-lg p-2 hover:bg-muted">
+                      <Avatar className="h-9 w-9">
+                        <AvatarImage src={user.avatar || "/placeholder.svg?height=36&width=36"} />
+                        <AvatarFallback className="bg-muted">{user.name.charAt(0).toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate font-medium">{user.name}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {user.username ? `@${user.username}` : user.email}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant={existing ? "outline" : "default"}
+                        onClick={() => handleAddContact(user)}
+                      >
+                        {existing ? "Added" : "Add"}
+                      </Button>
+                    </div>
+                  )
+                })}
+                {contactSearchQuery.trim() && !isSearchingDirectory && directoryResults.length === 0 && (
+                  <p className="py-6 text-center text-sm text-muted-foreground">No users found</p>
+                )}
+                {isSearchingDirectory && <p className="py-6 text-center text-sm text-muted-foreground">Searching...</p>}
+              </div>
+              <div className="flex justify-end">
                 <Button type="button" variant="outline" onClick={() => setShowAddContact(false)}>
                   Cancel
                 </Button>
-                <Button type="submit">Add Contact</Button>
               </div>
-            </form>
+            </div>
           </DialogContent>
         </Dialog>
 
@@ -2693,15 +4747,16 @@ ${
         <GroupCreationModal
           isOpen={showGroupCreation}
           onClose={() => setShowGroupCreation(false)}
-          contacts={contacts}
+          contacts={acceptedContacts}
           currentUser={currentUser}
         />
 
         <GroupProfileDrawer
           isOpen={showGroupProfile}
           onClose={() => setShowGroupProfile(false)}
-          group={selectedGroup}
+          group={liveSelectedGroup}
           currentUser={currentUser}
+          contacts={acceptedContacts}
         />
       </div>
     </DragDropZone>
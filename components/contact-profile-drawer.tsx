@@ -10,13 +10,29 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { useToast } from "@/components/ui/use-toast"
-import { User, Mail, Phone, Video, MessageSquare, Edit3, Trash2, Clock, CheckCircle, X, Save } from "lucide-react"
+import {
+  User,
+  Mail,
+  Phone,
+  Video,
+  MessageSquare,
+  Edit3,
+  Trash2,
+  Clock,
+  CheckCircle,
+  X,
+  Save,
+  Ban,
+  Flag,
+} from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
 import { useChat } from "@/contexts/chat-context"
 import { useTheme } from "@/contexts/theme-context"
 import { ref, update, set } from "firebase/database"
 import { database } from "@/lib/firebase"
 import { formatDistanceToNow } from "date-fns"
+import ReportContactDialog from "./report-contact-dialog"
+import type { ReportReason } from "@/lib/moderation"
 
 interface Contact {
   id: string
@@ -40,14 +56,21 @@ interface ContactProfileDrawerProps {
 export default function ContactProfileDrawer({ isOpen, onClose, contact }: ContactProfileDrawerProps) {
   const { currentUser } = useAuth()
   const { currentTheme } = useTheme()
-  const { updateContactName } = useChat()
+  const { updateContactName, blockedUsers, blockedByUsers, blockContact, unblockContact, reportContact } = useChat()
   const { toast } = useToast()
   const [isEditing, setIsEditing] = useState(false)
   const [editedName, setEditedName] = useState("")
   const [isLoading, setIsLoading] = useState(false)
+  const [showReportDialog, setShowReportDialog] = useState(false)
 
   if (!contact) return null
 
+  // Neither side of a block sees the other's presence
+  const isBlocked = !!blockedUsers[contact.uid]
+  const isPresenceHidden = isBlocked || !!blockedByUsers[contact.uid]
+  const isOnline = !isPresenceHidden && contact.isOnline
+  const lastSeen = isPresenceHidden ? 0 : contact.lastSeen
+
   const handleStartEdit = () => {
     setEditedName(contact.name)
     setIsEditing(true)
@@ -132,9 +155,60 @@ export default function ContactProfileDrawer({ isOpen, onClose, contact }: Conta
     }
   }
 
+  const handleToggleBlock = async () => {
+    setIsLoading(true)
+    try {
+      if (isBlocked) {
+        await unblockContact(contact.uid)
+        toast({ title: "Contact unblocked", description: `${contact.name} can message and call you again` })
+      } else {
+        await blockContact(contact.uid)
+        toast({
+          title: "Contact blocked",
+          description: `You won't receive messages or calls from ${contact.name}`,
+        })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to ${isBlocked ? "unblock" : "block"} contact. Please try again.`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleReport = async (reason: ReportReason, details: string, alsoBlock: boolean) => {
+    try {
+      await reportContact(contact.uid, reason, details)
+      if (alsoBlock) await blockContact(contact.uid)
+      toast({
+        title: "Report sent",
+        description: alsoBlock ? `${contact.name} has been reported and blocked` : `${contact.name} has been reported`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to send report. Please try again.",
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
   const handleStartCall = (type: "voice" | "video") => {
     if (!contact) return
 
+    if (isBlocked) {
+      toast({
+        title: "Contact blocked",
+        description: `Unblock ${contact.name} to call them`,
+        variant: "destructive",
+      })
+      return
+    }
+
     // Create call object similar to the main chat interface
     const callData = {
       contact: contact,
@@ -203,7 +277,7 @@ export default function ContactProfileDrawer({ isOpen, onClose, contact }: Conta
                       {contact.name.charAt(0).toUpperCase()}
                     </AvatarFallback>
                   </Avatar>
-                  {contact.isOnline && (
+                  {isOnline && (
                     <div className="absolute bottom-2 right-2 h-6 w-6 rounded-full border-4 border-card bg-green-500"></div>
                   )}
                 </div>
@@ -252,15 +326,15 @@ export default function ContactProfileDrawer({ isOpen, onClose, contact }: Conta
                     </div>
                   )}
                   <p className="text-sm text-muted-foreground">
-                    {contact.isOnline ? (
+                    {isOnline ? (
                       <span className="flex items-center justify-center space-x-1">
                         <CheckCircle className="h-3 w-3 text-green-500" />
                         <span>Online</span>
                       </span>
-                    ) : contact.lastSeen ? (
+                    ) : lastSeen ? (
                       <span className="flex items-center justify-center space-x-1">
                         <Clock className="h-3 w-3" />
-                        <span>Last seen {formatDistanceToNow(new Date(contact.lastSeen), { addSuffix: true })}</span>
+                        <span>Last seen {formatDistanceToNow(new Date(lastSeen), { addSuffix: true })}</span>
                       </span>
                     ) : (
                       "Offline"
@@ -383,11 +457,41 @@ export default function ContactProfileDrawer({ isOpen, onClose, contact }: Conta
                   <Trash2 className="h-4 w-4 mr-2" />
                   Clear Messages
                 </Button>
+
+                {/* Block/Unblock Button */}
+                <Button
+                  variant="outline"
+                  className="w-full justify-start text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-950"
+                  onClick={handleToggleBlock}
+                  disabled={isLoading}
+                >
+                  <Ban className="h-4 w-4 mr-2" />
+                  {isBlocked ? `Unblock ${contact.name}` : `Block ${contact.name}`}
+                </Button>
+
+                {/* Report Button */}
+                <Button
+                  variant="outline"
+                  className="w-full justify-start text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-950"
+                  onClick={() => setShowReportDialog(true)}
+                  disabled={isLoading}
+                >
+                  <Flag className="h-4 w-4 mr-2" />
+                  Report {contact.name}
+                </Button>
               </motion.div>
             </div>
           </ScrollArea>
         </div>
       </SheetContent>
+
+      <ReportContactDialog
+        open={showReportDialog}
+        onOpenChange={setShowReportDialog}
+        contactName={contact.name}
+        isBlocked={isBlocked}
+        onReport={handleReport}
+      />
     </Sheet>
   )
 }
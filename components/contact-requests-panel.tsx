@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { UserPlus, X, Check, Ban } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import type { ContactRequest } from "@/lib/contact-requests"
+
+interface ContactRequestsPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  contactRequests: ContactRequest[]
+  onAccept: (request: ContactRequest) => Promise<void>
+  onDecline: (request: ContactRequest) => Promise<void>
+  onBlock: (request: ContactRequest) => Promise<void>
+}
+
+export default function ContactRequestsPanel({
+  isOpen,
+  onClose,
+  contactRequests,
+  onAccept,
+  onDecline,
+  onBlock,
+}: ContactRequestsPanelProps) {
+  const [processingId, setProcessingId] = useState<string | null>(null)
+
+  const handleAction = async (request: ContactRequest, action: (request: ContactRequest) => Promise<void>) => {
+    setProcessingId(request.id)
+    try {
+      await action(request)
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent
+        side="left"
+        className="w-full sm:max-w-md bg-card border-border text-card-foreground flex flex-col h-full overflow-hidden p-0"
+      >
+        <SheetHeader className="flex-shrink-0 p-4 border-b border-border">
+          <div className="flex items-center justify-between">
+            <SheetTitle className="flex items-center space-x-2 text-card-foreground">
+              <UserPlus className="h-5 w-5 text-primary" />
+              <span>Contact Requests</span>
+            </SheetTitle>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground text-left">
+            People who added you can't message you until you accept.
+          </p>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1">
+          <div className="space-y-2 p-4">
+            <AnimatePresence mode="popLayout">
+              {contactRequests.length > 0 ? (
+                contactRequests.map((request) => (
+                  <motion.div
+                    key={request.id}
+                    layout
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, x: -20 }}
+                    className="rounded-lg border border-border p-3 space-y-3"
+                  >
+                    <div className="flex items-center space-x-3">
+                      <Avatar className="h-10 w-10">
+                        <AvatarImage src={request.avatar || "/placeholder.svg?height=40&width=40"} />
+                        <AvatarFallback className="bg-muted">{request.name.charAt(0).toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{request.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">{request.email}</p>
+                      </div>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {formatDistanceToNow(new Date(request.createdAt), { addSuffix: true })}
+                      </span>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button
+                        size="sm"
+                        className="flex-1 bg-primary text-primary-foreground hover:bg-primary/90"
+                        disabled={processingId === request.id}
+                        onClick={() => handleAction(request, onAccept)}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1 border-border"
+                        disabled={processingId === request.id}
+                        onClick={() => handleAction(request, onDecline)}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Decline
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="border-border text-red-600 hover:text-red-700 dark:text-red-400"
+                        disabled={processingId === request.id}
+                        onClick={() => handleAction(request, onBlock)}
+                        title="Decline and block"
+                      >
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </motion.div>
+                ))
+              ) : (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <UserPlus className="h-12 w-12 text-muted-foreground mb-4" />
+                  <p className="text-foreground">No pending requests</p>
+                  <p className="text-sm text-muted-foreground mt-1">New contact requests will appear here</p>
+                </div>
+              )}
+            </AnimatePresence>
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Timer } from "lucide-react"
+import { DISAPPEARING_TIMER_OPTIONS } from "@/lib/disappearing-messages"
+
+interface DisappearingMessagesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentTimer: number
+  // False for group members who aren't admins
+  canChange: boolean
+  isGroup: boolean
+  onChangeTimer: (timer: number) => Promise<void>
+}
+
+export default function DisappearingMessagesDialog({
+  open,
+  onOpenChange,
+  currentTimer,
+  canChange,
+  isGroup,
+  onChangeTimer,
+}: DisappearingMessagesDialogProps) {
+  const [timer, setTimer] = useState(currentTimer)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setTimer(currentTimer)
+  }, [open, currentTimer])
+
+  const handleSave = async () => {
+    if (timer === currentTimer) {
+      onOpenChange(false)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await onChangeTimer(timer)
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-border bg-card text-card-foreground max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Timer className="h-5 w-5 text-primary" />
+            <span>Disappearing Messages</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <p className="text-sm text-muted-foreground">
+            New messages in this {isGroup ? "group" : "chat"} will disappear for everyone after the selected time.
+            Messages sent before the change aren't affected.
+          </p>
+
+          <RadioGroup
+            value={String(timer)}
+            onValueChange={(value) => setTimer(Number(value))}
+            disabled={!canChange}
+            className="space-y-1"
+          >
+            {DISAPPEARING_TIMER_OPTIONS.map((option) => (
+              <div key={option.value} className="flex items-center space-x-3 rounded-lg px-2 py-2 hover:bg-muted">
+                <RadioGroupItem value={String(option.value)} id={`disappearing-timer-${option.value}`} />
+                <Label htmlFor={`disappearing-timer-${option.value}`} className="flex-1 cursor-pointer">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {!canChange && <p className="text-xs text-muted-foreground">Only group admins can change this setting.</p>}
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="border-border">
+              {canChange ? "Cancel" : "Close"}
+            </Button>
+            {canChange && (
+              <Button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="bg-primary text-primary-foreground hover:bg-primary/90"
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -8,6 +8,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Progress } from "@/components/ui/progress"
 import { X, File, ImageIcon, FileText, Upload, Paperclip } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
+import { uploadToCloudinary } from "@/lib/cloudinary"
 
 interface FileUploadProps {
   onFileUpload: (fileUrl: string, fileType: string, fileName: string) => void
@@ -54,53 +55,24 @@ export default function FileUpload({ onFileUpload }: FileUploadProps) {
     setFiles((prev) => prev.filter((_, i) => i !== index))
   }
 
-  const uploadToCloudinary = async (file: File) => {
-    const formData = new FormData()
-    formData.append("file", file)
-    formData.append("upload_preset", "media_chat") // Replace with your Cloudinary upload preset
-
-    try {
-      // Simulate upload progress
-      const interval = setInterval(() => {
-        setUploadProgress((prev) => {
-          if (prev >= 95) {
-            clearInterval(interval)
-            return prev
-          }
-          return prev + 5
-        })
-      }, 100)
-
-      // Replace with your Cloudinary cloud name
-      const cloudName = "de7ywzcsr" // Your cloud name
-      const uploadPreset = "media_chat" // Your upload preset
-
-      // Use a try-catch to handle potential errors
-      let response
-      try {
-        response = await fetch(`https://api.cloudinary.com/v1_1/${cloudName}/auto/upload`, {
-          method: "POST",
-          body: formData,
-        })
-
-        if (!response.ok) {
-          throw new Error(`Upload failed with status: ${response.status}`)
+  const uploadWithProgress = async (file: File) => {
+    // Simulate upload progress
+    const interval = setInterval(() => {
+      setUploadProgress((prev) => {
+        if (prev >= 95) {
+          clearInterval(interval)
+          return prev
         }
+        return prev + 5
+      })
+    }, 100)
 
-        const data = await response.json()
-        clearInterval(interval)
-        setUploadProgress(100)
-        return data.secure_url
-      } catch (error) {
-        console.error("Upload error:", error)
-        clearInterval(interval)
-        // For demo purposes, return a local URL
-        return URL.createObjectURL(file)
-      }
-    } catch (error) {
-      console.error("Cloudinary upload error:", error)
-      // Return a fallback URL or throw a more descriptive error
-      return URL.createObjectURL(file) // Use local URL as fallback
+    try {
+      const fileUrl = await uploadToCloudinary(file)
+      setUploadProgress(100)
+      return fileUrl
+    } finally {
+      clearInterval(interval)
     }
   }
 
@@ -112,7 +84,7 @@ export default function FileUpload({ onFileUpload }: FileUploadProps) {
 
     try {
       for (const file of files) {
-        const fileUrl = await uploadToCloudinary(file)
+        const fileUrl = await uploadWithProgress(file)
 
         // Determine file type
         let fileType = "file"
@@ -0,0 +1,205 @@
+"use client"
+
+import { useState } from "react"
+import { motion } from "framer-motion"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Forward, Check, Search, Users } from "lucide-react"
+
+interface Contact {
+  id: string
+  name: string
+  email?: string
+  avatar?: string
+}
+
+interface Group {
+  id: string
+  name: string
+  avatar?: string
+  members: { [uid: string]: { name: string; role: "admin" | "member"; joinedAt: number } }
+}
+
+interface ForwardMessageModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  message: { text: string; fileName?: string } | null
+  contacts: Contact[]
+  groups: Group[]
+  onForward: (contactIds: string[], groupIds: string[]) => Promise<void>
+}
+
+export default function ForwardMessageModal({
+  open,
+  onOpenChange,
+  message,
+  contacts,
+  groups,
+  onForward,
+}: ForwardMessageModalProps) {
+  const [searchQuery, setSearchQuery] = useState("")
+  const [selectedContacts, setSelectedContacts] = useState<Set<string>>(new Set())
+  const [selectedGroups, setSelectedGroups] = useState<Set<string>>(new Set())
+  const [isForwarding, setIsForwarding] = useState(false)
+
+  const filteredContacts = contacts.filter((contact) =>
+    contact.name.toLowerCase().includes(searchQuery.toLowerCase()),
+  )
+  const filteredGroups = groups.filter((group) => group.name.toLowerCase().includes(searchQuery.toLowerCase()))
+  const selectedCount = selectedContacts.size + selectedGroups.size
+
+  const toggleSelection = (id: string, selected: Set<string>, setSelected: (value: Set<string>) => void) => {
+    const newSelected = new Set(selected)
+    if (newSelected.has(id)) {
+      newSelected.delete(id)
+    } else {
+      newSelected.add(id)
+    }
+    setSelected(newSelected)
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setSearchQuery("")
+      setSelectedContacts(new Set())
+      setSelectedGroups(new Set())
+    }
+    onOpenChange(isOpen)
+  }
+
+  const handleForward = async () => {
+    if (selectedCount === 0) return
+
+    setIsForwarding(true)
+    try {
+      await onForward(Array.from(selectedContacts), Array.from(selectedGroups))
+      handleOpenChange(false)
+    } finally {
+      setIsForwarding(false)
+    }
+  }
+
+  const renderCheck = (isSelected: boolean) =>
+    isSelected ? (
+      <motion.div
+        initial={{ scale: 0 }}
+        animate={{ scale: 1 }}
+        className="h-6 w-6 rounded-full bg-primary flex items-center justify-center"
+      >
+        <Check className="h-4 w-4 text-primary-foreground" />
+      </motion.div>
+    ) : (
+      <div className="h-6 w-6 rounded-full border-2 border-border" />
+    )
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="border-border bg-card text-card-foreground max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Forward className="h-5 w-5 text-primary" />
+            <span>Forward Message</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Message being forwarded */}
+          {message && (
+            <div className="rounded-lg border-l-2 border-primary bg-muted p-2">
+              <p className="text-sm truncate">{message.text || (message.fileName ? `📎 ${message.fileName}` : "File")}</p>
+            </div>
+          )}
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search chats..."
+              className="border-border bg-background pl-10"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+
+          <ScrollArea className="h-64 overflow-y-auto">
+            <div className="space-y-2 pr-2">
+              {filteredContacts.length > 0 && <p className="text-xs font-medium text-muted-foreground">Chats</p>}
+              {filteredContacts.map((contact) => (
+                <motion.div
+                  key={contact.id}
+                  className={`flex cursor-pointer items-center space-x-3 rounded-lg p-3 transition-colors hover:bg-muted ${
+                    selectedContacts.has(contact.id) ? "bg-primary/20 border border-primary/30" : ""
+                  }`}
+                  onClick={() => toggleSelection(contact.id, selectedContacts, setSelectedContacts)}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={contact.avatar || "/placeholder.svg?height=40&width=40"} />
+                    <AvatarFallback className="bg-muted-foreground">{contact.name.charAt(0).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{contact.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{contact.email}</p>
+                  </div>
+                  {renderCheck(selectedContacts.has(contact.id))}
+                </motion.div>
+              ))}
+
+              {filteredGroups.length > 0 && <p className="text-xs font-medium text-muted-foreground pt-2">Groups</p>}
+              {filteredGroups.map((group) => (
+                <motion.div
+                  key={group.id}
+                  className={`flex cursor-pointer items-center space-x-3 rounded-lg p-3 transition-colors hover:bg-muted ${
+                    selectedGroups.has(group.id) ? "bg-primary/20 border border-primary/30" : ""
+                  }`}
+                  onClick={() => toggleSelection(group.id, selectedGroups, setSelectedGroups)}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <Avatar className="h-10 w-10">
+                    {group.avatar ? (
+                      <AvatarImage src={group.avatar} />
+                    ) : (
+                      <AvatarFallback className="bg-muted-foreground text-white">
+                        <Users className="h-5 w-5" />
+                      </AvatarFallback>
+                    )}
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{group.name}</p>
+                    <p className="text-xs text-muted-foreground">{Object.keys(group.members).length} members</p>
+                  </div>
+                  {renderCheck(selectedGroups.has(group.id))}
+                </motion.div>
+              ))}
+
+              {filteredContacts.length === 0 && filteredGroups.length === 0 && (
+                <div className="flex flex-col items-center justify-center py-8 text-center">
+                  <Users className="h-12 w-12 text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">No chats found</p>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)} className="border-border">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleForward}
+              disabled={selectedCount === 0 || isForwarding}
+              className="bg-primary text-primary-foreground hover:bg-primary/90"
+            >
+              {isForwarding ? "Forwarding..." : `Forward${selectedCount > 0 ? ` (${selectedCount})` : ""}`}
+              <Forward className="h-4 w-4 ml-2" />
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
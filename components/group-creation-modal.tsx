@@ -9,9 +9,10 @@ import { Textarea } from "@/components/ui/textarea"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { useToast } from "@/components/ui/use-toast"
-import { Users, Check, Crown, ArrowRight, ArrowLeft } from "lucide-react"
+import { Users, Check, Crown, ArrowRight, ArrowLeft, Megaphone } from "lucide-react"
 import { ref, push, set } from "firebase/database"
 import { database } from "@/lib/firebase"
+import type { GroupType } from "@/lib/channels"
 
 interface Contact {
   id: string
@@ -37,6 +38,7 @@ export default function GroupCreationModal({
   userProfile,
 }: GroupCreationModalProps) {
   const [step, setStep] = useState<"details" | "members">("details")
+  const [groupType, setGroupType] = useState<GroupType>("group")
   const [groupName, setGroupName] = useState("")
   const [groupDescription, setGroupDescription] = useState("")
   const [selectedMembers, setSelectedMembers] = useState<Set<string>>(new Set())
@@ -90,12 +92,14 @@ export default function GroupCreationModal({
         members,
         lastMessage: "",
         timestamp: Date.now(),
+        // Channels count posts instead of fanning unread counts out to every member
+        ...(groupType === "channel" && { type: "channel", messageCount: 0 }),
       }
 
       await set(newGroupRef, groupData)
 
       toast({
-        title: "Group created",
+        title: groupType === "channel" ? "Channel created" : "Group created",
         description: `${groupName} has been created successfully`,
       })
 
@@ -103,6 +107,7 @@ export default function GroupCreationModal({
       setGroupName("")
       setGroupDescription("")
       setSelectedMembers(new Set())
+      setGroupType("group")
       setStep("details")
       onOpenChange(false)
     } catch (error) {
@@ -136,8 +141,12 @@ export default function GroupCreationModal({
       <DialogContent className="border-gray-800 bg-gray-900 text-white max-w-md">
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
-            <Users className="h-5 w-5 text-blue-400" />
-            <span>Create New Group</span>
+            {groupType === "channel" ? (
+              <Megaphone className="h-5 w-5 text-blue-400" />
+            ) : (
+              <Users className="h-5 w-5 text-blue-400" />
+            )}
+            <span>Create New {groupType === "channel" ? "Channel" : "Group"}</span>
           </DialogTitle>
         </DialogHeader>
 
@@ -150,11 +159,33 @@ export default function GroupCreationModal({
               exit={{ opacity: 0, x: -20 }}
               className="space-y-6 py-4"
             >
+              {/* Group Type */}
+              <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-800 p-1">
+                {(["group", "channel"] as const).map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setGroupType(type)}
+                    className={`flex items-center justify-center space-x-2 rounded-md py-2 text-sm transition-colors ${
+                      groupType === type ? "bg-blue-600 text-white" : "text-gray-400 hover:text-white"
+                    }`}
+                  >
+                    {type === "channel" ? <Megaphone className="h-4 w-4" /> : <Users className="h-4 w-4" />}
+                    <span>{type === "channel" ? "Channel" : "Group"}</span>
+                  </button>
+                ))}
+              </div>
+              {groupType === "channel" && (
+                <p className="text-xs text-gray-400 -mt-4">
+                  Only admins can post in a channel. Everyone else can read and react.
+                </p>
+              )}
+
               {/* Group Avatar Preview */}
               <div className="flex justify-center">
                 <Avatar className="h-20 w-20">
                   <AvatarFallback className={`${getGroupAvatar(groupName || "Group")} text-white text-2xl`}>
-                    <Users className="h-8 w-8" />
+                    {groupType === "channel" ? <Megaphone className="h-8 w-8" /> : <Users className="h-8 w-8" />}
                   </AvatarFallback>
                 </Avatar>
               </div>
@@ -195,7 +226,9 @@ export default function GroupCreationModal({
               {/* Admin Badge */}
               <div className="flex items-center space-x-2 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
                 <Crown className="h-4 w-4 text-yellow-500" />
-                <span className="text-sm text-yellow-400">You will be the group admin</span>
+                <span className="text-sm text-yellow-400">
+                  You will be the {groupType === "channel" ? "channel" : "group"} admin
+                </span>
               </div>
 
               {/* Next Button */}
@@ -315,7 +348,7 @@ export default function GroupCreationModal({
                   disabled={isCreating}
                   className="bg-green-600 text-white hover:bg-green-700"
                 >
-                  {isCreating ? "Creating..." : "Create Group"}
+                  {isCreating ? "Creating..." : groupType === "channel" ? "Create Channel" : "Create Group"}
                   <Users className="h-4 w-4 ml-2" />
                 </Button>
               </div>
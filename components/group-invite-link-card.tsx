@@ -0,0 +1,207 @@
+"use client"
+
+import { useState } from "react"
+import { QRCodeSVG } from "qrcode.react"
+import { formatDistanceToNow } from "date-fns"
+import { ref, update } from "firebase/database"
+import { database } from "@/lib/firebase"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Copy, Link2, RefreshCw, Trash2, ShieldCheck } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useGroupInviteLink } from "@/hooks/use-group-invite-link"
+import { INVITE_EXPIRY_OPTIONS, isInviteExpired } from "@/lib/invite-links"
+import {
+  INVITE_MAX_USES_OPTIONS,
+  getGroupInviteUrl,
+  getInviteUsageLabel,
+  hasInviteUsesLeft,
+  type GroupJoinMode,
+} from "@/lib/group-invites"
+
+interface GroupInviteLinkCardProps {
+  groupId: string
+  inviteCode?: string
+  joinMode?: GroupJoinMode
+  userId: string
+}
+
+export default function GroupInviteLinkCard({ groupId, inviteCode, joinMode, userId }: GroupInviteLinkCardProps) {
+  const { invite, createInvite, revokeInvite } = useGroupInviteLink(groupId, inviteCode, userId)
+  const [expiry, setExpiry] = useState(INVITE_EXPIRY_OPTIONS[0].value)
+  const [maxUses, setMaxUses] = useState(INVITE_MAX_USES_OPTIONS[0].value)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const { toast } = useToast()
+
+  const inviteUrl = invite ? getGroupInviteUrl(invite.code) : ""
+  const expired = invite ? isInviteExpired(invite) : false
+  const usable = invite ? !expired && hasInviteUsesLeft(invite) : false
+
+  const handleToggleApproval = async (requireApproval: boolean) => {
+    try {
+      await update(ref(database, `groups/${groupId}/settings`), {
+        joinMode: requireApproval ? "approval" : "instant",
+      })
+    } catch (error) {
+      console.error("Error updating join mode:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update group settings",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCreate = async () => {
+    const expiryOption = INVITE_EXPIRY_OPTIONS.find((o) => o.value === expiry) || INVITE_EXPIRY_OPTIONS[0]
+    const usesOption = INVITE_MAX_USES_OPTIONS.find((o) => o.value === maxUses) || INVITE_MAX_USES_OPTIONS[0]
+
+    setIsUpdating(true)
+    try {
+      await createInvite(expiryOption.duration, usesOption.maxUses)
+      toast({
+        title: invite ? "New link created" : "Invite link created",
+        description: invite ? "The previous link no longer works" : "Share it so people can join the group",
+      })
+    } catch (error) {
+      console.error("Error creating group invite link:", error)
+      toast({
+        title: "Error",
+        description: "Failed to create invite link. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    setIsUpdating(true)
+    try {
+      await revokeInvite()
+      toast({
+        title: "Invite link revoked",
+        description: "People can no longer join with that link",
+      })
+    } catch (error) {
+      console.error("Error revoking group invite link:", error)
+      toast({
+        title: "Error",
+        description: "Failed to revoke invite link. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl)
+      toast({
+        title: "Copied",
+        description: "Invite link copied to clipboard",
+      })
+    } catch (error) {
+      console.error("Failed to copy invite link:", error)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+          <div>
+            <p className="text-sm font-medium text-card-foreground">Approve new members</p>
+            <p className="text-xs text-muted-foreground">People with the link ask to join instead of joining</p>
+          </div>
+        </div>
+        <Switch checked={joinMode === "approval"} onCheckedChange={handleToggleApproval} />
+      </div>
+
+      {invite && (
+        <>
+          <div className="flex justify-center">
+            <div className={`rounded-lg bg-white p-3 ${usable ? "" : "opacity-40"}`}>
+              <QRCodeSVG value={inviteUrl} size={160} />
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <Input value={inviteUrl} readOnly className="bg-muted border-border text-xs" />
+            <Button variant="outline" size="icon" onClick={handleCopy} disabled={!usable} title="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex justify-between text-xs">
+            <span className={expired ? "text-red-500" : "text-muted-foreground"}>
+              {invite.expiresAt === null
+                ? "Never expires"
+                : expired
+                  ? "Expired"
+                  : `Expires ${formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}`}
+            </span>
+            <span className={hasInviteUsesLeft(invite) ? "text-muted-foreground" : "text-red-500"}>
+              {getInviteUsageLabel(invite)}
+            </span>
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label className="font-normal">Expires after</Label>
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="w-32 bg-muted border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INVITE_EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label className="font-normal">Limit uses to</Label>
+        <Select value={maxUses} onValueChange={setMaxUses}>
+          <SelectTrigger className="w-32 bg-muted border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INVITE_MAX_USES_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex space-x-2">
+        <Button variant="outline" className="flex-1 border-border" onClick={handleCreate} disabled={isUpdating}>
+          {invite ? <RefreshCw className="h-4 w-4 mr-2" /> : <Link2 className="h-4 w-4 mr-2" />}
+          {invite ? "New link" : "Create link"}
+        </Button>
+        {invite && (
+          <Button
+            variant="outline"
+            className="border-border text-red-600 hover:text-red-700 dark:text-red-400"
+            onClick={handleRevoke}
+            disabled={isUpdating}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Revoke
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,266 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { motion } from "framer-motion"
+import { ref, get, set, push, update, increment } from "firebase/database"
+import { database } from "@/lib/firebase"
+import { useAuth } from "@/contexts/auth-context"
+import { useToast } from "@/components/ui/use-toast"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Users, Link2Off, Clock } from "lucide-react"
+import AuthScreen from "@/components/auth-screen"
+import LoadingScreen from "@/components/loading-screen"
+import { isInviteExpired } from "@/lib/invite-links"
+import { hasInviteUsesLeft, parseGroupInviteLink, type GroupJoinMode } from "@/lib/group-invites"
+import { buildGroupSystemMessage, getMemberJoinedNotice } from "@/lib/group-events"
+
+interface GroupJoinScreenProps {
+  code: string
+}
+
+interface GroupPreview {
+  id: string
+  name: string
+  description?: string
+  avatar?: string
+  memberCount: number
+  joinMode: GroupJoinMode
+  isMember: boolean
+  hasPendingRequest: boolean
+  maxUses: number | null
+}
+
+type InviteStatus = "loading" | "ready" | "invalid" | "expired" | "full"
+
+const INVALID_INVITE_TITLES: Record<Exclude<InviteStatus, "loading" | "ready">, string> = {
+  invalid: "Invite link not found",
+  expired: "Invite link expired",
+  full: "Invite link has been used up",
+}
+
+// Shown at /join/{code}: signs the viewer in if needed, previews the group and joins or asks to join it
+export default function GroupJoinScreen({ code }: GroupJoinScreenProps) {
+  const { currentUser, userProfile, loading } = useAuth()
+  const [group, setGroup] = useState<GroupPreview | null>(null)
+  const [inviteStatus, setInviteStatus] = useState<InviteStatus>("loading")
+  const [isJoining, setIsJoining] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    document.body.style.backgroundColor = "black"
+    return () => {
+      document.body.style.backgroundColor = ""
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!currentUser) return
+
+    const loadInvite = async () => {
+      try {
+        const inviteSnapshot = await get(ref(database, `groupInviteLinks/${code}`))
+        if (!inviteSnapshot.exists()) {
+          setInviteStatus("invalid")
+          return
+        }
+
+        const invite = parseGroupInviteLink(code, inviteSnapshot.val())
+        const groupSnapshot = await get(ref(database, `groups/${invite.groupId}`))
+        if (!groupSnapshot.exists()) {
+          setInviteStatus("invalid")
+          return
+        }
+
+        const groupData = groupSnapshot.val()
+        const members = groupData.members || {}
+        const isMember = !!members[currentUser.uid]
+
+        // Members can always open the preview, even through a link that no longer admits anyone
+        if (!isMember && isInviteExpired(invite)) {
+          setInviteStatus("expired")
+          return
+        }
+        if (!isMember && !hasInviteUsesLeft(invite)) {
+          setInviteStatus("full")
+          return
+        }
+
+        const requestSnapshot = await get(ref(database, `groupJoinRequests/${invite.groupId}/${currentUser.uid}`))
+        setGroup({
+          id: invite.groupId,
+          name: groupData.name,
+          description: groupData.description,
+          avatar: groupData.avatar,
+          memberCount: Object.keys(members).length,
+          joinMode: groupData.settings?.joinMode || "instant",
+          isMember,
+          hasPendingRequest: requestSnapshot.exists(),
+          maxUses: invite.maxUses,
+        })
+        setInviteStatus("ready")
+      } catch (error) {
+        console.error("Error loading group invite link:", error)
+        setInviteStatus("invalid")
+      }
+    }
+
+    loadInvite()
+  }, [code, currentUser])
+
+  const handleJoin = async () => {
+    if (!currentUser || !group) return
+
+    const myName = userProfile?.name || currentUser.email?.split("@")[0] || "Unknown"
+
+    setIsJoining(true)
+    try {
+      if (group.joinMode === "approval") {
+        await set(ref(database, `groupJoinRequests/${group.id}/${currentUser.uid}`), {
+          name: myName,
+          avatar: userProfile?.avatar || null,
+          inviteCode: code,
+          requestedAt: Date.now(),
+        })
+        setGroup({ ...group, hasPendingRequest: true })
+        toast({
+          title: "Request sent",
+          description: `An admin of ${group.name} will review your request`,
+        })
+        return
+      }
+
+      // The link may have expired or filled up while the preview was open
+      const inviteSnapshot = await get(ref(database, `groupInviteLinks/${code}`))
+      if (!inviteSnapshot.exists()) {
+        setInviteStatus("invalid")
+        return
+      }
+      const invite = parseGroupInviteLink(code, inviteSnapshot.val())
+      if (isInviteExpired(invite)) {
+        setInviteStatus("expired")
+        return
+      }
+      if (!hasInviteUsesLeft(invite)) {
+        setInviteStatus("full")
+        return
+      }
+
+      // Membership and the claimed use go in one write; the rules reject it once the link is used up or expired
+      try {
+        await update(ref(database), {
+          [`groupInviteLinks/${code}/uses`]: increment(1),
+          [`groups/${group.id}/members/${currentUser.uid}`]: {
+            name: myName,
+            role: "member",
+            joinedAt: Date.now(),
+          },
+        })
+      } catch (error) {
+        console.error("Invite link rejected the join:", error)
+        setInviteStatus("full")
+        return
+      }
+      await set(
+        push(ref(database, `groupMessages/${group.id}`)),
+        buildGroupSystemMessage(group.id, "member_joined", getMemberJoinedNotice(myName, true), {
+          uid: currentUser.uid,
+          name: myName,
+        }),
+      )
+
+      toast({
+        title: "Joined group",
+        description: `You are now a member of ${group.name}`,
+      })
+      router.push("/")
+    } catch (error) {
+      console.error("Error joining group:", error)
+      toast({
+        title: "Error",
+        description: "Failed to join group. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsJoining(false)
+    }
+  }
+
+  if (loading) {
+    return <LoadingScreen />
+  }
+
+  if (!currentUser || !userProfile) {
+    return <AuthScreen />
+  }
+
+  if (inviteStatus === "loading") {
+    return <LoadingScreen />
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-black p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-sm rounded-2xl border border-border bg-card p-6 text-center text-card-foreground"
+      >
+        {inviteStatus === "ready" && group ? (
+          <>
+            <Avatar className="mx-auto h-20 w-20">
+              {group.avatar ? (
+                <AvatarImage src={group.avatar} />
+              ) : (
+                <AvatarFallback className="bg-primary text-primary-foreground">
+                  <Users className="h-10 w-10" />
+                </AvatarFallback>
+              )}
+            </Avatar>
+            <h1 className="mt-4 text-xl font-semibold">{group.name}</h1>
+            <p className="text-sm text-muted-foreground">
+              {group.memberCount} {group.memberCount === 1 ? "member" : "members"}
+            </p>
+            {group.description && <p className="mt-3 text-sm text-card-foreground">{group.description}</p>}
+            <p className="mt-3 text-sm text-muted-foreground">
+              {group.isMember
+                ? "You're already a member of this group."
+                : group.hasPendingRequest
+                  ? "Your request to join is waiting for an admin to approve it."
+                  : group.joinMode === "approval"
+                    ? "An admin needs to approve new members."
+                    : "You've been invited to join this group."}
+            </p>
+            <div className="mt-6 flex space-x-2">
+              <Button variant="outline" className="flex-1" onClick={() => router.push("/")}>
+                {group.isMember || group.hasPendingRequest ? "Back to chats" : "Not now"}
+              </Button>
+              {!group.isMember && !group.hasPendingRequest && (
+                <Button className="flex-1" onClick={handleJoin} disabled={isJoining}>
+                  {group.joinMode === "approval" ? (
+                    <Clock className="h-4 w-4 mr-2" />
+                  ) : (
+                    <Users className="h-4 w-4 mr-2" />
+                  )}
+                  {isJoining ? "Joining..." : group.joinMode === "approval" ? "Request to join" : "Join group"}
+                </Button>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            <Link2Off className="mx-auto h-12 w-12 text-muted-foreground" />
+            <h1 className="mt-4 text-xl font-semibold">
+              {INVALID_INVITE_TITLES[inviteStatus === "ready" ? "invalid" : inviteStatus]}
+            </h1>
+            <p className="mt-2 text-sm text-muted-foreground">Ask a group admin to send you a new link.</p>
+            <Button className="mt-6 w-full" onClick={() => router.push("/")}>
+              Back to chats
+            </Button>
+          </>
+        )}
+      </motion.div>
+    </div>
+  )
+}
@@ -6,32 +6,81 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sh
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { useToast } from "@/components/ui/use-toast"
-import { Users, Crown, UserPlus, UserMinus, Edit3, Check, X, LogOut } from "lucide-react"
-import { ref, update, remove } from "firebase/database"
+import {
+  Users,
+  Crown,
+  UserPlus,
+  UserMinus,
+  Edit3,
+  Check,
+  X,
+  LogOut,
+  Shield,
+  ShieldOff,
+  MoreVertical,
+  Megaphone,
+} from "lucide-react"
+import { ref, update, remove, set, push } from "firebase/database"
 import { database } from "@/lib/firebase"
+import GroupInviteLinkCard from "./group-invite-link-card"
+import { useGroupJoinRequests } from "@/hooks/use-group-join-requests"
+import type { GroupJoinMode, GroupJoinRequest } from "@/lib/group-invites"
+import {
+  buildGroupSystemMessage,
+  getDescriptionChangedNotice,
+  getGroupRenamedNotice,
+  getMemberLeftNotice,
+  getMemberRemovedNotice,
+  getMembersAddedNotice,
+  getOwnershipTransferredNotice,
+  getRoleChangedNotice,
+  type GroupSystemEvent,
+} from "@/lib/group-events"
+import {
+  GROUP_PERMISSION_OPTIONS,
+  GROUP_ROLE_LABELS,
+  canManageMember,
+  getGroupRole,
+  getPermissionLevel,
+  hasGroupPermission,
+  isGroupAdmin,
+  type GroupPermission,
+  type GroupPermissions,
+} from "@/lib/group-permissions"
+import { isChannel, type GroupType } from "@/lib/channels"
 
 interface Group {
   id: string
   name: string
   description?: string
   avatar?: string
+  type?: GroupType
   createdBy: string
   createdAt: number
   members: { [uid: string]: { name: string; role: "admin" | "member"; joinedAt: number } }
   lastMessage?: string
   timestamp?: number
   unread?: number
+  settings?: { membersCanPin?: boolean; joinMode?: GroupJoinMode; permissions?: GroupPermissions }
+  inviteCode?: string
 }
 
 interface Contact {
   id: string
-  uid: string
   name: string
-  email: string
+  email?: string
   avatar?: string
 }
 
@@ -51,15 +100,32 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
   const [showAddMembers, setShowAddMembers] = useState(false)
   const [selectedNewMembers, setSelectedNewMembers] = useState<Set<string>>(new Set())
   const [isAddingMembers, setIsAddingMembers] = useState(false)
+  const [processingRequestId, setProcessingRequestId] = useState<string | null>(null)
+  const [showTransferOwnership, setShowTransferOwnership] = useState(false)
   const { toast } = useToast()
+  const { joinRequests, approveJoinRequest, rejectJoinRequest } = useGroupJoinRequests(
+    group?.id,
+    !!group && !!currentUser && isGroupAdmin(group, currentUser.uid),
+  )
 
   if (!group || !currentUser) return null
 
-  const isAdmin = group.createdBy === currentUser.uid
+  const isAdmin = isGroupAdmin(group, currentUser.uid)
+  const isOwner = group.createdBy === currentUser.uid
+  const canEditInfo = hasGroupPermission(group, currentUser.uid, "editInfo")
+  const canAddMembers = hasGroupPermission(group, currentUser.uid, "addMembers")
   const membersList = Object.entries(group.members)
+  const otherMembers = membersList.filter(([uid]) => uid !== currentUser.uid)
+  const myName = group.members[currentUser.uid]?.name || currentUser.displayName || "Someone"
+
+  const postSystemMessage = (systemEvent: GroupSystemEvent, text: string) =>
+    set(
+      push(ref(database, `groupMessages/${group.id}`)),
+      buildGroupSystemMessage(group.id, systemEvent, text, { uid: currentUser.uid, name: myName }),
+    )
 
   // Get contacts that are not already in the group
-  const availableContacts = contacts.filter((contact) => !group.members[contact.uid])
+  const availableContacts = contacts.filter((contact) => !group.members[contact.id])
 
   const getGroupAvatar = (name: string) => {
     const colors = [
@@ -76,11 +142,16 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
   }
 
   const handleSaveName = async () => {
-    if (!editedName.trim() || !isAdmin) return
+    if (!editedName.trim() || !canEditInfo) return
+    if (editedName.trim() === group.name) {
+      setIsEditingName(false)
+      return
+    }
 
     try {
       const groupRef = ref(database, `groups/${group.id}`)
       await update(groupRef, { name: editedName.trim() })
+      await postSystemMessage("group_renamed", getGroupRenamedNotice(myName, editedName.trim()))
 
       toast({
         title: "Group name updated",
@@ -99,11 +170,16 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
   }
 
   const handleSaveDescription = async () => {
-    if (!isAdmin) return
+    if (!canEditInfo) return
+    if (editedDescription.trim() === (group.description || "")) {
+      setIsEditingDescription(false)
+      return
+    }
 
     try {
       const groupRef = ref(database, `groups/${group.id}`)
       await update(groupRef, { description: editedDescription.trim() })
+      await postSystemMessage("description_changed", getDescriptionChangedNotice(myName, editedDescription.trim()))
 
       toast({
         title: "Description updated",
@@ -121,14 +197,84 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
     }
   }
 
+  const handleTogglePermission = async (permission: GroupPermission, everyone: boolean) => {
+    if (!isAdmin) return
+
+    try {
+      await update(ref(database, `groups/${group.id}/settings/permissions`), {
+        [permission]: everyone ? "everyone" : "admins",
+      })
+    } catch (error) {
+      console.error("Error updating group settings:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update group settings",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSetAdmin = async (memberUid: string, makeAdmin: boolean) => {
+    // Admins can promote members, but only the owner can demote another admin
+    if (makeAdmin ? !isAdmin : !canManageMember(group, currentUser.uid, memberUid)) return
+
+    try {
+      await update(ref(database, `groups/${group.id}/members/${memberUid}`), {
+        role: makeAdmin ? "admin" : "member",
+      })
+
+      const memberName = group.members[memberUid]?.name || "Member"
+      await postSystemMessage("role_changed", getRoleChangedNotice(myName, memberName, makeAdmin))
+    } catch (error) {
+      console.error("Error changing member role:", error)
+      toast({
+        title: "Error",
+        description: "Failed to change member role",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const transferOwnership = async (newOwnerUid: string) => {
+    // The previous owner stays on as an admin
+    await update(ref(database, `groups/${group.id}`), {
+      createdBy: newOwnerUid,
+      [`members/${newOwnerUid}/role`]: "admin",
+      [`members/${currentUser.uid}/role`]: "admin",
+    })
+
+    const newOwnerName = group.members[newOwnerUid]?.name || "Member"
+    await postSystemMessage("role_changed", getOwnershipTransferredNotice(myName, newOwnerName))
+  }
+
+  const handleTransferOwnership = async (newOwnerUid: string) => {
+    if (!isOwner || newOwnerUid === currentUser.uid) return
+
+    try {
+      await transferOwnership(newOwnerUid)
+      toast({
+        title: "Ownership transferred",
+        description: `${group.members[newOwnerUid]?.name || "Member"} is now the group owner`,
+      })
+    } catch (error) {
+      console.error("Error transferring ownership:", error)
+      toast({
+        title: "Error",
+        description: "Failed to transfer ownership",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleRemoveMember = async (memberUid: string) => {
-    if (!isAdmin || memberUid === currentUser.uid) return
+    if (!canManageMember(group, currentUser.uid, memberUid)) return
 
     try {
       const groupRef = ref(database, `groups/${group.id}/members/${memberUid}`)
       await remove(groupRef)
 
       const memberName = group.members[memberUid]?.name || "Member"
+      await postSystemMessage("member_left", getMemberRemovedNotice(myName, memberName))
       toast({
         title: "Member removed",
         description: `${memberName} has been removed from the group`,
@@ -143,51 +289,53 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
     }
   }
 
+  const leaveGroup = async () => {
+    // Announce it while we can still post to the group
+    await postSystemMessage("member_left", getMemberLeftNotice(myName))
+    await remove(ref(database, `groups/${group.id}/members/${currentUser.uid}`))
+
+    toast({
+      title: "Left group",
+      description: "You have left the group",
+    })
+    onClose()
+  }
+
   const handleLeaveGroup = async () => {
+    // The owner has to hand the group to someone first
+    if (isOwner && otherMembers.length > 0) {
+      setShowTransferOwnership(true)
+      return
+    }
+
     try {
-      if (isAdmin) {
-        // If admin is leaving, transfer ownership to another member or delete group
-        const otherMembers = membersList.filter(([uid]) => uid !== currentUser.uid)
-
-        if (otherMembers.length > 0) {
-          // Transfer ownership to the first other member
-          const newAdminUid = otherMembers[0][0]
-          const groupRef = ref(database, `groups/${group.id}`)
-          await update(groupRef, {
-            createdBy: newAdminUid,
-            [`members/${newAdminUid}/role`]: "admin",
-          })
-
-          // Remove current user
-          const memberRef = ref(database, `groups/${group.id}/members/${currentUser.uid}`)
-          await remove(memberRef)
-
-          toast({
-            title: "Left group",
-            description: "You have left the group and transferred admin rights",
-          })
-        } else {
-          // Delete the entire group if no other members
-          const groupRef = ref(database, `groups/${group.id}`)
-          await remove(groupRef)
-
-          toast({
-            title: "Group deleted",
-            description: "The group has been deleted as you were the only member",
-          })
-        }
-      } else {
-        // Regular member leaving
-        const memberRef = ref(database, `groups/${group.id}/members/${currentUser.uid}`)
-        await remove(memberRef)
+      if (isOwner) {
+        // Delete the entire group if no other members
+        await remove(ref(database, `groups/${group.id}`))
 
         toast({
-          title: "Left group",
-          description: "You have left the group",
+          title: "Group deleted",
+          description: "The group has been deleted as you were the only member",
         })
+        onClose()
+      } else {
+        await leaveGroup()
       }
+    } catch (error) {
+      console.error("Error leaving group:", error)
+      toast({
+        title: "Error",
+        description: "Failed to leave group",
+        variant: "destructive",
+      })
+    }
+  }
 
-      onClose()
+  const handleTransferAndLeave = async (newOwnerUid: string) => {
+    try {
+      await transferOwnership(newOwnerUid)
+      setShowTransferOwnership(false)
+      await leaveGroup()
     } catch (error) {
       console.error("Error leaving group:", error)
       toast({
@@ -209,7 +357,7 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
   }
 
   const handleAddMembers = async () => {
-    if (selectedNewMembers.size === 0 || !isAdmin) return
+    if (selectedNewMembers.size === 0 || !canAddMembers) return
 
     setIsAddingMembers(true)
     try {
@@ -228,6 +376,11 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
 
       await update(ref(database), updates)
 
+      const addedNames = Array.from(selectedNewMembers)
+        .map((contactId) => contacts.find((c) => c.id === contactId)?.name)
+        .filter((name): name is string => !!name)
+      await postSystemMessage("member_joined", getMembersAddedNotice(myName, addedNames))
+
       toast({
         title: "Members added",
         description: `${selectedNewMembers.size} member(s) have been added to the group`,
@@ -247,6 +400,26 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
     }
   }
 
+  const handleJoinRequest = async (request: GroupJoinRequest, approve: boolean) => {
+    setProcessingRequestId(request.id)
+    try {
+      if (approve) {
+        await approveJoinRequest(request, { uid: currentUser.uid, name: myName })
+      } else {
+        await rejectJoinRequest(request)
+      }
+    } catch (error) {
+      console.error("Error handling join request:", error)
+      toast({
+        title: "Error",
+        description: `Failed to ${approve ? "approve" : "reject"} request. Please try again.`,
+        variant: "destructive",
+      })
+    } finally {
+      setProcessingRequestId(null)
+    }
+  }
+
   const handleClose = () => {
     onClose()
   }
@@ -257,7 +430,9 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
         <SheetContent className="w-full sm:max-w-md bg-card border-border text-card-foreground flex flex-col h-full overflow-hidden">
           <SheetHeader className="space-y-4 flex-shrink-0">
             <div className="flex items-center justify-between">
-              <SheetTitle className="text-card-foreground">Group Info</SheetTitle>
+              <SheetTitle className="text-card-foreground">
+                {group && isChannel(group) ? "Channel Info" : "Group Info"}
+              </SheetTitle>
               <Button variant="ghost" size="icon" onClick={handleClose}>
                 <X className="h-5 w-5" />
               </Button>
@@ -270,7 +445,7 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
                   <AvatarImage src={group.avatar || "/placeholder.svg"} />
                 ) : (
                   <AvatarFallback className={`${getGroupAvatar(group?.name || "")} text-white text-2xl`}>
-                    <Users className="h-12 w-12" />
+                    {group && isChannel(group) ? <Megaphone className="h-12 w-12" /> : <Users className="h-12 w-12" />}
                   </AvatarFallback>
                 )}
               </Avatar>
@@ -284,7 +459,7 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                     <label className="text-sm font-medium text-card-foreground">Group Name</label>
-                    {isAdmin && (
+                    {canEditInfo && (
                       <Button
                         variant="ghost"
                         size="sm"
@@ -333,7 +508,7 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                     <label className="text-sm font-medium text-card-foreground">Description</label>
-                    {isAdmin && (
+                    {canEditInfo && (
                       <Button
                         variant="ghost"
                         size="sm"
@@ -377,6 +552,87 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
                   )}
                 </div>
 
+                {/* Group Permissions */}
+                {isAdmin && (
+                  <div className="space-y-3">
+                    <h3 className="font-medium text-card-foreground">Permissions</h3>
+                    <div className="space-y-2">
+                      {/* Posting in a channel is fixed to admins, so there's nothing to toggle */}
+                      {GROUP_PERMISSION_OPTIONS.filter(
+                        (option) => !(isChannel(group) && option.key === "sendMessages"),
+                      ).map((option) => (
+                        <div key={option.key} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                          <div>
+                            <p className="text-sm font-medium text-card-foreground">{option.label}</p>
+                            <p className="text-xs text-muted-foreground">{option.description}</p>
+                          </div>
+                          <Switch
+                            checked={getPermissionLevel(group, option.key) === "everyone"}
+                            onCheckedChange={(checked) => handleTogglePermission(option.key, checked)}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Invite Link */}
+                {isAdmin && (
+                  <div className="space-y-3">
+                    <h3 className="font-medium text-card-foreground">Invite Link</h3>
+                    <GroupInviteLinkCard
+                      groupId={group.id}
+                      inviteCode={group.inviteCode}
+                      joinMode={group.settings?.joinMode}
+                      userId={currentUser.uid}
+                    />
+                  </div>
+                )}
+
+                {/* Join Requests */}
+                {isAdmin && joinRequests.length > 0 && (
+                  <div className="space-y-3">
+                    <h3 className="font-medium text-card-foreground">Join Requests ({joinRequests.length})</h3>
+                    <div className="space-y-2">
+                      {joinRequests.map((request) => (
+                        <div key={request.id} className="flex items-center space-x-3 p-3 bg-muted rounded-lg">
+                          <Avatar className="h-10 w-10">
+                            <AvatarImage src={request.avatar || "/placeholder.svg?height=40&width=40"} />
+                            <AvatarFallback className="bg-muted-foreground">
+                              {request.name.charAt(0).toUpperCase()}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-card-foreground truncate">{request.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Requested {new Date(request.requestedAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <Button
+                            size="sm"
+                            onClick={() => handleJoinRequest(request, true)}
+                            disabled={processingRequestId === request.id}
+                            className="bg-primary hover:bg-primary/90"
+                            title="Approve"
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleJoinRequest(request, false)}
+                            disabled={processingRequestId === request.id}
+                            className="border-border"
+                            title="Reject"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Group Stats */}
                 <div className="grid grid-cols-2 gap-4 p-4 bg-muted rounded-lg">
                   <div className="text-center">
@@ -395,7 +651,7 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
                     <h3 className="font-medium text-card-foreground">Members ({membersList.length})</h3>
-                    {isAdmin && availableContacts.length > 0 && (
+                    {canAddMembers && availableContacts.length > 0 && (
                       <Button
                         variant="ghost"
                         size="sm"
@@ -417,7 +673,7 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
                       >
                         <Avatar className="h-10 w-10">
                           <AvatarImage
-                            src={contacts.find((c) => c.uid === uid)?.avatar || "/placeholder.svg?height=40&width=40"}
+                            src={contacts.find((c) => c.id === uid)?.avatar || "/placeholder.svg?height=40&width=40"}
                           />
                           <AvatarFallback className="bg-muted-foreground">
                             {member.name.charAt(0).toUpperCase()}
@@ -429,20 +685,52 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
                             {uid === currentUser.uid && " (You)"}
                           </p>
                           <p className="text-xs text-muted-foreground">
-                            {member.role === "admin" ? "Admin" : "Member"}
+                            {GROUP_ROLE_LABELS[getGroupRole(group, uid) || "member"]}
                           </p>
                         </div>
                         <div className="flex items-center space-x-2">
-                          {member.role === "admin" && <Crown className="h-4 w-4 text-yellow-500" />}
-                          {isAdmin && uid !== currentUser.uid && (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleRemoveMember(uid)}
-                              className="text-destructive hover:text-destructive/80"
-                            >
-                              <UserMinus className="h-4 w-4" />
-                            </Button>
+                          {getGroupRole(group, uid) === "owner" && <Crown className="h-4 w-4 text-yellow-500" />}
+                          {getGroupRole(group, uid) === "admin" && <Shield className="h-4 w-4 text-primary" />}
+                          {(canManageMember(group, currentUser.uid, uid) ||
+                            (isAdmin && getGroupRole(group, uid) === "member")) && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="sm" className="text-muted-foreground">
+                                  <MoreVertical className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {getGroupRole(group, uid) === "member" ? (
+                                  <DropdownMenuItem onClick={() => handleSetAdmin(uid, true)}>
+                                    <Shield className="h-4 w-4 mr-2" />
+                                    Make admin
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem onClick={() => handleSetAdmin(uid, false)}>
+                                    <ShieldOff className="h-4 w-4 mr-2" />
+                                    Remove as admin
+                                  </DropdownMenuItem>
+                                )}
+                                {isOwner && (
+                                  <DropdownMenuItem onClick={() => handleTransferOwnership(uid)}>
+                                    <Crown className="h-4 w-4 mr-2" />
+                                    Make group owner
+                                  </DropdownMenuItem>
+                                )}
+                                {canManageMember(group, currentUser.uid, uid) && (
+                                  <>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem
+                                      onClick={() => handleRemoveMember(uid)}
+                                      className="text-destructive focus:text-destructive"
+                                    >
+                                      <UserMinus className="h-4 w-4 mr-2" />
+                                      Remove from group
+                                    </DropdownMenuItem>
+                                  </>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
                           )}
                         </div>
                       </motion.div>
@@ -458,7 +746,7 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
                     className="w-full border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground"
                   >
                     <LogOut className="h-4 w-4 mr-2" />
-                    {isAdmin ? "Delete Group" : "Leave Group"}
+                    {isOwner && otherMembers.length === 0 ? "Delete Group" : "Leave Group"}
                   </Button>
                 </div>
               </div>
@@ -467,6 +755,61 @@ export default function GroupProfileDrawer({ isOpen, onClose, group, currentUser
         </SheetContent>
       </Sheet>
 
+      {/* Transfer Ownership Modal */}
+      <Dialog open={showTransferOwnership} onOpenChange={setShowTransferOwnership}>
+        <DialogContent className="border-border bg-card text-card-foreground max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <Crown className="h-5 w-5 text-yellow-500" />
+              <span>Choose a new owner</span>
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <p className="text-sm text-muted-foreground">
+              Pick who will own {group.name} after you leave. They'll be able to manage admins and permissions.
+            </p>
+
+            <ScrollArea className="h-64 overflow-y-auto">
+              <div className="space-y-2 pr-2">
+                {otherMembers.map(([uid, member]) => (
+                  <button
+                    key={uid}
+                    className="flex w-full items-center space-x-3 rounded-lg p-3 text-left transition-colors hover:bg-muted"
+                    onClick={() => handleTransferAndLeave(uid)}
+                  >
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage
+                        src={contacts.find((c) => c.id === uid)?.avatar || "/placeholder.svg?height=40&width=40"}
+                      />
+                      <AvatarFallback className="bg-muted-foreground">
+                        {member.name.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1">
+                      <p className="font-medium text-card-foreground">{member.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {GROUP_ROLE_LABELS[getGroupRole(group, uid) || "member"]}
+                      </p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                onClick={() => setShowTransferOwnership(false)}
+                className="border-border text-muted-foreground hover:bg-muted"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Add Members Modal */}
       <Dialog open={showAddMembers} onOpenChange={setShowAddMembers}>
         <DialogContent className="border-border bg-card text-card-foreground max-w-md">
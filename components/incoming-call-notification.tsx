@@ -7,6 +7,7 @@ import { Phone, PhoneOff, Video } from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
 import { ref, onValue, set, get, off } from "firebase/database"
 import { database } from "@/lib/firebase"
+import { getBlockedUserPath } from "@/lib/moderation"
 
 interface IncomingCall {
   id: string
@@ -61,6 +62,13 @@ export default function IncomingCallNotification({ onAccept, onReject }: Incomin
           console.log("Found incoming call for current user:", callId)
 
           try {
+            // Calls from blocked users never ring; the caller just sees an unanswered call
+            const blockedSnapshot = await get(ref(database, getBlockedUserPath(currentUser.uid, callData.callerId)))
+            if (blockedSnapshot.exists()) {
+              console.log("Ignoring call from blocked user:", callData.callerId)
+              continue
+            }
+
             // Get caller info
             const callerRef = ref(database, `users/${callData.callerId}`)
             const callerSnapshot = await get(callerRef)
@@ -0,0 +1,151 @@
+"use client"
+
+import { useState } from "react"
+import { QRCodeSVG } from "qrcode.react"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Copy, Link2, RefreshCw, Trash2 } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useInviteLink } from "@/hooks/use-invite-link"
+import { INVITE_EXPIRY_OPTIONS, getInviteUrl, isInviteExpired } from "@/lib/invite-links"
+
+interface InviteLinkCardProps {
+  userId: string
+}
+
+export default function InviteLinkCard({ userId }: InviteLinkCardProps) {
+  const { invite, createInvite, revokeInvite } = useInviteLink(userId)
+  const [expiry, setExpiry] = useState(INVITE_EXPIRY_OPTIONS[0].value)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const { toast } = useToast()
+
+  const inviteUrl = invite ? getInviteUrl(invite.code) : ""
+  const expired = invite ? isInviteExpired(invite) : false
+
+  const handleCreate = async () => {
+    const option = INVITE_EXPIRY_OPTIONS.find((o) => o.value === expiry) || INVITE_EXPIRY_OPTIONS[0]
+
+    setIsUpdating(true)
+    try {
+      await createInvite(option.duration)
+      toast({
+        title: invite ? "New link created" : "Invite link created",
+        description: invite ? "Your previous link no longer works" : "Share it so people can add you",
+      })
+    } catch (error) {
+      console.error("Error creating invite link:", error)
+      toast({
+        title: "Error",
+        description: "Failed to create invite link. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    setIsUpdating(true)
+    try {
+      await revokeInvite()
+      toast({
+        title: "Invite link revoked",
+        description: "People can no longer add you with that link",
+      })
+    } catch (error) {
+      console.error("Error revoking invite link:", error)
+      toast({
+        title: "Error",
+        description: "Failed to revoke invite link. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl)
+      toast({
+        title: "Copied",
+        description: "Invite link copied to clipboard",
+      })
+    } catch (error) {
+      console.error("Failed to copy invite link:", error)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-medium">Invite link</h3>
+        <p className="text-xs text-muted-foreground">
+          Anyone with this link or QR code can send you a contact request.
+        </p>
+      </div>
+
+      {invite && (
+        <>
+          <div className="flex justify-center">
+            <div className={`rounded-lg bg-white p-3 ${expired ? "opacity-40" : ""}`}>
+              <QRCodeSVG value={inviteUrl} size={160} />
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <Input value={inviteUrl} readOnly className="bg-muted border-border text-xs" />
+            <Button variant="outline" size="icon" onClick={handleCopy} disabled={expired} title="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <p className={`text-xs ${expired ? "text-red-500" : "text-muted-foreground"}`}>
+            {invite.expiresAt === null
+              ? "This link never expires"
+              : expired
+                ? "This link has expired"
+                : `Expires ${formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}`}
+          </p>
+        </>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label className="font-normal">{invite ? "New link expires after" : "Link expires after"}</Label>
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="w-32 bg-muted border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INVITE_EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex space-x-2">
+        <Button variant="outline" className="flex-1" onClick={handleCreate} disabled={isUpdating}>
+          {invite ? <RefreshCw className="h-4 w-4 mr-2" /> : <Link2 className="h-4 w-4 mr-2" />}
+          {invite ? "New link" : "Create link"}
+        </Button>
+        {invite && (
+          <Button
+            variant="outline"
+            className="text-red-600 hover:text-red-700 dark:text-red-400"
+            onClick={handleRevoke}
+            disabled={isUpdating}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Revoke
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { motion } from "framer-motion"
+import { ref, get } from "firebase/database"
+import { database } from "@/lib/firebase"
+import { useAuth } from "@/contexts/auth-context"
+import { useToast } from "@/components/ui/use-toast"
+import { useContactRequests } from "@/hooks/use-contact-requests"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { UserPlus, Link2Off } from "lucide-react"
+import AuthScreen from "@/components/auth-screen"
+import LoadingScreen from "@/components/loading-screen"
+import { isInviteExpired } from "@/lib/invite-links"
+import { getAddContactMessage } from "@/lib/contact-requests"
+import type { DirectoryUser } from "@/lib/usernames"
+
+interface InviteScreenProps {
+  code: string
+}
+
+// Shown at /invite/{code}: signs the viewer in if needed, then offers to add the link's owner
+export default function InviteScreen({ code }: InviteScreenProps) {
+  const { currentUser, userProfile, loading } = useAuth()
+  const { sendContactRequest } = useContactRequests(currentUser?.uid)
+  const [inviter, setInviter] = useState<DirectoryUser | null>(null)
+  const [inviteStatus, setInviteStatus] = useState<"loading" | "ready" | "invalid" | "expired">("loading")
+  const [isAdding, setIsAdding] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    document.body.style.backgroundColor = "black"
+    return () => {
+      document.body.style.backgroundColor = ""
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!currentUser) return
+
+    const loadInvite = async () => {
+      try {
+        const inviteSnapshot = await get(ref(database, `inviteLinks/${code}`))
+        if (!inviteSnapshot.exists()) {
+          setInviteStatus("invalid")
+          return
+        }
+
+        const invite = inviteSnapshot.val()
+        if (isInviteExpired({ expiresAt: invite.expiresAt ?? null })) {
+          setInviteStatus("expired")
+          return
+        }
+
+        const userSnapshot = await get(ref(database, `users/${invite.uid}`))
+        if (!userSnapshot.exists()) {
+          setInviteStatus("invalid")
+          return
+        }
+
+        const user = userSnapshot.val()
+        setInviter({
+          uid: invite.uid,
+          name: user.name || user.email?.split("@")[0] || "Unknown",
+          email: user.email,
+          username: user.username,
+          avatar: user.avatar,
+        })
+        setInviteStatus("ready")
+      } catch (error) {
+        console.error("Error loading invite link:", error)
+        setInviteStatus("invalid")
+      }
+    }
+
+    loadInvite()
+  }, [code, currentUser])
+
+  const handleAdd = async () => {
+    if (!currentUser || !inviter) return
+
+    setIsAdding(true)
+    try {
+      const outcome = await sendContactRequest(inviter, {
+        name: userProfile?.name || currentUser.email?.split("@")[0] || "Unknown",
+        email: currentUser.email || "",
+        avatar: userProfile?.avatar,
+      })
+      toast(getAddContactMessage(outcome, inviter.name))
+      router.push("/")
+    } catch (error) {
+      console.error("Error adding contact from invite:", error)
+      toast({
+        title: "Error",
+        description: "Failed to add contact. Please try again.",
+        variant: "destructive",
+      })
+      setIsAdding(false)
+    }
+  }
+
+  if (loading) {
+    return <LoadingScreen />
+  }
+
+  if (!currentUser || !userProfile) {
+    return <AuthScreen />
+  }
+
+  if (inviteStatus === "loading") {
+    return <LoadingScreen />
+  }
+
+  const isOwnInvite = inviter?.uid === currentUser.uid
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-black p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-sm rounded-2xl border border-border bg-card p-6 text-center text-card-foreground"
+      >
+        {inviteStatus === "ready" && inviter ? (
+          <>
+            <Avatar className="mx-auto h-20 w-20">
+              <AvatarImage src={inviter.avatar || "/placeholder.svg?height=80&width=80"} />
+              <AvatarFallback className="bg-muted text-2xl">{inviter.name.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <h1 className="mt-4 text-xl font-semibold">{inviter.name}</h1>
+            {inviter.username && <p className="text-sm text-primary">@{inviter.username}</p>}
+            <p className="mt-3 text-sm text-muted-foreground">
+              {isOwnInvite
+                ? "This is your own invite link. Share it so others can add you."
+                : `${inviter.name} invited you to connect. Add them as a contact?`}
+            </p>
+            <div className="mt-6 flex space-x-2">
+              <Button variant="outline" className="flex-1" onClick={() => router.push("/")}>
+                {isOwnInvite ? "Back to chats" : "Not now"}
+              </Button>
+              {!isOwnInvite && (
+                <Button className="flex-1" onClick={handleAdd} disabled={isAdding}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  {isAdding ? "Adding..." : "Add contact"}
+                </Button>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            <Link2Off className="mx-auto h-12 w-12 text-muted-foreground" />
+            <h1 className="mt-4 text-xl font-semibold">
+              {inviteStatus === "expired" ? "Invite link expired" : "Invite link not found"}
+            </h1>
+            <p className="mt-2 text-sm text-muted-foreground">Ask the person who shared it to send you a new link.</p>
+            <Button className="mt-6 w-full" onClick={() => router.push("/")}>
+              Back to chats
+            </Button>
+          </>
+        )}
+      </motion.div>
+    </div>
+  )
+}
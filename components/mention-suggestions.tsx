@@ -0,0 +1,57 @@
+"use client"
+
+import { motion, AnimatePresence } from "framer-motion"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { AtSign, Crown } from "lucide-react"
+
+export interface MentionSuggestion {
+  uid: string
+  name: string
+  isAll?: boolean
+  isAdmin?: boolean
+}
+
+interface MentionSuggestionsProps {
+  suggestions: MentionSuggestion[]
+  activeIndex: number
+  onSelect: (suggestion: MentionSuggestion) => void
+}
+
+export default function MentionSuggestions({ suggestions, activeIndex, onSelect }: MentionSuggestionsProps) {
+  return (
+    <AnimatePresence>
+      {suggestions.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 10 }}
+          className="absolute bottom-full left-0 right-0 mb-2 z-50 max-h-56 overflow-y-auto rounded-lg border border-border bg-card shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.uid}
+              type="button"
+              className={`flex w-full items-center space-x-3 px-3 py-2 text-left text-sm transition-colors ${
+                index === activeIndex ? "bg-accent" : "hover:bg-accent/50"
+              }`}
+              // Keep focus in the composer while picking a member
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onSelect(suggestion)}
+            >
+              <Avatar className="h-7 w-7">
+                <AvatarFallback className={suggestion.isAll ? "bg-primary text-primary-foreground" : "bg-muted"}>
+                  {suggestion.isAll ? <AtSign className="h-4 w-4" /> : suggestion.name.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{suggestion.isAll ? "@all" : suggestion.name}</p>
+                {suggestion.isAll && <p className="text-xs text-muted-foreground">Notify everyone in the group</p>}
+              </div>
+              {suggestion.isAdmin && <Crown className="h-3 w-3 text-yellow-500" />}
+            </button>
+          ))}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -2,7 +2,7 @@
 
 import { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
-import { Reply, Trash2, Copy } from "lucide-react"
+import { Reply, Trash2, Copy, Pencil, Forward, MessageSquare, Star, StarOff, Pin, PinOff, Info } from "lucide-react"
 import { useTheme } from "@/contexts/theme-context"
 
 const QUICK_REACTIONS = ["❤️", "😂", "😮", "😢", "😡", "👍", "👎", "🔥"]
@@ -13,8 +13,16 @@ interface MessageContextMenuProps {
   y: number
   message: any
   onReply: (message: any) => void
+  onOpenThread?: (message: any) => void
   onDelete?: (message: any) => void
   onCopy?: (message: any) => void
+  onEdit?: (message: any) => void
+  onForward?: (message: any) => void
+  onStar?: (message: any) => void
+  isStarred?: boolean
+  onPin?: (message: any) => void
+  isPinned?: boolean
+  onInfo?: (message: any) => void
   onReact?: (message: any, emoji: string) => void
   onClose: () => void
   currentUserId?: string
@@ -27,8 +35,16 @@ export default function MessageContextMenu({
   y,
   message,
   onReply,
+  onOpenThread,
   onDelete,
   onCopy,
+  onEdit,
+  onForward,
+  onStar,
+  isStarred = false,
+  onPin,
+  isPinned = false,
+  onInfo,
   onReact,
   onClose,
   currentUserId,
@@ -48,7 +64,9 @@ export default function MessageContextMenu({
   // Safe property access with fallbacks
   const isDeleted = message?.isDeleted || false
   const hasText = message?.text && typeof message.text === "string" && message.text.trim().length > 0
+  const isPoll = message?.type === "poll"
   const canDeleteMessage = canDelete && currentUserId && message?.senderUid === currentUserId && !isDeleted
+  const canEditMessage = currentUserId && message?.senderUid === currentUserId && !isDeleted && hasText && !message?.fileUrl && !isPoll
 
   // Adjust position if menu would go off screen
   useEffect(() => {
@@ -176,6 +194,31 @@ export default function MessageContextMenu({
           </Button>
         )}
 
+        {/* Thread option - opens the replies side panel */}
+        {onOpenThread && !isDeleted && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex w-full items-center justify-start gap-2 px-3 py-1.5 text-sm transition-colors"
+            style={{ color: getContextMenuStyles().color }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent"
+            }}
+            onClick={() => {
+              if (message) {
+                onOpenThread(message)
+              }
+              onClose()
+            }}
+          >
+            <MessageSquare className="h-4 w-4" />
+            {message?.replyCount ? "View Thread" : "Reply in Thread"}
+          </Button>
+        )}
+
         {/* Copy option - only show if message has text and is not deleted */}
         {onCopy && hasText && !isDeleted && (
           <Button
@@ -201,6 +244,131 @@ export default function MessageContextMenu({
           </Button>
         )}
 
+        {/* Forward option - only show if message is not deleted, polls stay in their chat */}
+        {onForward && !isDeleted && !isPoll && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex w-full items-center justify-start gap-2 px-3 py-1.5 text-sm transition-colors"
+            style={{ color: getContextMenuStyles().color }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent"
+            }}
+            onClick={() => {
+              if (message) {
+                onForward(message)
+              }
+              onClose()
+            }}
+          >
+            <Forward className="h-4 w-4" />
+            Forward
+          </Button>
+        )}
+
+        {/* Star option - saves the message to the user's starred collection */}
+        {onStar && !isDeleted && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex w-full items-center justify-start gap-2 px-3 py-1.5 text-sm transition-colors"
+            style={{ color: getContextMenuStyles().color }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent"
+            }}
+            onClick={() => {
+              if (message) {
+                onStar(message)
+              }
+              onClose()
+            }}
+          >
+            {isStarred ? <StarOff className="h-4 w-4" /> : <Star className="h-4 w-4" />}
+            {isStarred ? "Unstar" : "Star"}
+          </Button>
+        )}
+
+        {/* Pin option - shown only when the user may pin in this chat */}
+        {onPin && !isDeleted && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex w-full items-center justify-start gap-2 px-3 py-1.5 text-sm transition-colors"
+            style={{ color: getContextMenuStyles().color }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent"
+            }}
+            onClick={() => {
+              if (message) {
+                onPin(message)
+              }
+              onClose()
+            }}
+          >
+            {isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            {isPinned ? "Unpin" : "Pin"}
+          </Button>
+        )}
+
+        {/* Message info - delivery and read receipts for the user's own messages */}
+        {onInfo && currentUserId && message?.senderUid === currentUserId && !isDeleted && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex w-full items-center justify-start gap-2 px-3 py-1.5 text-sm transition-colors"
+            style={{ color: getContextMenuStyles().color }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent"
+            }}
+            onClick={() => {
+              if (message) {
+                onInfo(message)
+              }
+              onClose()
+            }}
+          >
+            <Info className="h-4 w-4" />
+            Message info
+          </Button>
+        )}
+
+        {/* Edit option - only the sender can edit their own text messages */}
+        {onEdit && canEditMessage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex w-full items-center justify-start gap-2 px-3 py-1.5 text-sm transition-colors"
+            style={{ color: getContextMenuStyles().color }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = getButtonHoverStyles().backgroundColor
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent"
+            }}
+            onClick={() => {
+              if (message) {
+                onEdit(message)
+              }
+              onClose()
+            }}
+          >
+            <Pencil className="h-4 w-4" />
+            Edit Message
+          </Button>
+        )}
+
         {/* Delete option - only show if user can delete */}
         {onDelete && canDeleteMessage && (
           <Button
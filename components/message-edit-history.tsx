@@ -0,0 +1,74 @@
+"use client"
+
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { History } from "lucide-react"
+
+interface MessageVersion {
+  text: string
+  timestamp: number
+}
+
+interface MessageEditHistoryProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  message: {
+    text: string
+    editedAt?: number
+    editHistory?: { [versionId: string]: MessageVersion }
+  } | null
+}
+
+export default function MessageEditHistory({ open, onOpenChange, message }: MessageEditHistoryProps) {
+  if (!message) return null
+
+  // Oldest version first, with the current text as the latest entry
+  const previousVersions = Object.values(message.editHistory || {}).sort((a, b) => a.timestamp - b.timestamp)
+  const versions: (MessageVersion & { isCurrent?: boolean })[] = [
+    ...previousVersions,
+    { text: message.text, timestamp: message.editedAt || 0, isCurrent: true },
+  ]
+
+  const formatVersionTime = (timestamp: number) => {
+    if (!timestamp) return ""
+    return new Date(timestamp).toLocaleString([], {
+      dateStyle: "medium",
+      timeStyle: "short",
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-border bg-card text-card-foreground max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-primary" />
+            <span>Edit History</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-80">
+          <div className="space-y-3 pr-2">
+            {versions
+              .slice()
+              .reverse()
+              .map((version, index) => (
+                <div
+                  key={`${version.timestamp}-${index}`}
+                  className={`rounded-lg p-3 ${version.isCurrent ? "bg-primary/10 border border-primary/30" : "bg-muted"}`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium text-muted-foreground">
+                      {version.isCurrent ? "Current" : index === versions.length - 1 ? "Original" : "Previous"}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{formatVersionTime(version.timestamp)}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap break-words">{version.text}</p>
+                </div>
+              ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
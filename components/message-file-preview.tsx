@@ -3,14 +3,26 @@
 import { useState, useRef, useEffect } from "react"
 import { File, Download, ImageIcon, Music, Video } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import VoiceNotePlayer from "./voice-note-player"
+import type { VoiceNote } from "@/lib/voice-notes"
 
 interface MessageFilePreviewProps {
   fileUrl: string
   fileType: string
   fileName: string
+  voiceNote?: VoiceNote
+  isListened?: boolean
+  onVoiceNotePlay?: () => void
 }
 
-export default function MessageFilePreview({ fileUrl, fileType, fileName }: MessageFilePreviewProps) {
+export default function MessageFilePreview({
+  fileUrl,
+  fileType,
+  fileName,
+  voiceNote,
+  isListened = false,
+  onVoiceNotePlay,
+}: MessageFilePreviewProps) {
   const [isLoading, setIsLoading] = useState(true)
   const [imageLoaded, setImageLoaded] = useState(false)
   const imageRef = useRef<HTMLImageElement>(null)
@@ -48,6 +60,15 @@ export default function MessageFilePreview({ fileUrl, fileType, fileName }: Mess
     }
   }
 
+  // Recorded voice notes get their own compact player instead of the generic audio element
+  if (fileType === "audio" && voiceNote) {
+    return (
+      <div className="mb-1 max-w-xs">
+        <VoiceNotePlayer fileUrl={fileUrl} voiceNote={voiceNote} isListened={isListened} onPlay={onVoiceNotePlay} />
+      </div>
+    )
+  }
+
   return (
     <div className="mb-2 max-w-xs overflow-hidden rounded-lg border border-gray-700 bg-gray-800">
       {fileType === "image" ? (
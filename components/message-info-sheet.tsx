@@ -0,0 +1,129 @@
+"use client"
+
+import type React from "react"
+
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Info, X, CheckCheck, Check, Clock } from "lucide-react"
+
+export interface MessageInfoRecipient {
+  uid: string
+  name: string
+  avatar?: string
+  deliveredAt?: number
+  readAt?: number
+}
+
+interface MessageInfoSheetProps {
+  isOpen: boolean
+  onClose: () => void
+  message: { text: string; fileName?: string; timestamp: number } | null
+  recipients: MessageInfoRecipient[]
+}
+
+export default function MessageInfoSheet({ isOpen, onClose, message, recipients }: MessageInfoSheetProps) {
+  const readBy = recipients.filter((r) => r.readAt).sort((a, b) => (b.readAt || 0) - (a.readAt || 0))
+  const deliveredTo = recipients
+    .filter((r) => r.deliveredAt && !r.readAt)
+    .sort((a, b) => (b.deliveredAt || 0) - (a.deliveredAt || 0))
+  const pending = recipients.filter((r) => !r.deliveredAt && !r.readAt)
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString([], {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  const renderSection = (
+    title: string,
+    icon: React.ReactNode,
+    entries: MessageInfoRecipient[],
+    getTime: (recipient: MessageInfoRecipient) => number | undefined,
+  ) => {
+    if (entries.length === 0) return null
+
+    return (
+      <div className="space-y-2">
+        <h4 className="flex items-center space-x-2 text-sm font-medium text-muted-foreground">
+          {icon}
+          <span>
+            {title} ({entries.length})
+          </span>
+        </h4>
+        {entries.map((recipient) => {
+          const time = getTime(recipient)
+          return (
+            <div key={recipient.uid} className="flex items-center space-x-3 rounded-lg p-2 hover:bg-muted">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={recipient.avatar || "/placeholder.svg?height=32&width=32"} />
+                <AvatarFallback className="bg-muted text-xs">{recipient.name.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="flex-1 truncate text-sm">{recipient.name}</span>
+              {time && <span className="text-xs text-muted-foreground">{formatTime(time)}</span>}
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent
+        side="right"
+        className="w-full sm:max-w-md bg-card border-border text-card-foreground flex flex-col h-full overflow-hidden p-0"
+      >
+        <SheetHeader className="flex-shrink-0 p-4 border-b border-border">
+          <div className="flex items-center justify-between">
+            <SheetTitle className="flex items-center space-x-2 text-card-foreground">
+              <Info className="h-5 w-5 text-primary" />
+              <span>Message Info</span>
+            </SheetTitle>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </SheetHeader>
+
+        {message && (
+          <ScrollArea className="flex-1">
+            <div className="space-y-6 p-4">
+              <div className="rounded-lg border-l-2 border-primary bg-muted p-3">
+                <p className="text-sm line-clamp-4 whitespace-pre-wrap break-words">
+                  {message.text || (message.fileName ? `📎 ${message.fileName}` : "File")}
+                </p>
+                <p className="mt-1 text-xs text-muted-foreground">Sent {formatTime(message.timestamp)}</p>
+              </div>
+
+              {renderSection(
+                "Read by",
+                <CheckCheck className="h-4 w-4 text-sky-400" />,
+                readBy,
+                (recipient) => recipient.readAt,
+              )}
+              {renderSection(
+                "Delivered to",
+                <CheckCheck className="h-4 w-4" />,
+                deliveredTo,
+                (recipient) => recipient.deliveredAt,
+              )}
+              {renderSection("Not delivered yet", <Check className="h-4 w-4" />, pending, () => undefined)}
+
+              {recipients.length === 0 && (
+                <div className="flex flex-col items-center py-8 text-center text-muted-foreground">
+                  <Clock className="h-8 w-8 mb-2 opacity-50" />
+                  <p className="text-sm">No one else is in this conversation</p>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
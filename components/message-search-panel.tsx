@@ -0,0 +1,330 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { motion } from "framer-motion"
+import { ref, get } from "firebase/database"
+import { format } from "date-fns"
+import type { DateRange } from "react-day-picker"
+import { database } from "@/lib/firebase"
+import { isHiddenByBlock } from "@/lib/moderation"
+import { useChat } from "@/contexts/chat-context"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CalendarIcon, Paperclip, Users, User, X, Loader2, ChevronDown } from "lucide-react"
+import {
+  DEFAULT_SEARCH_FILTERS,
+  getSearchSnippet,
+  matchesMessageSearch,
+  type MessageSearchFilters,
+  type SearchableMessage,
+} from "@/lib/message-search"
+
+const RESULTS_PER_CONVERSATION = 5
+const ANY_SENDER = "anyone"
+
+interface SearchContact {
+  id: string
+  name: string
+}
+
+interface SearchGroup {
+  id: string
+  name: string
+  members: { [uid: string]: { name: string } }
+}
+
+interface IndexedMessage extends SearchableMessage {
+  senderName?: string
+}
+
+interface IndexedConversation {
+  id: string
+  name: string
+  isGroup: boolean
+  messages: IndexedMessage[]
+}
+
+export interface MessageSearchResult {
+  conversationId: string
+  isGroup: boolean
+  messageId: string
+}
+
+interface MessageSearchPanelProps {
+  searchQuery: string
+  currentUserId: string
+  contacts: SearchContact[]
+  groups: SearchGroup[]
+  onSelectResult: (result: MessageSearchResult) => void
+}
+
+// Same chat id scheme as the chat context
+const getChatId = (uid1: string, uid2: string) => (uid1 > uid2 ? `${uid1}-${uid2}` : `${uid2}-${uid1}`)
+
+export default function MessageSearchPanel({
+  searchQuery,
+  currentUserId,
+  contacts,
+  groups,
+  onSelectResult,
+}: MessageSearchPanelProps) {
+  const { blockedUsers } = useChat()
+  const [conversations, setConversations] = useState<IndexedConversation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [filters, setFilters] = useState<MessageSearchFilters>(DEFAULT_SEARCH_FILTERS)
+  const [expandedConversations, setExpandedConversations] = useState<Set<string>>(new Set())
+
+  const conversationKey = [...contacts.map((c) => c.id), ...groups.map((g) => g.id)].join(",")
+
+  // Realtime Database has no text search, so pull every conversation once and search it locally
+  useEffect(() => {
+    if (!currentUserId) return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    const loadConversation = async (path: string) => {
+      const snapshot = await get(ref(database, path))
+      if (!snapshot.exists()) return []
+
+      const messagesData = snapshot.val()
+      return (
+        Object.keys(messagesData)
+          .map((key) => {
+            const msgData = messagesData[key]
+            return {
+              id: key,
+              ...msgData,
+              text: msgData.text || "",
+              timestamp: typeof msgData.timestamp === "number" ? msgData.timestamp : msgData.clientTimestamp || 0,
+            } as IndexedMessage
+          })
+          // Messages a blocked user sent us were never delivered, so they can't be found either
+          .filter((message) => !isHiddenByBlock(message, currentUserId, blockedUsers))
+      )
+    }
+
+    Promise.all([
+      ...contacts.map(async (contact) => ({
+        id: contact.id,
+        name: contact.name,
+        isGroup: false,
+        messages: await loadConversation(`messages/${getChatId(currentUserId, contact.id)}`),
+      })),
+      ...groups.map(async (group) => ({
+        id: group.id,
+        name: group.name,
+        isGroup: true,
+        messages: await loadConversation(`groupMessages/${group.id}`),
+      })),
+    ])
+      .then((loaded) => {
+        if (!cancelled) setConversations(loaded)
+      })
+      .catch((error) => {
+        console.error("Error loading messages for search:", error)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentUserId, conversationKey, blockedUsers])
+
+  // Everyone who could have sent a message in a searchable conversation
+  const senderOptions = new Map<string, string>([[currentUserId, "Me"]])
+  contacts.forEach((contact) => senderOptions.set(contact.id, contact.name))
+  groups.forEach((group) =>
+    Object.entries(group.members).forEach(([uid, member]) => {
+      if (!senderOptions.has(uid)) senderOptions.set(uid, member.name)
+    }),
+  )
+
+  const results = conversations
+    .map((conversation) => ({
+      ...conversation,
+      messages: conversation.messages
+        .filter((message) => matchesMessageSearch(message, searchQuery, filters, currentUserId))
+        .sort((a, b) => b.timestamp - a.timestamp),
+    }))
+    .filter((conversation) => conversation.messages.length > 0)
+    .sort((a, b) => b.messages[0].timestamp - a.messages[0].timestamp)
+
+  const totalResults = results.reduce((sum, conversation) => sum + conversation.messages.length, 0)
+
+  const getSenderName = (conversation: IndexedConversation, message: IndexedMessage) => {
+    if (message.senderUid === currentUserId) return "You"
+    if (conversation.isGroup) return message.senderName || senderOptions.get(message.senderUid) || "Unknown"
+    return conversation.name
+  }
+
+  const dateRange: DateRange | undefined = filters.from ? { from: filters.from, to: filters.to } : undefined
+  const hasActiveFilters = !!filters.senderUid || !!filters.from || filters.hasAttachment
+
+  const toggleExpanded = (conversationId: string) => {
+    setExpandedConversations((prev) => {
+      const next = new Set(prev)
+      if (next.has(conversationId)) {
+        next.delete(conversationId)
+      } else {
+        next.add(conversationId)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={filters.senderUid || ANY_SENDER}
+          onValueChange={(value) => setFilters((prev) => ({ ...prev, senderUid: value === ANY_SENDER ? null : value }))}
+        >
+          <SelectTrigger className="h-8 w-auto min-w-[110px] border-border bg-background text-xs">
+            <SelectValue placeholder="From anyone" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_SENDER}>From anyone</SelectItem>
+            {Array.from(senderOptions.entries()).map(([uid, name]) => (
+              <SelectItem key={uid} value={uid}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 border-border text-xs">
+              <CalendarIcon className="h-3 w-3 mr-1" />
+              {filters.from
+                ? `${format(filters.from, "MMM d")}${filters.to ? ` – ${format(filters.to, "MMM d")}` : ""}`
+                : "Any date"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={dateRange}
+              onSelect={(range: DateRange | undefined) =>
+                setFilters((prev) => ({ ...prev, from: range?.from, to: range?.to }))
+              }
+              disabled={{ after: new Date() }}
+            />
+          </PopoverContent>
+        </Popover>
+
+        <Button
+          variant={filters.hasAttachment ? "default" : "outline"}
+          size="sm"
+          className="h-8 border-border text-xs"
+          onClick={() => setFilters((prev) => ({ ...prev, hasAttachment: !prev.hasAttachment }))}
+        >
+          <Paperclip className="h-3 w-3 mr-1" />
+          Has attachment
+        </Button>
+
+        {hasActiveFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => setFilters(DEFAULT_SEARCH_FILTERS)}
+          >
+            <X className="h-3 w-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {/* Results */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Searching messages...
+        </div>
+      ) : results.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">No messages found</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs font-medium text-muted-foreground">
+            {totalResults} {totalResults === 1 ? "message" : "messages"} in {results.length}{" "}
+            {results.length === 1 ? "chat" : "chats"}
+          </p>
+
+          {results.map((conversation) => {
+            const isExpanded = expandedConversations.has(conversation.id)
+            const visibleMessages = isExpanded
+              ? conversation.messages
+              : conversation.messages.slice(0, RESULTS_PER_CONVERSATION)
+
+            return (
+              <div key={conversation.id} className="rounded-lg border border-border">
+                <div className="flex items-center space-x-2 border-b border-border px-3 py-2">
+                  {conversation.isGroup ? (
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <User className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <span className="flex-1 truncate text-sm font-medium">{conversation.name}</span>
+                  <span className="text-xs text-muted-foreground">{conversation.messages.length}</span>
+                </div>
+
+                {visibleMessages.map((message) => {
+                  const body = message.text || (message.fileName ? `📎 ${message.fileName}` : "File")
+                  const snippet = getSearchSnippet(body, searchQuery)
+
+                  return (
+                    <motion.button
+                      key={message.id}
+                      type="button"
+                      className="block w-full px-3 py-2 text-left transition-colors hover:bg-muted"
+                      onClick={() =>
+                        onSelectResult({
+                          conversationId: conversation.id,
+                          isGroup: conversation.isGroup,
+                          messageId: message.id,
+                        })
+                      }
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span className="truncate">{getSenderName(conversation, message)}</span>
+                        <span className="ml-2 flex-shrink-0">{format(message.timestamp, "MMM d, yyyy")}</span>
+                      </div>
+                      <p className="truncate text-sm">
+                        {snippet.before}
+                        {snippet.match && (
+                          <mark className="rounded bg-yellow-300/60 px-0.5 text-inherit dark:bg-yellow-500/40">
+                            {snippet.match}
+                          </mark>
+                        )}
+                        {snippet.after}
+                      </p>
+                    </motion.button>
+                  )
+                })}
+
+                {conversation.messages.length > RESULTS_PER_CONVERSATION && (
+                  <button
+                    type="button"
+                    className="flex w-full items-center justify-center py-1.5 text-xs text-muted-foreground hover:text-foreground"
+                    onClick={() => toggleExpanded(conversation.id)}
+                  >
+                    <ChevronDown className={`h-3 w-3 mr-1 transition-transform ${isExpanded ? "rotate-180" : ""}`} />
+                    {isExpanded ? "Show less" : `Show ${conversation.messages.length - RESULTS_PER_CONVERSATION} more`}
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,75 +3,85 @@
 import { useState, useEffect } from "react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
-import { WifiOff, X } from "lucide-react"
+import { useChat } from "@/contexts/chat-context"
+import { AlertCircle, Loader2, WifiOff, X } from "lucide-react"
 
+// Connection and outbox status, driven by Firebase's connection state and the queued messages
 export default function OfflineModeBanner() {
-  const [dismissed, setDismissed] = useState(true)
-  const [isOffline, setIsOffline] = useState(false)
+  const { isConnected, pendingMessages, retryPendingMessage } = useChat()
+  const [dismissed, setDismissed] = useState(false)
 
-  useEffect(() => {
-    // Check if we're having Firebase permission issues
-    const checkFirebasePermission = async () => {
-      try {
-        // We'll set a timeout to avoid waiting too long
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error("Timeout")), 3000)
-        })
+  const queuedCount = pendingMessages.filter((m) => m.status === "queued" || m.status === "sending").length
+  const failedMessages = pendingMessages.filter((m) => m.status === "failed")
 
-        // This is just a simple check that will fail if permissions are wrong
-        const testFetch = fetch("https://www.googleapis.com/identitytoolkit/v3/relyingparty/getAccountInfo")
+  // Show the banner again whenever the connection drops
+  useEffect(() => {
+    if (!isConnected) setDismissed(false)
+  }, [isConnected])
 
-        await Promise.race([testFetch, timeoutPromise])
-        setIsOffline(false)
-      } catch (error) {
-        console.log("Firebase permission check failed, assuming offline mode")
-        setIsOffline(true)
-      }
-    }
+  const pluralize = (count: number) => `${count} ${count === 1 ? "message" : "messages"}`
 
-    checkFirebasePermission()
-  }, [])
+  if (!isConnected) {
+    if (dismissed) return null
 
-  if (dismissed || !isOffline) return null
+    return (
+      <Alert className="mx-4 mt-4 w-auto border-blue-600 bg-blue-950/30 text-blue-200">
+        <div className="flex items-start justify-between">
+          <div className="flex items-start">
+            <WifiOff className="mt-1 h-4 w-4" />
+            <div className="ml-2">
+              <AlertTitle className="font-semibold">You're offline</AlertTitle>
+              <AlertDescription className="mt-1 text-sm">
+                {queuedCount > 0
+                  ? `${pluralize(queuedCount)} will be sent in order when the connection returns.`
+                  : "Messages you send now will be queued and sent when the connection returns."}
+              </AlertDescription>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-blue-200 hover:bg-blue-900/50"
+            onClick={() => setDismissed(true)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </Alert>
+    )
+  }
 
-  return (
-    <Alert className="mx-4 mt-4 border-blue-600 bg-blue-950/30 text-blue-200">
-      <div className="flex items-start justify-between">
-        <div className="flex items-start">
-          <WifiOff className="mt-1 h-4 w-4" />
-          <div className="ml-2">
-            <AlertTitle className="text-lg font-semibold">Limited Functionality Mode</AlertTitle>
-            <AlertDescription className="mt-2">
-              <p>
-                The app is currently running with limited functionality due to Firebase permission issues. Some features
-                like message history and contact synchronization may not work properly.
-              </p>
-              <p className="mt-2">
-                You can still use basic features like adding contacts and sending messages, but they may not be saved
-                permanently.
-              </p>
-              <div className="mt-4 flex justify-end">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="border-blue-600/50 bg-transparent text-blue-200 hover:bg-blue-900/50"
-                  onClick={() => setDismissed(true)}
-                >
-                  Dismiss
-                </Button>
-              </div>
+  if (failedMessages.length > 0) {
+    return (
+      <Alert variant="destructive" className="mx-4 mt-4 w-auto">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="ml-2 text-sm">
+              {pluralize(failedMessages.length)} couldn't be sent
             </AlertDescription>
           </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-destructive/50 bg-transparent"
+            onClick={() => failedMessages.forEach((message) => retryPendingMessage(message.id))}
+          >
+            Retry all
+          </Button>
         </div>
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-8 w-8 text-blue-200 hover:bg-blue-900/50"
-          onClick={() => setDismissed(true)}
-        >
-          <X className="h-4 w-4" />
-        </Button>
+      </Alert>
+    )
+  }
+
+  if (queuedCount > 0) {
+    return (
+      <div className="flex items-center px-4 py-2 text-xs text-muted-foreground border-b border-border">
+        <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+        Sending {pluralize(queuedCount)}...
       </div>
-    </Alert>
-  )
+    )
+  }
+
+  return null
 }
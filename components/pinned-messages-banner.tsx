@@ -0,0 +1,122 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { Button } from "@/components/ui/button"
+import { Pin, PinOff, ChevronDown } from "lucide-react"
+
+export const MAX_PINNED_MESSAGES = 3
+
+export interface PinnedMessage {
+  messageId: string
+  text: string
+  fileName?: string | null
+  senderUid: string
+  senderName: string
+  pinnedBy: string
+  pinnedAt: number
+}
+
+interface PinnedMessagesBannerProps {
+  pins: PinnedMessage[]
+  canUnpin: boolean
+  onJumpToMessage: (messageId: string) => void
+  onUnpin: (messageId: string) => void
+}
+
+export default function PinnedMessagesBanner({ pins, canUnpin, onJumpToMessage, onUnpin }: PinnedMessagesBannerProps) {
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  // Keep the cycling index valid as pins are added or removed
+  useEffect(() => {
+    if (activeIndex >= pins.length) setActiveIndex(0)
+  }, [pins.length, activeIndex])
+
+  if (pins.length === 0) return null
+
+  const activePin = pins[Math.min(activeIndex, pins.length - 1)]
+  const getPreview = (pin: PinnedMessage) => pin.text || (pin.fileName ? `📎 ${pin.fileName}` : "File")
+
+  // Each tap jumps to the shown pin, then moves on to the next one
+  const handleBannerClick = () => {
+    onJumpToMessage(activePin.messageId)
+    setActiveIndex((prev) => (prev + 1) % pins.length)
+  }
+
+  return (
+    <div className="flex-shrink-0 border-b border-border bg-card/95">
+      <div className="flex items-center px-4 py-2">
+        {/* One segment per pin, highlighting the one currently shown */}
+        <div className="mr-3 flex h-8 flex-col justify-between">
+          {pins.map((pin, index) => (
+            <span
+              key={pin.messageId}
+              className={`w-0.5 flex-1 rounded-full ${index === activeIndex ? "bg-primary" : "bg-muted-foreground/30"} ${
+                index > 0 ? "mt-0.5" : ""
+              }`}
+            />
+          ))}
+        </div>
+
+        <button type="button" className="flex-1 min-w-0 text-left" onClick={handleBannerClick}>
+          <p className="flex items-center text-xs font-medium text-primary">
+            <Pin className="h-3 w-3 mr-1" />
+            Pinned message{pins.length > 1 && ` ${activeIndex + 1} of ${pins.length}`}
+          </p>
+          <p className="truncate text-sm text-muted-foreground">{getPreview(activePin)}</p>
+        </button>
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          aria-label={isExpanded ? "Collapse pinned messages" : "Show all pinned messages"}
+        >
+          <motion.div animate={{ rotate: isExpanded ? 180 : 0 }}>
+            <ChevronDown className="h-4 w-4" />
+          </motion.div>
+        </Button>
+      </div>
+
+      <AnimatePresence>
+        {isExpanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden border-t border-border"
+          >
+            {pins.map((pin) => (
+              <div key={pin.messageId} className="flex items-center px-4 py-2 hover:bg-muted">
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => {
+                    onJumpToMessage(pin.messageId)
+                    setIsExpanded(false)
+                  }}
+                >
+                  <p className="text-xs font-medium">{pin.senderName}</p>
+                  <p className="truncate text-sm text-muted-foreground">{getPreview(pin)}</p>
+                </button>
+                {canUnpin && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground"
+                    onClick={() => onUnpin(pin.messageId)}
+                    aria-label="Unpin message"
+                  >
+                    <PinOff className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
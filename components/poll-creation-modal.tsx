@@ -0,0 +1,171 @@
+"use client"
+
+import { useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { BarChart, Plus, X } from "lucide-react"
+import { MAX_POLL_OPTIONS, MIN_POLL_OPTIONS, type Poll } from "@/lib/polls"
+
+type NewPoll = Pick<Poll, "question" | "options" | "allowMultiple" | "anonymous" | "closesAt">
+
+interface PollCreationModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCreatePoll: (poll: NewPoll) => Promise<void>
+}
+
+export default function PollCreationModal({ open, onOpenChange, onCreatePoll }: PollCreationModalProps) {
+  const [question, setQuestion] = useState("")
+  const [options, setOptions] = useState<string[]>(["", ""])
+  const [allowMultiple, setAllowMultiple] = useState(false)
+  const [anonymous, setAnonymous] = useState(false)
+  const [closesAt, setClosesAt] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+
+  const filledOptions = options.map((option) => option.trim()).filter(Boolean)
+  const closesAtTime = closesAt ? new Date(closesAt).getTime() : null
+  const canCreate =
+    question.trim().length > 0 &&
+    filledOptions.length >= MIN_POLL_OPTIONS &&
+    filledOptions.length <= MAX_POLL_OPTIONS &&
+    (!closesAtTime || closesAtTime > Date.now())
+
+  const resetForm = () => {
+    setQuestion("")
+    setOptions(["", ""])
+    setAllowMultiple(false)
+    setAnonymous(false)
+    setClosesAt("")
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) resetForm()
+    onOpenChange(isOpen)
+  }
+
+  const updateOption = (index: number, value: string) => {
+    setOptions((prev) => prev.map((option, i) => (i === index ? value : option)))
+  }
+
+  const removeOption = (index: number) => {
+    setOptions((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  const handleCreate = async () => {
+    if (!canCreate) return
+
+    setIsCreating(true)
+    try {
+      await onCreatePoll({
+        question: question.trim(),
+        options: filledOptions.map((text, index) => ({ id: `option${index}`, text })),
+        allowMultiple,
+        anonymous,
+        closesAt: closesAtTime,
+      })
+      handleOpenChange(false)
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="border-border bg-card text-card-foreground max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <BarChart className="h-5 w-5 text-primary" />
+            <span>Create Poll</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="poll-question">Question</Label>
+            <Input
+              id="poll-question"
+              placeholder="Ask a question..."
+              className="border-border bg-background"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Options ({filledOptions.length}/{MAX_POLL_OPTIONS})
+            </Label>
+            <ScrollArea className="max-h-56 overflow-y-auto">
+              <div className="space-y-2 pr-2">
+                {options.map((option, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <Input
+                      placeholder={`Option ${index + 1}`}
+                      className="border-border bg-background"
+                      value={option}
+                      onChange={(e) => updateOption(index, e.target.value)}
+                    />
+                    {options.length > MIN_POLL_OPTIONS && (
+                      <Button variant="ghost" size="icon" onClick={() => removeOption(index)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            {options.length < MAX_POLL_OPTIONS && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-border"
+                onClick={() => setOptions((prev) => [...prev, ""])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add option
+              </Button>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="poll-multiple">Allow multiple answers</Label>
+            <Switch id="poll-multiple" checked={allowMultiple} onCheckedChange={setAllowMultiple} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="poll-anonymous">Anonymous voting</Label>
+            <Switch id="poll-anonymous" checked={anonymous} onCheckedChange={setAnonymous} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="poll-closes-at">Close automatically (optional)</Label>
+            <Input
+              id="poll-closes-at"
+              type="datetime-local"
+              className="border-border bg-background"
+              value={closesAt}
+              onChange={(e) => setClosesAt(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)} className="border-border">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={!canCreate || isCreating}
+              className="bg-primary text-primary-foreground hover:bg-primary/90"
+            >
+              {isCreating ? "Sending..." : "Send Poll"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,133 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { motion } from "framer-motion"
+import { BarChart, Check, Lock } from "lucide-react"
+import { getPollVoteKey, isPollClosed, tallyPoll, type Poll } from "@/lib/polls"
+
+interface PollMessageProps {
+  poll: Poll
+  currentUserId: string
+  // The user's ballot id for this poll, when it is anonymous and they have voted
+  ballotKey?: string
+  canClose: boolean
+  onVote: (optionIds: string[]) => void
+  onClose: () => void
+}
+
+export default function PollMessage({ poll, currentUserId, ballotKey, canClose, onVote, onClose }: PollMessageProps) {
+  const [now, setNow] = useState(Date.now())
+
+  // Re-render when the scheduled close time passes so voting locks without a refresh
+  useEffect(() => {
+    if (!poll.closesAt || poll.closedAt || poll.closesAt <= Date.now()) return
+
+    const timeout = setTimeout(() => setNow(Date.now()), poll.closesAt - Date.now())
+    return () => clearTimeout(timeout)
+  }, [poll.closesAt, poll.closedAt])
+
+  const closed = isPollClosed(poll, now)
+  const { counts, voterCount } = tallyPoll(poll)
+  const myVoteKey = getPollVoteKey(poll, currentUserId, ballotKey)
+  const myOptions = Object.keys((myVoteKey && poll.votes?.[myVoteKey]?.options) || {})
+
+  const handleOptionClick = (optionId: string) => {
+    if (closed) return
+
+    if (poll.allowMultiple) {
+      onVote(myOptions.includes(optionId) ? myOptions.filter((id) => id !== optionId) : [...myOptions, optionId])
+    } else {
+      // Tapping the current choice again retracts the vote
+      onVote(myOptions.includes(optionId) ? [] : [optionId])
+    }
+  }
+
+  const getVoterNames = (optionId: string) =>
+    Object.values(poll.votes || {})
+      .filter((vote) => vote.options?.[optionId] && vote.name)
+      .map((vote) => vote.name)
+
+  return (
+    <div className="min-w-[220px] space-y-2">
+      <div className="flex items-start space-x-2">
+        <BarChart className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <p className="text-sm font-medium break-words">{poll.question}</p>
+      </div>
+
+      <p className="text-xs opacity-70">
+        {poll.allowMultiple ? "Select one or more" : "Select one"}
+        {poll.anonymous && " · Anonymous"}
+      </p>
+
+      <div className="space-y-2">
+        {poll.options.map((option) => {
+          const count = counts[option.id] || 0
+          const percentage = voterCount > 0 ? Math.round((count / voterCount) * 100) : 0
+          const isSelected = myOptions.includes(option.id)
+          const voterNames = poll.anonymous ? [] : getVoterNames(option.id)
+
+          return (
+            <button
+              key={option.id}
+              type="button"
+              disabled={closed}
+              className="block w-full text-left disabled:cursor-default"
+              onClick={() => handleOptionClick(option.id)}
+              title={voterNames.join(", ")}
+            >
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="flex items-center min-w-0">
+                  <span
+                    className={`flex h-4 w-4 flex-shrink-0 items-center justify-center border border-current mr-2 ${
+                      poll.allowMultiple ? "rounded" : "rounded-full"
+                    } ${isSelected ? "bg-current" : ""}`}
+                  >
+                    {isSelected && <Check className="h-3 w-3 text-background" />}
+                  </span>
+                  <span className="truncate">{option.text}</span>
+                </span>
+                <span className="text-xs opacity-70 ml-2">{count}</span>
+              </div>
+              <div className="h-1.5 w-full rounded-full bg-black/10 dark:bg-white/10 overflow-hidden">
+                <motion.div
+                  className="h-full rounded-full bg-current opacity-70"
+                  initial={false}
+                  animate={{ width: `${percentage}%` }}
+                  transition={{ duration: 0.3 }}
+                />
+              </div>
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-between text-xs opacity-70">
+        <span>
+          {voterCount} {voterCount === 1 ? "vote" : "votes"}
+        </span>
+        {closed ? (
+          <span className="flex items-center">
+            <Lock className="h-3 w-3 mr-1" />
+            Poll closed
+          </span>
+        ) : poll.closesAt ? (
+          <span>
+            Closes{" "}
+            {new Date(poll.closesAt).toLocaleString([], {
+              month: "short",
+              day: "numeric",
+              hour: "2-digit",
+              minute: "2-digit",
+            })}
+          </span>
+        ) : null}
+      </div>
+
+      {canClose && !closed && (
+        <button type="button" className="text-xs font-medium hover:underline" onClick={onClose}>
+          Close poll
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Flag } from "lucide-react"
+import { REPORT_REASONS, REPORT_SNAPSHOT_SIZE, type ReportReason } from "@/lib/moderation"
+
+interface ReportContactDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  contactName: string
+  // Hides the "also block" option when the contact is already blocked
+  isBlocked: boolean
+  onReport: (reason: ReportReason, details: string, alsoBlock: boolean) => Promise<void>
+}
+
+export default function ReportContactDialog({
+  open,
+  onOpenChange,
+  contactName,
+  isBlocked,
+  onReport,
+}: ReportContactDialogProps) {
+  const [reason, setReason] = useState<ReportReason>("spam")
+  const [details, setDetails] = useState("")
+  const [alsoBlock, setAlsoBlock] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setReason("spam")
+    setDetails("")
+    setAlsoBlock(true)
+  }, [open])
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      await onReport(reason, details, alsoBlock && !isBlocked)
+      onOpenChange(false)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-border bg-card text-card-foreground max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Flag className="h-5 w-5 text-red-500" />
+            <span>Report {contactName}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <p className="text-sm text-muted-foreground">
+            The last {REPORT_SNAPSHOT_SIZE} messages in this chat will be sent to our moderators along with your report.
+            {contactName} won't be told who reported them.
+          </p>
+
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)} className="space-y-1">
+            {REPORT_REASONS.map((option) => (
+              <div key={option.value} className="flex items-center space-x-3 rounded-lg px-2 py-2 hover:bg-muted">
+                <RadioGroupItem value={option.value} id={`report-reason-${option.value}`} />
+                <Label htmlFor={`report-reason-${option.value}`} className="flex-1 cursor-pointer">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <Textarea
+            placeholder="Add details (optional)"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            className="border-border bg-background"
+            rows={3}
+          />
+
+          {!isBlocked && (
+            <div className="flex items-center space-x-3">
+              <Checkbox
+                id="report-also-block"
+                checked={alsoBlock}
+                onCheckedChange={(checked) => setAlsoBlock(checked === true)}
+              />
+              <Label htmlFor="report-also-block" className="cursor-pointer font-normal">
+                Also block {contactName}
+              </Label>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="border-border">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting} variant="destructive">
+              {isSubmitting ? "Reporting..." : "Report"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { format } from "date-fns"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Clock } from "lucide-react"
+
+interface ScheduleMessageDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  messageText: string
+  // Existing send time when rescheduling
+  initialSendAt?: number
+  onSchedule: (sendAt: number) => Promise<void>
+}
+
+const toInputValue = (timestamp: number) => format(timestamp, "yyyy-MM-dd'T'HH:mm")
+
+const getPresets = () => {
+  const inOneHour = Date.now() + 60 * 60 * 1000
+  const tomorrowMorning = new Date()
+  tomorrowMorning.setDate(tomorrowMorning.getDate() + 1)
+  tomorrowMorning.setHours(9, 0, 0, 0)
+
+  return [
+    { label: "In 1 hour", value: inOneHour },
+    { label: "Tomorrow, 9:00", value: tomorrowMorning.getTime() },
+  ]
+}
+
+export default function ScheduleMessageDialog({
+  open,
+  onOpenChange,
+  messageText,
+  initialSendAt,
+  onSchedule,
+}: ScheduleMessageDialogProps) {
+  const [sendAt, setSendAt] = useState("")
+  const [isScheduling, setIsScheduling] = useState(false)
+
+  // Start from the current schedule, or an hour from now for new messages
+  useEffect(() => {
+    if (open) setSendAt(toInputValue(initialSendAt || Date.now() + 60 * 60 * 1000))
+  }, [open, initialSendAt])
+
+  const sendAtTime = sendAt ? new Date(sendAt).getTime() : 0
+  const isValidTime = sendAtTime > Date.now()
+
+  const handleSchedule = async () => {
+    if (!isValidTime) return
+
+    setIsScheduling(true)
+    try {
+      await onSchedule(sendAtTime)
+      onOpenChange(false)
+    } finally {
+      setIsScheduling(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-border bg-card text-card-foreground max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Clock className="h-5 w-5 text-primary" />
+            <span>{initialSendAt ? "Reschedule Message" : "Send Later"}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="rounded-lg border-l-2 border-primary bg-muted p-2">
+            <p className="text-sm line-clamp-3 whitespace-pre-wrap break-words">{messageText}</p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {getPresets().map((preset) => (
+              <Button
+                key={preset.label}
+                variant="outline"
+                size="sm"
+                className="border-border"
+                onClick={() => setSendAt(toInputValue(preset.value))}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-send-at">Send at</Label>
+            <Input
+              id="schedule-send-at"
+              type="datetime-local"
+              className="border-border bg-background"
+              min={toInputValue(Date.now())}
+              value={sendAt}
+              onChange={(e) => setSendAt(e.target.value)}
+            />
+            {sendAt && !isValidTime && <p className="text-xs text-destructive">Pick a time in the future</p>}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="border-border">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSchedule}
+              disabled={!isValidTime || isScheduling}
+              className="bg-primary text-primary-foreground hover:bg-primary/90"
+            >
+              {isScheduling ? "Scheduling..." : initialSendAt ? "Reschedule" : "Schedule"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
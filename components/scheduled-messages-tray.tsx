@@ -0,0 +1,142 @@
+"use client"
+
+import { useState } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { Button } from "@/components/ui/button"
+import { Clock, ChevronDown, Pencil, CalendarClock, Trash2, Check, X, AlertCircle } from "lucide-react"
+import type { ScheduledMessage } from "@/lib/scheduled-messages"
+
+interface ScheduledMessagesTrayProps {
+  scheduledMessages: ScheduledMessage[]
+  onUpdateText: (scheduled: ScheduledMessage, text: string) => Promise<void>
+  onReschedule: (scheduled: ScheduledMessage) => void
+  onCancel: (scheduled: ScheduledMessage) => Promise<void>
+}
+
+export default function ScheduledMessagesTray({
+  scheduledMessages,
+  onUpdateText,
+  onReschedule,
+  onCancel,
+}: ScheduledMessagesTrayProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState("")
+
+  if (scheduledMessages.length === 0) return null
+
+  const formatSendAt = (timestamp: number) =>
+    new Date(timestamp).toLocaleString([], {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+
+  const handleSaveEdit = async (scheduled: ScheduledMessage) => {
+    if (!editText.trim()) return
+    await onUpdateText(scheduled, editText.trim())
+    setEditingId(null)
+  }
+
+  return (
+    <div className="border-t border-border bg-muted/50">
+      <button
+        type="button"
+        className="flex w-full items-center justify-between px-4 py-2 text-sm"
+        onClick={() => setIsExpanded((prev) => !prev)}
+      >
+        <span className="flex items-center text-primary font-medium">
+          <Clock className="h-4 w-4 mr-2" />
+          {scheduledMessages.length} scheduled {scheduledMessages.length === 1 ? "message" : "messages"}
+        </span>
+        <motion.div animate={{ rotate: isExpanded ? 180 : 0 }}>
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        </motion.div>
+      </button>
+
+      <AnimatePresence>
+        {isExpanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="max-h-60 overflow-y-auto"
+          >
+            {scheduledMessages.map((scheduled) => (
+              <div key={scheduled.id} className="border-t border-border px-4 py-2">
+                <div className="flex items-center justify-between mb-1">
+                  {scheduled.status === "failed" ? (
+                    <span className="flex items-center text-xs text-destructive">
+                      <AlertCircle className="h-3 w-3 mr-1" />
+                      Not sent: {scheduled.failedReason || "delivery failed"}
+                    </span>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      {scheduled.status === "sending" ? "Sending..." : formatSendAt(scheduled.sendAt)}
+                    </span>
+                  )}
+                  {scheduled.status !== "sending" && editingId !== scheduled.id && (
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground"
+                        onClick={() => {
+                          setEditingId(scheduled.id)
+                          setEditText(scheduled.text)
+                        }}
+                        aria-label="Edit scheduled message"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground"
+                        onClick={() => onReschedule(scheduled)}
+                        aria-label="Reschedule message"
+                      >
+                        <CalendarClock className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive"
+                        onClick={() => onCancel(scheduled)}
+                        aria-label="Cancel scheduled message"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {editingId === scheduled.id ? (
+                  <div className="flex items-end space-x-2">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      className="flex-1 resize-none rounded-lg border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                      rows={2}
+                      autoFocus
+                    />
+                    <Button size="icon" className="h-8 w-8" onClick={() => handleSaveEdit(scheduled)}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap break-words line-clamp-3">{scheduled.text}</p>
+                )}
+              </div>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+"use client"
+
+import { useState } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Star, StarOff, X, Search, Users, User } from "lucide-react"
+
+export interface StarredMessage {
+  messageId: string
+  // Realtime Database key of the conversation: the combined DM chat id or the group id
+  chatId: string
+  // Contact uid or group id, used to reopen the conversation
+  conversationId: string
+  isGroup: boolean
+  chatName: string
+  senderUid: string
+  senderName: string
+  text: string
+  fileUrl?: string | null
+  fileType?: string | null
+  fileName?: string | null
+  messageTimestamp: number
+  starredAt: number
+}
+
+interface StarredMessagesPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  starredMessages: StarredMessage[]
+  onJumpToMessage: (starred: StarredMessage) => void
+  onUnstar: (starred: StarredMessage) => void
+}
+
+export default function StarredMessagesPanel({
+  isOpen,
+  onClose,
+  starredMessages,
+  onJumpToMessage,
+  onUnstar,
+}: StarredMessagesPanelProps) {
+  const [searchQuery, setSearchQuery] = useState("")
+
+  const filteredMessages = starredMessages
+    .filter((starred) => {
+      const query = searchQuery.toLowerCase()
+      return (
+        starred.text.toLowerCase().includes(query) ||
+        (starred.fileName || "").toLowerCase().includes(query) ||
+        starred.chatName.toLowerCase().includes(query)
+      )
+    })
+    .sort((a, b) => b.starredAt - a.starredAt)
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString([], {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent
+        side="left"
+        className="w-full sm:max-w-md bg-card border-border text-card-foreground flex flex-col h-full overflow-hidden p-0"
+      >
+        <SheetHeader className="flex-shrink-0 p-4 border-b border-border">
+          <div className="flex items-center justify-between">
+            <SheetTitle className="flex items-center space-x-2 text-card-foreground">
+              <Star className="h-5 w-5 text-yellow-500" />
+              <span>Starred Messages</span>
+            </SheetTitle>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+          <div className="relative mt-2">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search starred messages..."
+              className="border-border bg-background pl-10"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 overflow-hidden">
+          <div className="space-y-2 p-4">
+            <AnimatePresence>
+              {filteredMessages.map((starred) => (
+                <motion.div
+                  key={starred.messageId}
+                  layout
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                  className="rounded-lg border border-border p-3 hover:bg-muted transition-colors"
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="flex items-center min-w-0 text-xs font-medium">
+                      {starred.isGroup ? (
+                        <Users className="h-3 w-3 mr-1 flex-shrink-0 text-muted-foreground" />
+                      ) : (
+                        <User className="h-3 w-3 mr-1 flex-shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="truncate">
+                        {starred.senderName}
+                        {starred.isGroup && ` · ${starred.chatName}`}
+                      </span>
+                    </span>
+                    <span className="ml-2 flex-shrink-0 text-xs text-muted-foreground">
+                      {formatTime(starred.messageTimestamp)}
+                    </span>
+                  </div>
+
+                  <button type="button" className="block w-full text-left" onClick={() => onJumpToMessage(starred)}>
+                    <p className="text-sm whitespace-pre-wrap break-words line-clamp-4">
+                      {starred.text || (starred.fileName ? `📎 ${starred.fileName}` : "File")}
+                    </p>
+                  </button>
+
+                  <div className="flex justify-end mt-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs text-muted-foreground"
+                      onClick={() => onUnstar(starred)}
+                    >
+                      <StarOff className="h-3 w-3 mr-1" />
+                      Unstar
+                    </Button>
+                  </div>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+
+            {filteredMessages.length === 0 && (
+              <div className="flex flex-col items-center justify-center py-8 text-center">
+                <Star className="h-10 w-10 text-muted-foreground mb-3" />
+                <p className="text-sm text-muted-foreground">
+                  {starredMessages.length === 0 ? "No starred messages yet" : "No matching messages"}
+                </p>
+                {starredMessages.length === 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">Right-click a message and choose Star to save it</p>
+                )}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  )
+}
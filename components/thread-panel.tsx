@@ -0,0 +1,241 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useRef } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { MessageSquare, Send, X, ChevronUp } from "lucide-react"
+import { ref, onValue, query, orderByChild, equalTo, limitToLast } from "firebase/database"
+import { database } from "@/lib/firebase"
+
+const THREAD_PAGE_SIZE = 30 // Load 30 replies at a time
+
+interface ThreadMessage {
+  id: string
+  text: string
+  senderUid: string
+  senderName?: string
+  timestamp: number
+  fileName?: string
+  isDeleted?: boolean
+}
+
+interface ThreadPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  parentMessage: ThreadMessage | null
+  // Realtime Database path holding the conversation, e.g. `messages/{chatId}` or `groupMessages/{groupId}`
+  messagesPath: string | null
+  currentUserId: string
+  getSenderName: (message: ThreadMessage) => string
+  onSendReply: (text: string) => Promise<void>
+  onJumpToMessage: (messageId: string) => void
+}
+
+export default function ThreadPanel({
+  isOpen,
+  onClose,
+  parentMessage,
+  messagesPath,
+  currentUserId,
+  getSenderName,
+  onSendReply,
+  onJumpToMessage,
+}: ThreadPanelProps) {
+  const [replies, setReplies] = useState<ThreadMessage[]>([])
+  const [replyLimit, setReplyLimit] = useState(THREAD_PAGE_SIZE)
+  const [hasMoreReplies, setHasMoreReplies] = useState(false)
+  const [replyText, setReplyText] = useState("")
+  const [isSending, setIsSending] = useState(false)
+  const repliesEndRef = useRef<HTMLDivElement>(null)
+  const isLoadingOlderRef = useRef(false)
+
+  const parentId = parentMessage?.id
+
+  // Reset paging whenever a different thread is opened
+  useEffect(() => {
+    setReplies([])
+    setReplyLimit(THREAD_PAGE_SIZE)
+    setReplyText("")
+  }, [parentId, messagesPath])
+
+  // Listen to the latest page of replies; older pages widen the limitToLast window
+  useEffect(() => {
+    if (!isOpen || !parentId || !messagesPath) return
+
+    const repliesQuery = query(
+      ref(database, messagesPath),
+      orderByChild("replyToId"),
+      equalTo(parentId),
+      limitToLast(replyLimit),
+    )
+
+    const unsubscribe = onValue(repliesQuery, (snapshot) => {
+      if (!snapshot.exists()) {
+        setReplies([])
+        setHasMoreReplies(false)
+        return
+      }
+
+      const repliesData = snapshot.val()
+      const repliesList = Object.keys(repliesData).map((key) => {
+        const msgData = repliesData[key]
+        return {
+          id: key,
+          ...msgData,
+          timestamp: typeof msgData.timestamp === "number" ? msgData.timestamp : msgData.clientTimestamp || 0,
+          isDeleted: msgData.isDeleted || false,
+        }
+      })
+
+      repliesList.sort((a, b) => a.timestamp - b.timestamp)
+      setReplies(repliesList)
+      setHasMoreReplies(repliesList.length === replyLimit)
+    })
+
+    return () => unsubscribe()
+  }, [isOpen, parentId, messagesPath, replyLimit])
+
+  // Keep the newest reply in view, except when older replies were just prepended
+  useEffect(() => {
+    if (isLoadingOlderRef.current) {
+      isLoadingOlderRef.current = false
+      return
+    }
+    repliesEndRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [replies])
+
+  const handleLoadOlderReplies = () => {
+    isLoadingOlderRef.current = true
+    setReplyLimit((prev) => prev + THREAD_PAGE_SIZE)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!replyText.trim() || isSending) return
+
+    const text = replyText.trim()
+    setReplyText("")
+    setIsSending(true)
+    try {
+      await onSendReply(text)
+    } catch (error) {
+      setReplyText(text)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString([], {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  const renderBody = (message: ThreadMessage) => {
+    if (message.isDeleted) return <p className="text-sm italic text-muted-foreground">This message was deleted</p>
+    if (!message.text && message.fileName) return <p className="text-sm">📎 {message.fileName}</p>
+    return <p className="text-sm whitespace-pre-wrap break-words">{message.text}</p>
+  }
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent className="w-full sm:max-w-md bg-card border-border text-card-foreground flex flex-col h-full overflow-hidden p-0">
+        <SheetHeader className="flex-shrink-0 p-4 border-b border-border">
+          <div className="flex items-center justify-between">
+            <SheetTitle className="flex items-center space-x-2 text-card-foreground">
+              <MessageSquare className="h-5 w-5 text-primary" />
+              <span>Thread</span>
+            </SheetTitle>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </SheetHeader>
+
+        {parentMessage && (
+          <button
+            type="button"
+            className="flex-shrink-0 text-left p-4 border-b border-border bg-muted/50 hover:bg-muted transition-colors"
+            onClick={() => onJumpToMessage(parentMessage.id)}
+          >
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium">{getSenderName(parentMessage)}</span>
+              <span className="text-xs text-muted-foreground">{formatTime(parentMessage.timestamp)}</span>
+            </div>
+            {renderBody(parentMessage)}
+          </button>
+        )}
+
+        <ScrollArea className="flex-1 overflow-hidden">
+          <div className="space-y-3 p-4">
+            {hasMoreReplies && (
+              <div className="flex justify-center">
+                <Button variant="outline" size="sm" onClick={handleLoadOlderReplies} className="text-xs">
+                  <ChevronUp className="h-3 w-3 mr-1" />
+                  Load earlier replies
+                </Button>
+              </div>
+            )}
+
+            <AnimatePresence>
+              {replies.map((reply) => (
+                <motion.div
+                  key={reply.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className={`rounded-lg p-3 ${reply.senderUid === currentUserId ? "bg-primary/10 ml-6" : "bg-muted mr-6"}`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium">{getSenderName(reply)}</span>
+                    <span className="text-xs text-muted-foreground">{formatTime(reply.timestamp)}</span>
+                  </div>
+                  {renderBody(reply)}
+                </motion.div>
+              ))}
+            </AnimatePresence>
+
+            {replies.length === 0 && (
+              <div className="flex flex-col items-center justify-center py-8 text-center">
+                <MessageSquare className="h-10 w-10 text-muted-foreground mb-3" />
+                <p className="text-sm text-muted-foreground">No replies yet</p>
+              </div>
+            )}
+
+            <div ref={repliesEndRef} />
+          </div>
+        </ScrollArea>
+
+        <form onSubmit={handleSubmit} className="flex-shrink-0 flex items-end space-x-2 border-t border-border p-4">
+          <textarea
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            placeholder="Reply in thread..."
+            className="flex-1 resize-none rounded-lg border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent max-h-32 min-h-[40px]"
+            rows={1}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault()
+                handleSubmit(e)
+              }
+            }}
+          />
+          <Button
+            type="submit"
+            size="icon"
+            className="bg-primary hover:bg-primary/90 text-primary-foreground"
+            disabled={!replyText.trim() || isSending}
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -4,15 +4,37 @@ import { motion, AnimatePresence } from "framer-motion"
 
 interface UnreadBadgeProps {
   count: number
+  mentionCount?: number
+  // Muted chats keep their count but get a quiet grey badge
+  muted?: boolean
 }
 
-export default function UnreadBadge({ count }: UnreadBadgeProps) {
+export default function UnreadBadge({ count, mentionCount = 0, muted = false }: UnreadBadgeProps) {
   // Only show if count is greater than 0
   if (!count || count <= 0) return null
 
   return (
     <AnimatePresence>
+      {/* Highlighted "@" badge when the user was mentioned in unread messages */}
+      {mentionCount > 0 && (
+        <motion.div
+          key="mention"
+          initial={{ scale: 0, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0, opacity: 0 }}
+          transition={{
+            type: "spring",
+            stiffness: 500,
+            damping: 30,
+          }}
+          className="flex h-5 min-w-5 items-center justify-center rounded-full bg-gradient-to-r from-blue-500 to-blue-600 px-1.5 text-xs font-bold text-white shadow-lg ring-2 ring-gray-900"
+          title={`${mentionCount} ${mentionCount === 1 ? "mention" : "mentions"}`}
+        >
+          @
+        </motion.div>
+      )}
       <motion.div
+        key="count"
         initial={{ scale: 0, opacity: 0 }}
         animate={{ scale: 1, opacity: 1 }}
         exit={{ scale: 0, opacity: 0 }}
@@ -24,14 +46,22 @@ export default function UnreadBadge({ count }: UnreadBadgeProps) {
         className="relative"
       >
         <motion.div
-          className="flex h-5 min-w-5 items-center justify-center rounded-full bg-gradient-to-r from-green-500 to-green-600 px-1.5 text-xs font-bold text-white shadow-lg ring-2 ring-gray-900"
-          animate={{
-            boxShadow: [
-              "0 0 0 0 rgba(34, 197, 94, 0.7)",
-              "0 0 0 4px rgba(34, 197, 94, 0)",
-              "0 0 0 0 rgba(34, 197, 94, 0)",
-            ],
-          }}
+          className={`flex h-5 min-w-5 items-center justify-center rounded-full px-1.5 text-xs font-bold ring-2 ring-gray-900 ${
+            muted
+              ? "bg-muted-foreground/40 text-white"
+              : "bg-gradient-to-r from-green-500 to-green-600 text-white shadow-lg"
+          }`}
+          animate={
+            muted
+              ? undefined
+              : {
+                  boxShadow: [
+                    "0 0 0 0 rgba(34, 197, 94, 0.7)",
+                    "0 0 0 4px rgba(34, 197, 94, 0)",
+                    "0 0 0 0 rgba(34, 197, 94, 0)",
+                  ],
+                }
+          }
           transition={{
             duration: 2,
             repeat: Number.POSITIVE_INFINITY,
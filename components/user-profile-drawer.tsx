@@ -9,12 +9,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { X, Camera, User, Bell, Palette } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { X, Camera, User, Bell, Palette, AtSign } from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
 import { ref, update, get } from "firebase/database"
 import { database } from "@/lib/firebase"
 import { useToast } from "@/components/ui/use-toast"
 import ThemeSettings from "./theme-settings"
+import InviteLinkCard from "./invite-link-card"
+import { DISCOVERY_OPTIONS, normalizeUsername, type DiscoverySetting, type DiscoverySettings } from "@/lib/usernames"
 
 interface UserProfileDrawerProps {
   isOpen: boolean
@@ -22,10 +25,12 @@ interface UserProfileDrawerProps {
 }
 
 export default function UserProfileDrawer({ isOpen, onClose }: UserProfileDrawerProps) {
-  const { currentUser, userProfile, updateUserProfile } = useAuth()
+  const { currentUser, userProfile, updateUserProfile, claimUsername } = useAuth()
   const [name, setName] = useState("")
   const [status, setStatus] = useState("")
   const [avatar, setAvatar] = useState("")
+  const [username, setUsername] = useState("")
+  const [isClaimingUsername, setIsClaimingUsername] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [activeTab, setActiveTab] = useState("profile")
   const { toast } = useToast()
@@ -35,9 +40,44 @@ export default function UserProfileDrawer({ isOpen, onClose }: UserProfileDrawer
       setName(userProfile.name || "")
       setStatus(userProfile.status || "")
       setAvatar(userProfile.avatar || "")
+      setUsername(userProfile.username || "")
     }
   }, [userProfile])
 
+  const handleClaimUsername = async () => {
+    setIsClaimingUsername(true)
+    try {
+      await claimUsername(username)
+      toast({
+        title: "Username saved",
+        description: `People can now find you as @${normalizeUsername(username)}`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Couldn't save username",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsClaimingUsername(false)
+    }
+  }
+
+  const handleDiscoveryChange = async (key: keyof DiscoverySettings, value: DiscoverySetting) => {
+    if (!currentUser) return
+
+    try {
+      await update(ref(database, `users/${currentUser.uid}/discovery`), { [key]: value })
+    } catch (error) {
+      console.error("Error updating privacy settings:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update privacy settings. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleSaveProfile = async () => {
     if (!currentUser) return
 
@@ -149,6 +189,7 @@ export default function UserProfileDrawer({ isOpen, onClose }: UserProfileDrawer
                         </Button>
                       </div>
                       <h3 className="mt-4 text-lg font-medium">{name || "User"}</h3>
+                      {userProfile?.username && <p className="text-sm text-primary">@{userProfile.username}</p>}
                       <p className="text-sm text-muted-foreground">{currentUser?.email}</p>
                     </div>
 
@@ -187,6 +228,86 @@ export default function UserProfileDrawer({ isOpen, onClose }: UserProfileDrawer
                         {isLoading ? "Saving..." : "Save Profile"}
                       </Button>
                     </div>
+
+                    <div className="space-y-4 border-t border-border pt-6">
+                      <div className="space-y-2">
+                        <Label htmlFor="username">Username</Label>
+                        <div className="flex space-x-2">
+                          <div className="relative flex-1">
+                            <AtSign className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                            <Input
+                              id="username"
+                              value={username}
+                              onChange={(e) => setUsername(e.target.value)}
+                              placeholder="your_handle"
+                              className="bg-muted border-border pl-9"
+                            />
+                          </div>
+                          <Button
+                            variant="outline"
+                            onClick={handleClaimUsername}
+                            disabled={
+                              isClaimingUsername ||
+                              !username.trim() ||
+                              normalizeUsername(username) === userProfile?.username
+                            }
+                          >
+                            {isClaimingUsername ? "Saving..." : "Save"}
+                          </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Letters, numbers and underscores. Others can add you by your handle.
+                        </p>
+                      </div>
+
+                      <div className="space-y-3">
+                        <h3 className="font-medium">Who can find me</h3>
+                        <div className="flex items-center justify-between">
+                          <Label className="font-normal">By username</Label>
+                          <Select
+                            value={userProfile?.discovery?.findByUsername || "everyone"}
+                            onValueChange={(value) =>
+                              handleDiscoveryChange("findByUsername", value as DiscoverySetting)
+                            }
+                          >
+                            <SelectTrigger className="w-32 bg-muted border-border">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DISCOVERY_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <Label className="font-normal">By email</Label>
+                          <Select
+                            value={userProfile?.discovery?.findByEmail || "everyone"}
+                            onValueChange={(value) => handleDiscoveryChange("findByEmail", value as DiscoverySetting)}
+                          >
+                            <SelectTrigger className="w-32 bg-muted border-border">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DISCOVERY_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    </div>
+
+                    {currentUser && (
+                      <div className="border-t border-border pt-6">
+                        <InviteLinkCard userId={currentUser.uid} />
+                      </div>
+                    )}
                   </div>
                 </ScrollArea>
               </TabsContent>
@@ -0,0 +1,80 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { AtSign } from "lucide-react"
+import { useAuth } from "@/contexts/auth-context"
+
+// Shown right after signup when the requested handle already belongs to someone else.
+// It can't be dismissed; the user stays here until they claim a free username.
+export default function UsernameConflictDialog() {
+  const { currentUser, usernameConflict, claimUsername } = useAuth()
+  const [username, setUsername] = useState("")
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setUsername("")
+    setError("")
+  }, [usernameConflict])
+
+  const handleSave = async () => {
+    if (!username.trim()) return
+
+    setIsSaving(true)
+    setError("")
+    try {
+      await claimUsername(username)
+    } catch (err: any) {
+      setError(err.message || "Couldn't save username. Please try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!currentUser && !!usernameConflict}>
+      <DialogContent
+        className="border-border bg-card text-card-foreground max-w-sm [&>button]:hidden"
+        onEscapeKeyDown={(e) => e.preventDefault()}
+        onPointerDownOutside={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Pick another username</DialogTitle>
+          <DialogDescription>Your account was created, but @{usernameConflict} is already taken.</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSave()
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="conflict-username">Username</Label>
+            <div className="relative">
+              <AtSign className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="conflict-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="your_handle"
+                className="bg-muted border-border pl-9"
+                autoFocus
+              />
+            </div>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSaving || !username.trim()}>
+            {isSaving ? "Saving..." : "Save username"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
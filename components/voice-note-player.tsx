@@ -0,0 +1,143 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef, useEffect } from "react"
+import { Play, Pause, Mic } from "lucide-react"
+import { formatVoiceDuration, type VoiceNote } from "@/lib/voice-notes"
+
+const PLAYBACK_RATES = [1, 1.5, 2]
+
+interface VoiceNotePlayerProps {
+  fileUrl: string
+  voiceNote: VoiceNote
+  // Whether the recipient has played the clip; shown to both sides like read receipts
+  isListened: boolean
+  onPlay?: () => void
+}
+
+export default function VoiceNotePlayer({ fileUrl, voiceNote, isListened, onPlay }: VoiceNotePlayerProps) {
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(voiceNote.duration)
+  const [playbackRate, setPlaybackRate] = useState(1)
+  const [isScrubbing, setIsScrubbing] = useState(false)
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const waveformRef = useRef<HTMLDivElement>(null)
+
+  const progress = duration > 0 ? Math.min(currentTime / duration, 1) : 0
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = playbackRate
+  }, [playbackRate])
+
+  const togglePlayback = async () => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    if (isPlaying) {
+      audio.pause()
+      return
+    }
+
+    try {
+      await audio.play()
+      onPlay?.()
+    } catch (error) {
+      console.error("Failed to play voice message:", error)
+    }
+  }
+
+  const cyclePlaybackRate = () => {
+    const nextIndex = (PLAYBACK_RATES.indexOf(playbackRate) + 1) % PLAYBACK_RATES.length
+    setPlaybackRate(PLAYBACK_RATES[nextIndex])
+  }
+
+  const seekToPointer = (clientX: number) => {
+    const audio = audioRef.current
+    const waveform = waveformRef.current
+    if (!audio || !waveform || duration <= 0) return
+
+    const rect = waveform.getBoundingClientRect()
+    const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1)
+    audio.currentTime = ratio * duration
+    setCurrentTime(audio.currentTime)
+  }
+
+  const handleScrubStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setIsScrubbing(true)
+    seekToPointer(e.clientX)
+  }
+
+  const handleScrubMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (isScrubbing) seekToPointer(e.clientX)
+  }
+
+  return (
+    <div className="flex min-w-[240px] items-center space-x-3 py-1">
+      <audio
+        ref={audioRef}
+        src={fileUrl}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false)
+          setCurrentTime(0)
+        }}
+        onTimeUpdate={(e) => {
+          if (!isScrubbing) setCurrentTime(e.currentTarget.currentTime)
+        }}
+        onLoadedMetadata={(e) => {
+          // MediaRecorder output often reports Infinity until fully buffered, so keep the recorded length then
+          if (Number.isFinite(e.currentTarget.duration)) setDuration(e.currentTarget.duration)
+          e.currentTarget.playbackRate = playbackRate
+        }}
+      />
+
+      <button
+        type="button"
+        className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full bg-black/10 dark:bg-white/10 hover:bg-black/20 dark:hover:bg-white/20"
+        onClick={togglePlayback}
+        aria-label={isPlaying ? "Pause voice message" : "Play voice message"}
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <div
+          ref={waveformRef}
+          className="flex h-8 cursor-pointer touch-none items-center space-x-[2px]"
+          onPointerDown={handleScrubStart}
+          onPointerMove={handleScrubMove}
+          onPointerUp={() => setIsScrubbing(false)}
+          onPointerCancel={() => setIsScrubbing(false)}
+        >
+          {voiceNote.waveform.map((level, index) => (
+            <span
+              key={index}
+              className={`flex-1 rounded-full bg-current transition-opacity ${
+                index / voiceNote.waveform.length < progress ? "opacity-100" : "opacity-40"
+              }`}
+              style={{ height: `${Math.max(level * 100, 10)}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center justify-between text-xs opacity-70">
+          <span className="tabular-nums">{formatVoiceDuration(isPlaying || currentTime > 0 ? currentTime : duration)}</span>
+          <Mic className={`h-3 w-3 ${isListened ? "text-blue-400" : ""}`} />
+        </div>
+      </div>
+
+      <button
+        type="button"
+        className="flex-shrink-0 rounded-full border border-current px-2 py-0.5 text-xs font-medium opacity-80 hover:opacity-100"
+        onClick={cyclePlaybackRate}
+      >
+        {playbackRate}x
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef, useEffect } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { Button } from "@/components/ui/button"
+import { Mic, ChevronLeft, Loader2 } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { uploadToCloudinary } from "@/lib/cloudinary"
+import { downsampleWaveform, formatVoiceDuration, type VoiceNote } from "@/lib/voice-notes"
+
+const CANCEL_SLIDE_DISTANCE = 120 // Pixels to slide left before the recording is discarded
+const MIN_RECORDING_SECONDS = 1
+const LEVEL_SAMPLE_INTERVAL = 100
+
+interface VoiceRecorderProps {
+  onRecordingComplete: (fileUrl: string, fileName: string, voiceNote: VoiceNote) => Promise<void>
+  disabled?: boolean
+}
+
+const getSupportedMimeType = () => {
+  const candidates = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg"]
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) || ""
+}
+
+export default function VoiceRecorder({ onRecordingComplete, disabled }: VoiceRecorderProps) {
+  const [isRecording, setIsRecording] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+  const [duration, setDuration] = useState(0)
+  const [slideOffset, setSlideOffset] = useState(0)
+  const { toast } = useToast()
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const chunksRef = useRef<Blob[]>([])
+  const levelsRef = useRef<number[]>([])
+  const sampleIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const startTimeRef = useRef(0)
+  const startXRef = useRef(0)
+  const isPressingRef = useRef(false)
+  const isCancelledRef = useRef(false)
+
+  const releaseDevices = () => {
+    if (sampleIntervalRef.current) {
+      clearInterval(sampleIntervalRef.current)
+      sampleIntervalRef.current = null
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+    audioContextRef.current?.close().catch(() => {})
+    audioContextRef.current = null
+  }
+
+  // Release the microphone if the composer unmounts mid-recording
+  useEffect(() => {
+    return () => {
+      isCancelledRef.current = true
+      if (mediaRecorderRef.current?.state === "recording") {
+        mediaRecorderRef.current.stop()
+      }
+      releaseDevices()
+    }
+  }, [])
+
+  const handleRecordingStopped = async (mimeType: string) => {
+    const recordedSeconds = (Date.now() - startTimeRef.current) / 1000
+
+    if (isCancelledRef.current) return
+    if (recordedSeconds < MIN_RECORDING_SECONDS) {
+      toast({
+        title: "Too short",
+        description: "Hold the microphone button to record a voice message",
+      })
+      return
+    }
+
+    const extension = mimeType.includes("mp4") ? "m4a" : mimeType.includes("ogg") ? "ogg" : "webm"
+    const fileName = `voice-message-${Date.now()}.${extension}`
+    const blob = new Blob(chunksRef.current, { type: mimeType || "audio/webm" })
+
+    setIsUploading(true)
+    try {
+      const fileUrl = await uploadToCloudinary(blob, fileName)
+      await onRecordingComplete(fileUrl, fileName, {
+        duration: Math.round(recordedSeconds * 10) / 10,
+        waveform: downsampleWaveform(levelsRef.current),
+      })
+    } catch (error) {
+      console.error("Failed to send voice message:", error)
+      toast({
+        title: "Error",
+        description: "Failed to send voice message. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const startRecording = async () => {
+    if (typeof window === "undefined" || !navigator.mediaDevices?.getUserMedia || !window.MediaRecorder) {
+      toast({
+        title: "Not supported",
+        description: "Voice recording is not supported in this browser",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+
+      // The button may have been released while the permission prompt was open
+      if (!isPressingRef.current) {
+        stream.getTracks().forEach((track) => track.stop())
+        return
+      }
+
+      const mimeType = getSupportedMimeType()
+      const mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+
+      streamRef.current = stream
+      mediaRecorderRef.current = mediaRecorder
+      chunksRef.current = []
+      levelsRef.current = []
+      isCancelledRef.current = false
+
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data)
+      }
+      mediaRecorder.onstop = () => handleRecordingStopped(mediaRecorder.mimeType)
+
+      // Sample input levels for the waveform while recording
+      const audioContext = new AudioContext()
+      const analyser = audioContext.createAnalyser()
+      analyser.fftSize = 256
+      audioContext.createMediaStreamSource(stream).connect(analyser)
+      audioContextRef.current = audioContext
+      const levelData = new Uint8Array(analyser.fftSize)
+
+      mediaRecorder.start()
+      startTimeRef.current = Date.now()
+      setDuration(0)
+      setIsRecording(true)
+
+      sampleIntervalRef.current = setInterval(() => {
+        analyser.getByteTimeDomainData(levelData)
+        let peak = 0
+        levelData.forEach((value) => {
+          peak = Math.max(peak, Math.abs(value - 128) / 128)
+        })
+        levelsRef.current.push(peak)
+        setDuration((Date.now() - startTimeRef.current) / 1000)
+      }, LEVEL_SAMPLE_INTERVAL)
+    } catch (error) {
+      console.error("Failed to start recording:", error)
+      toast({
+        title: "Microphone unavailable",
+        description: "Allow microphone access to record voice messages",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const stopRecording = (cancel: boolean) => {
+    isPressingRef.current = false
+    setSlideOffset(0)
+
+    if (!mediaRecorderRef.current || mediaRecorderRef.current.state !== "recording") return
+
+    isCancelledRef.current = cancel
+    mediaRecorderRef.current.stop()
+    mediaRecorderRef.current = null
+    releaseDevices()
+    setIsRecording(false)
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (disabled || isUploading) return
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    startXRef.current = e.clientX
+    isPressingRef.current = true
+    startRecording()
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!isRecording) return
+
+    const offset = Math.min(0, e.clientX - startXRef.current)
+    setSlideOffset(offset)
+
+    if (offset <= -CANCEL_SLIDE_DISTANCE) {
+      stopRecording(true)
+    }
+  }
+
+  const handlePointerUp = () => {
+    stopRecording(false)
+  }
+
+  return (
+    <div className="relative">
+      <AnimatePresence>
+        {isRecording && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute bottom-full left-0 mb-2 flex items-center space-x-3 whitespace-nowrap rounded-full border border-border bg-card px-4 py-2 shadow-lg"
+          >
+            <span className="h-2.5 w-2.5 animate-pulse rounded-full bg-red-500" />
+            <span className="text-sm font-medium tabular-nums">{formatVoiceDuration(duration)}</span>
+            <span
+              className="flex items-center text-xs text-muted-foreground"
+              style={{ opacity: 1 + slideOffset / CANCEL_SLIDE_DISTANCE }}
+            >
+              <ChevronLeft className="h-3 w-3" />
+              Slide to cancel
+            </span>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        disabled={disabled || isUploading}
+        className={`touch-none select-none ${isRecording ? "text-red-500 bg-red-500/10" : "text-gray-400 hover:text-white"}`}
+        style={{ transform: `translateX(${slideOffset}px)` }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => stopRecording(true)}
+        onContextMenu={(e) => e.preventDefault()}
+        title="Hold to record a voice message"
+      >
+        {isUploading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Mic className="h-5 w-5" />}
+      </Button>
+    </div>
+  )
+}
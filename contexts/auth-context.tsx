@@ -11,8 +11,10 @@ import {
   updateProfile,
   type User,
 } from "firebase/auth"
-import { ref, set, get, onValue, update, onDisconnect, serverTimestamp } from "firebase/database"
+import { ref, set, get, onValue, update, onDisconnect, serverTimestamp, runTransaction } from "firebase/database"
 import { database } from "@/lib/firebase"
+import { normalizeUsername, validateUsername, type DiscoverySettings } from "@/lib/usernames"
+import { getPresencePath } from "@/lib/moderation"
 
 export interface UserProfile {
   uid: string
@@ -22,8 +24,8 @@ export interface UserProfile {
   about?: string
   gender?: string
   createdAt: number
-  lastSeen?: number
-  isOnline?: boolean
+  username?: string
+  discovery?: DiscoverySettings
 }
 
 interface AuthContextType {
@@ -32,8 +34,11 @@ interface AuthContextType {
   loading: boolean
   error: string | null
   isAccountTerminated: boolean
+  // The handle requested at signup when someone else claimed it first; the user has to pick another
+  usernameConflict: string | null
   login: (email: string, password: string) => Promise<void>
-  signUp: (email: string, password: string, name: string) => Promise<void>
+  signUp: (email: string, password: string, name: string, username?: string) => Promise<void>
+  claimUsername: (username: string) => Promise<void>
   logout: () => Promise<void>
   updateUserProfile: (profile: UserProfile) => void
   clearTerminatedStatus: () => void
@@ -55,6 +60,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isAccountTerminated, setIsAccountTerminated] = useState(false)
+  const [usernameConflict, setUsernameConflict] = useState<string | null>(null)
   const auth = getAuth()
 
   useEffect(() => {
@@ -80,8 +86,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               email: user.email || "",
               avatar: user.photoURL || "",
               createdAt: Date.now(),
-              lastSeen: Date.now(),
-              isOnline: true,
             }
 
             await set(userRef, newProfile)
@@ -90,19 +94,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           }
 
           // Set user as online and set up disconnect handler
-          const userStatusRef = ref(database, `users/${user.uid}`)
+          const presenceRef = ref(database, getPresencePath(user.uid))
 
           // When user disconnects, update status to offline and record last seen time
-          const onDisconnectRef = onDisconnect(userStatusRef)
-          await onDisconnectRef.update({
+          const onDisconnectRef = onDisconnect(presenceRef)
+          await onDisconnectRef.set({
             isOnline: false,
             lastSeen: serverTimestamp(),
           })
 
-          // Set user as online
-          await update(userStatusRef, {
-            isOnline: true,
-            lastSeen: serverTimestamp(),
+          // Set user as online, clearing the status older versions kept on the public profile
+          await update(ref(database), {
+            [getPresencePath(user.uid)]: { isOnline: true, lastSeen: serverTimestamp() },
+            [`users/${user.uid}/isOnline`]: null,
+            [`users/${user.uid}/lastSeen`]: null,
           })
 
           // Listen for profile changes
@@ -165,12 +170,53 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }
 
-  const signUp = async (email: string, password: string, name: string) => {
+  // Reserves usernames/{username} for the user in a transaction, then releases their previous handle
+  const reserveUsername = async (uid: string, username: string, previousUsername?: string) => {
+    const result = await runTransaction(ref(database, `usernames/${username}`), (currentOwner) => {
+      if (currentOwner && currentOwner !== uid) return
+      return uid
+    })
+    if (!result.committed) {
+      throw new Error("That username is already taken")
+    }
+
+    const updates: { [path: string]: string | null } = { [`users/${uid}/username`]: username }
+    if (previousUsername && previousUsername !== username) {
+      updates[`usernames/${previousUsername}`] = null
+    }
+    await update(ref(database), updates)
+  }
+
+  const claimUsername = async (input: string) => {
+    if (!currentUser) return
+
+    const username = normalizeUsername(input)
+    const validationError = validateUsername(username)
+    if (validationError) {
+      throw new Error(validationError)
+    }
+
+    await reserveUsername(currentUser.uid, username, userProfile?.username)
+    setUsernameConflict(null)
+  }
+
+  const signUp = async (email: string, password: string, name: string, username?: string) => {
     setLoading(true)
     setError(null)
 
     try {
       console.log("Attempting signup for:", email)
+
+      // Validate the handle before creating the account. Whether it's free can only be checked once signed in,
+      // so a taken one is reported after signup through usernameConflict.
+      const requestedUsername = username ? normalizeUsername(username) : ""
+      if (requestedUsername) {
+        const validationError = validateUsername(requestedUsername)
+        if (validationError) {
+          throw new Error(validationError)
+        }
+      }
+
       const result = await createUserWithEmailAndPassword(auth, email, password)
 
       // Update display name
@@ -187,12 +233,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         avatar: "",
         about: "",
         createdAt: Date.now(),
-        lastSeen: Date.now(),
-        isOnline: true,
       }
 
       await set(userRef, newProfile)
       console.log("Signup successful, profile created")
+
+      if (requestedUsername) {
+        try {
+          await reserveUsername(result.user.uid, requestedUsername)
+        } catch (err) {
+          // The handle is taken; the account exists, so ask for another one instead of failing
+          console.error("Failed to claim username:", err)
+          setUsernameConflict(requestedUsername)
+        }
+      }
     } catch (err: any) {
       console.error("Registration error:", err)
       setError(err.message || "Failed to register")
@@ -209,14 +263,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       // Set user as offline before logging out
       if (currentUser) {
-        const userRef = ref(database, `users/${currentUser.uid}`)
-        await update(userRef, {
+        await set(ref(database, getPresencePath(currentUser.uid)), {
           isOnline: false,
           lastSeen: Date.now(),
         })
       }
 
       await signOut(auth)
+      setUsernameConflict(null)
       console.log("Logout successful")
     } catch (err: any) {
       console.error("Logout error:", err)
@@ -242,8 +296,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     loading,
     error,
     isAccountTerminated,
+    usernameConflict,
     login,
     signUp,
+    claimUsername,
     logout,
     updateUserProfile,
     clearTerminatedStatus,
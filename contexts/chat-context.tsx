@@ -14,8 +14,38 @@ import {
   query,
   limitToLast,
   orderByChild,
+  endBefore,
+  increment,
 } from "firebase/database"
 import { useAuth } from "./auth-context"
+import { getPollPreview, type Poll } from "@/lib/polls"
+import { VOICE_NOTE_PREVIEW, type VoiceNote } from "@/lib/voice-notes"
+import { getDisappearingTimerNotice, getExpiresAt } from "@/lib/disappearing-messages"
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_SEND_TIMEOUT,
+  deleteOutboxMessage,
+  getOutboxMessages,
+  getOutboxRetryDelay,
+  saveOutboxMessage,
+  withTimeout,
+  type OutboxMessage,
+  type OutboxStatus,
+} from "@/lib/outbox"
+import {
+  REPORT_SNAPSHOT_SIZE,
+  getBlockedByPath,
+  getBlockedUserPath,
+  isHiddenByBlock,
+  type ReportReason,
+  type ReportedMessage,
+} from "@/lib/moderation"
+import type { ContactRequestStatus } from "@/lib/contact-requests"
+
+interface ForwardedFrom {
+  uid: string
+  name: string
+}
 
 interface Message {
   id: string
@@ -32,6 +62,8 @@ interface Message {
   replyToId?: string
   replyToText?: string
   read?: boolean
+  readAt?: number
+  deliveredAt?: number
   reactions?: { [emoji: string]: { users: string[]; userNames: { [uid: string]: string } } }
   isDeleted?: boolean
   deletedAt?: number
@@ -40,6 +72,23 @@ interface Message {
   originalFileUrl?: string
   originalFileType?: string
   originalFileName?: string
+  editedAt?: number
+  editHistory?: { [versionId: string]: { text: string; timestamp: number } }
+  forwardedFrom?: ForwardedFrom
+  replyCount?: number
+  type?: "poll" | "system"
+  poll?: Poll
+  voiceNote?: VoiceNote
+  scheduledAt?: number
+  listened?: boolean
+  listenedAt?: number
+  expiresAt?: number
+  systemEvent?: string
+  // Sent while the receiver had the sender blocked, so it's never shown to them
+  withheld?: boolean
+  // Outbox bookkeeping for messages that haven't reached Firebase yet
+  attempts?: number
+  nextAttemptAt?: number
 }
 
 interface Contact {
@@ -49,6 +98,10 @@ interface Contact {
   lastMessage: string
   time: string
   unread: number
+  // Set by "Mark as unread" when there are no actual unread messages
+  markedUnread?: boolean
+  // Set while our contact request is waiting for them or after they declined it
+  requestStatus?: ContactRequestStatus
 }
 
 interface ChatContextType {
@@ -62,14 +115,39 @@ interface ChatContextType {
     fileType?: string,
     fileName?: string,
   ) => Promise<void>
+  forwardMessage: (
+    contactId: string,
+    message: Pick<Message, "text" | "fileUrl" | "fileType" | "fileName">,
+    forwardedFrom: ForwardedFrom,
+  ) => Promise<void>
+  sendPoll: (
+    contactId: string,
+    poll: Pick<Poll, "question" | "options" | "allowMultiple" | "anonymous" | "closesAt">,
+  ) => Promise<void>
+  votePoll: (messageId: string, contactId: string, optionIds: string[], voteKey: string) => Promise<void>
+  sendBroadcastMessage: (listId: string, recipients: { id: string; name: string }[], text: string) => Promise<void>
+  sendScheduledMessage: (contactId: string, text: string, scheduledAt: number) => Promise<void>
+  sendVoiceNote: (contactId: string, fileUrl: string, fileName: string, voiceNote: VoiceNote) => Promise<void>
+  markVoiceNoteListened: (messageId: string, contactId: string) => Promise<void>
+  closePoll: (messageId: string, contactId: string) => Promise<void>
+  setDisappearingTimer: (contactId: string, timer: number) => Promise<void>
   addReaction: (messageId: string, emoji: string, contactId: string) => Promise<void>
   deleteMessage: (messageId: string, contactId: string) => Promise<void>
+  // Edits a DM or a group message; either way only the sender may edit, and the old text goes to editHistory
+  editMessage: (
+    messageId: string,
+    conversation: { contactId: string } | { groupId: string },
+    newText: string,
+  ) => Promise<void>
   contacts: Contact[]
   setContacts: (contacts: Contact[]) => void
   error: string | null
   setError: (error: string | null) => void
   pendingMessages: Message[]
   setPendingMessages: React.Dispatch<React.SetStateAction<Message[]>>
+  retryPendingMessage: (messageId: string) => Promise<void>
+  cancelPendingMessage: (messageId: string) => Promise<void>
+  isConnected: boolean
   typingUsers: { [contactId: string]: boolean }
   setTyping: (contactId: string, isTyping: boolean) => void
   startTyping: (contactId: string) => void
@@ -78,6 +156,12 @@ interface ChatContextType {
   loadMoreMessages: (contactId: string) => Promise<void>
   hasMoreMessages: { [contactId: string]: boolean }
   updateContactName: (contactId: string, newName: string) => Promise<void>
+  // When each contact was blocked by the current user, and which users have blocked them
+  blockedUsers: { [uid: string]: number }
+  blockedByUsers: { [uid: string]: boolean }
+  blockContact: (contactId: string) => Promise<void>
+  unblockContact: (contactId: string) => Promise<void>
+  reportContact: (contactId: string, reason: ReportReason, details: string) => Promise<void>
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined)
@@ -97,18 +181,42 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [contacts, setContacts] = useState<Contact[]>([])
   const [error, setError] = useState<string | null>(null)
   const [pendingMessages, setPendingMessages] = useState<Message[]>([])
+  const [isConnected, setIsConnected] = useState(true)
+  const hasConnectedRef = useRef(false)
+  const firebaseConnectedRef = useRef(false)
   const [typingUsers, setTypingUsers] = useState<{ [contactId: string]: boolean }>({})
+  const [blockedUsers, setBlockedUsers] = useState<{ [uid: string]: number }>({})
+  const [blockedByUsers, setBlockedByUsers] = useState<{ [uid: string]: boolean }>({})
   const [hasMoreMessages, setHasMoreMessages] = useState<{ [contactId: string]: boolean }>({})
   const lastMessageTimestampRef = useRef<{ [contactId: string]: number }>({})
 
   const database = getDatabase()
   const typingTimeoutRef = useRef<{ [contactId: string]: NodeJS.Timeout }>({})
+  // Timestamp of the oldest message fetched per chat, withheld ones included, so paging never stalls on them
+  const oldestFetchedRef = useRef<{ [contactId: string]: number }>({})
   const MESSAGE_LIMIT = 50 // Load 50 messages at a time
 
   const getChatId = (uid1: string, uid2: string): string => {
     return uid1 > uid2 ? `${uid1}-${uid2}` : `${uid2}-${uid1}`
   }
 
+  // Keep both sides of the block lists in sync
+  useEffect(() => {
+    if (!currentUser) return
+
+    const unsubscribeBlocked = onValue(ref(database, `blockedUsers/${currentUser.uid}`), (snapshot) => {
+      setBlockedUsers(snapshot.exists() ? snapshot.val() : {})
+    })
+    const unsubscribeBlockedBy = onValue(ref(database, `blockedBy/${currentUser.uid}`), (snapshot) => {
+      setBlockedByUsers(snapshot.exists() ? snapshot.val() : {})
+    })
+
+    return () => {
+      unsubscribeBlocked()
+      unsubscribeBlockedBy()
+    }
+  }, [currentUser, database])
+
   // Set up typing indicator listeners with better cleanup
   useEffect(() => {
     if (!currentUser) return
@@ -130,7 +238,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
             if (userId !== currentUser.uid && chatTyping[userId]) {
               // Find which contact this user is
               const contact = contacts.find((c) => c.id === userId)
-              if (contact) {
+              if (contact && !blockedUsers[contact.id]) {
                 newTypingUsers[contact.id] = true
               }
             }
@@ -142,7 +250,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     })
 
     return () => unsubscribe()
-  }, [currentUser, database, contacts])
+  }, [currentUser, database, contacts, blockedUsers])
 
   const setTyping = useCallback(
     (contactId: string, isTyping: boolean) => {
@@ -151,13 +259,14 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const chatId = getChatId(currentUser.uid, contactId)
       const typingRef = ref(database, `typing/${chatId}/${currentUser.uid}`)
 
-      if (isTyping) {
+      // Neither side of a block sees the other typing
+      if (isTyping && !blockedUsers[contactId] && !blockedByUsers[contactId]) {
         set(typingRef, true)
       } else {
         remove(typingRef)
       }
     },
-    [currentUser, database],
+    [currentUser, database, blockedUsers, blockedByUsers],
   )
 
   const startTyping = useCallback(
@@ -199,24 +308,26 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const chatId = getChatId(currentUser.uid, contactId)
       const currentMessages = messages[contactId] || []
 
-      if (currentMessages.length === 0) return
+      let cursor = oldestFetchedRef.current[contactId] ?? currentMessages[0]?.timestamp
+      if (cursor === undefined) return
 
-      const oldestMessage = currentMessages[0]
       const messagesRef = ref(database, `messages/${chatId}`)
 
-      // Query messages older than the oldest message we have
-      const olderMessagesQuery = query(messagesRef, orderByChild("timestamp"), limitToLast(MESSAGE_LIMIT))
-
       try {
-        const snapshot = await get(olderMessagesQuery)
-        if (!snapshot.exists()) {
-          setHasMoreMessages((prev) => ({ ...prev, [contactId]: false }))
-          return
-        }
-
-        const messagesData = snapshot.val()
-        const messagesList = Object.keys(messagesData)
-          .map((key) => {
+        // A page can filter down to nothing when every message in it was withheld; keep going past those
+        let messagesList: Message[] = []
+        let hasMore = true
+        while (messagesList.length === 0 && hasMore) {
+          // Query messages older than the oldest message we have
+          const olderMessagesQuery = query(
+            messagesRef,
+            orderByChild("timestamp"),
+            endBefore(cursor),
+            limitToLast(MESSAGE_LIMIT),
+          )
+          const snapshot = await get(olderMessagesQuery)
+          const messagesData = snapshot.exists() ? snapshot.val() : {}
+          const pageMessages = Object.keys(messagesData).map((key) => {
             const msgData = messagesData[key]
             return {
               id: key,
@@ -227,13 +338,19 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
               isDeleted: msgData.isDeleted || false,
             }
           })
-          .filter((msg) => msg.timestamp < oldestMessage.timestamp) // Only get older messages
 
-        if (messagesList.length === 0) {
-          setHasMoreMessages((prev) => ({ ...prev, [contactId]: false }))
-          return
+          // Whether there is more is decided by the raw page size, before withheld messages are dropped
+          hasMore = pageMessages.length === MESSAGE_LIMIT
+          if (pageMessages.length > 0) {
+            cursor = Math.min(...pageMessages.map((msg) => msg.timestamp))
+            oldestFetchedRef.current[contactId] = cursor
+          }
+          messagesList = pageMessages.filter((msg) => !isHiddenByBlock(msg, currentUser.uid, blockedUsers))
         }
 
+        setHasMoreMessages((prev) => ({ ...prev, [contactId]: hasMore }))
+        if (messagesList.length === 0) return
+
         messagesList.sort((a, b) => a.timestamp - b.timestamp)
 
         // Prepend older messages to existing messages
@@ -241,18 +358,12 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
           ...prev,
           [contactId]: [...messagesList, ...currentMessages],
         }))
-
-        // Check if there are more messages
-        setHasMoreMessages((prev) => ({
-          ...prev,
-          [contactId]: messagesList.length === MESSAGE_LIMIT,
-        }))
       } catch (err) {
         console.error("Error loading more messages:", err)
         setError("Failed to load more messages")
       }
     },
-    [currentUser, database, messages, MESSAGE_LIMIT],
+    [currentUser, database, messages, blockedUsers, MESSAGE_LIMIT],
   )
 
   // Enhanced message loading with pagination - Load latest messages first
@@ -274,7 +385,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       try {
         const messagesData = snapshot.val()
-        const messagesList = Object.keys(messagesData).map((key) => {
+        const fetchedMessages = Object.keys(messagesData).map((key) => {
           const msgData = messagesData[key]
           return {
             id: key,
@@ -285,15 +396,18 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
             isDeleted: msgData.isDeleted || false,
           }
         })
+        // Messages sent while we had the sender blocked never reach us, even after unblocking
+        const messagesList = fetchedMessages.filter((msg) => !isHiddenByBlock(msg, currentUser.uid, blockedUsers))
 
         // Sort by timestamp and update state
         messagesList.sort((a, b) => a.timestamp - b.timestamp)
         setMessages((prev) => ({ ...prev, [selectedContact.id]: messagesList }))
 
-        // Check if there are more messages to load
+        // Older pages start from the oldest fetched message, and "has more" counts withheld ones too
+        oldestFetchedRef.current[selectedContact.id] = Math.min(...fetchedMessages.map((msg) => msg.timestamp))
         setHasMoreMessages((prev) => ({
           ...prev,
-          [selectedContact.id]: messagesList.length === MESSAGE_LIMIT,
+          [selectedContact.id]: fetchedMessages.length === MESSAGE_LIMIT,
         }))
 
         // Mark messages as read when opening the chat AND update delivery status
@@ -320,6 +434,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
           const deliveryUpdates: { [key: string]: any } = {}
           senderMessages.forEach((msg) => {
             deliveryUpdates[`messages/${chatId}/${msg.id}/status`] = "delivered"
+            deliveryUpdates[`messages/${chatId}/${msg.id}/deliveredAt`] = Date.now()
           })
           await update(ref(database), deliveryUpdates)
         }
@@ -330,81 +445,555 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     })
 
     return () => unsubscribe()
-  }, [currentUser, selectedContact, database, MESSAGE_LIMIT])
+  }, [currentUser, selectedContact, database, blockedUsers, MESSAGE_LIMIT])
+
+  // Writes a DM and updates both users' contact entries (last message + unread count)
+  const deliverDirectMessage = useCallback(
+    async (contactId: string, fields: { [key: string]: any }, messageId?: string): Promise<void> => {
+      if (!currentUser) return
+
+      // Chat only opens once the contact has accepted our request
+      const requestSnapshot = await get(ref(database, `contacts/${currentUser.uid}/${contactId}/requestStatus`))
+      if (requestSnapshot.exists()) {
+        throw new Error("Contact request hasn't been accepted")
+      }
+
+      const chatId = getChatId(currentUser.uid, contactId)
+      const messagesRef = ref(database, `messages/${chatId}`)
+      // Outbox messages reuse the key reserved when they were queued
+      const newMessageRef = messageId ? ref(database, `messages/${chatId}/${messageId}`) : push(messagesRef)
+
+      // Read the timer at send time so scheduled and forwarded messages pick it up too
+      const timerSnapshot = await get(ref(database, `chatSettings/${chatId}/disappearingTimer`))
+      // If the receiver has blocked us the message is kept for our side only; we still see it as sent
+      const blockedSnapshot = await get(ref(database, getBlockedByPath(currentUser.uid, contactId)))
+      const withheld = blockedSnapshot.exists()
+
+      const message = {
+        text: "",
+        senderUid: currentUser.uid,
+        receiverUid: contactId,
+        timestamp: {
+          ".sv": "timestamp",
+        },
+        clientTimestamp: Date.now(),
+        status: "sent",
+        fileUrl: null,
+        fileType: null,
+        fileName: null,
+        reactions: {},
+        read: false,
+        expiresAt: getExpiresAt(timerSnapshot.val()),
+        withheld: withheld || null,
+        ...fields,
+      }
+
+      // Send message directly to Firebase - let the real-time listener handle UI updates
+      await set(newMessageRef, message)
+
+      // After sending message successfully, set up a listener for delivery status
+      const deliveryRef = ref(database, `messageDelivery/${chatId}/${newMessageRef.key}`)
+
+      // Listen for when the receiver marks this message as delivered
+      const deliveryListener = onValue(deliveryRef, (snapshot) => {
+        if (snapshot.exists() && snapshot.val().delivered) {
+          // Update message status to delivered
+          const messageRef = ref(database, `messages/${chatId}/${newMessageRef.key}`)
+          update(messageRef, { status: "delivered" })
+        }
+      })
+
+      // Clean up listener after a reasonable time
+      setTimeout(() => deliveryListener(), 30000)
+
+      // Update both users' contact lists with last message info
+      const messageText =
+        message.text || (fields.voiceNote ? VOICE_NOTE_PREVIEW : message.fileName ? `📎 ${message.fileName}` : "File")
+      const timestamp = Date.now()
+
+      // Update sender's contact list
+      const senderContactRef = ref(database, `contacts/${currentUser.uid}/${contactId}`)
+      await update(senderContactRef, {
+        lastMessage: messageText,
+        timestamp,
+      })
+
+      if (withheld) return
+
+      // Update receiver's contact list and increment unread count
+      const receiverContactRef = ref(database, `contacts/${contactId}/${currentUser.uid}`)
+      const receiverContactSnapshot = await get(receiverContactRef)
+      const currentUnread = receiverContactSnapshot.exists() ? receiverContactSnapshot.val().unread || 0 : 0
+
+      await update(receiverContactRef, {
+        lastMessage: messageText,
+        timestamp,
+        unread: currentUnread + 1,
+      })
+    },
+    [currentUser, database],
+  )
+
+  const toOutboxMessage = (message: Message): OutboxMessage => ({
+    id: message.id,
+    senderUid: message.senderUid,
+    receiverUid: message.receiverUid,
+    text: message.text,
+    timestamp: message.timestamp,
+    status: message.status as OutboxStatus,
+    fileUrl: message.fileUrl,
+    fileType: message.fileType,
+    fileName: message.fileName,
+    replyToId: message.replyToId,
+    replyToText: message.replyToText,
+    attempts: message.attempts || 0,
+    nextAttemptAt: message.nextAttemptAt || 0,
+  })
+
+  // Track the real connection: Firebase's .info/connected plus the browser's online state.
+  // .info/connected reports false while the first connection is set up, so it only counts once we've been online.
+  useEffect(() => {
+    const connectedRef = ref(database, ".info/connected")
+    const updateConnection = () =>
+      setIsConnected(navigator.onLine && (firebaseConnectedRef.current || !hasConnectedRef.current))
+
+    const unsubscribe = onValue(connectedRef, (snapshot) => {
+      firebaseConnectedRef.current = snapshot.val() === true
+      if (firebaseConnectedRef.current) hasConnectedRef.current = true
+      updateConnection()
+    })
+
+    const handleOffline = () => setIsConnected(false)
+    const handleOnline = () => updateConnection()
+    window.addEventListener("offline", handleOffline)
+    window.addEventListener("online", handleOnline)
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener("offline", handleOffline)
+      window.removeEventListener("online", handleOnline)
+    }
+  }, [database])
+
+  // Restore the outbox saved by a previous session
+  useEffect(() => {
+    if (!currentUser) {
+      setPendingMessages([])
+      return
+    }
+
+    getOutboxMessages(currentUser.uid)
+      .then((outboxMessages) => {
+        setPendingMessages(
+          outboxMessages.map((message) => ({
+            ...message,
+            // A send interrupted by a reload is retried from the start
+            status: message.status === "sending" ? "queued" : message.status,
+            sender: "user",
+            isTemp: true,
+          })),
+        )
+      })
+      .catch((error) => console.error("Failed to load outbox:", error))
+  }, [currentUser])
+
+  // Updates a pending message in state and mirrors it to IndexedDB
+  const savePendingMessage = useCallback(async (message: Message) => {
+    setPendingMessages((prev) =>
+      prev.some((m) => m.id === message.id) ? prev.map((m) => (m.id === message.id ? message : m)) : [...prev, message],
+    )
+
+    try {
+      await saveOutboxMessage(toOutboxMessage(message))
+    } catch (error) {
+      // The message still goes out from memory, it just won't survive a reload
+      console.error("Failed to save message to outbox:", error)
+    }
+  }, [])
+
+  const removePendingMessage = useCallback(async (messageId: string) => {
+    setPendingMessages((prev) => prev.filter((m) => m.id !== messageId))
+
+    try {
+      await deleteOutboxMessage(messageId)
+    } catch (error) {
+      console.error("Failed to remove message from outbox:", error)
+    }
+  }, [])
+
+  const sendPendingMessage = useCallback(
+    async (message: Message) => {
+      if (!currentUser) return
+
+      const chatId = getChatId(currentUser.uid, message.receiverUid)
+      await savePendingMessage({ ...message, status: "sending" })
+
+      try {
+        // A write that timed out earlier may have gone through once Firebase reconnected
+        const alreadySent =
+          (message.attempts || 0) > 0 && (await get(ref(database, `messages/${chatId}/${message.id}`))).exists()
+
+        if (!alreadySent) {
+          await withTimeout(
+            deliverDirectMessage(
+              message.receiverUid,
+              {
+                text: message.text,
+                fileUrl: message.fileUrl || null,
+                fileType: message.fileType || null,
+                fileName: message.fileName || null,
+                replyToId: message.replyToId || null,
+                replyToText: message.replyToText || null,
+              },
+              message.id,
+            ),
+            OUTBOX_SEND_TIMEOUT,
+          )
+
+          // Count the reply on its parent so the thread size is known without loading it
+          if (message.replyToId) {
+            await update(ref(database, `messages/${chatId}/${message.replyToId}`), { replyCount: increment(1) })
+          }
+        }
+
+        await removePendingMessage(message.id)
+      } catch (error) {
+        console.error("Failed to send message:", error)
+        const attempts = (message.attempts || 0) + 1
+        await savePendingMessage({
+          ...message,
+          status: attempts >= OUTBOX_MAX_ATTEMPTS ? "failed" : "queued",
+          attempts,
+          nextAttemptAt: Date.now() + getOutboxRetryDelay(attempts),
+        })
+      }
+    },
+    [currentUser, database, deliverDirectMessage, savePendingMessage, removePendingMessage],
+  )
+
+  // Send queued messages one at a time, oldest first, so they arrive in the order they were written
+  useEffect(() => {
+    if (!currentUser || !isConnected) return
+    if (pendingMessages.some((m) => m.status === "sending")) return
+
+    const nextMessage = pendingMessages
+      .filter((m) => m.status === "queued")
+      .sort((a, b) => a.timestamp - b.timestamp)[0]
+    if (!nextMessage) return
+
+    const delay = Math.max((nextMessage.nextAttemptAt || 0) - Date.now(), 0)
+    const timeout = setTimeout(() => sendPendingMessage(nextMessage), delay)
+    return () => clearTimeout(timeout)
+  }, [currentUser, isConnected, pendingMessages, sendPendingMessage])
+
+  // Skip the remaining backoff as soon as the connection comes back
+  useEffect(() => {
+    if (!isConnected) return
+    setPendingMessages((prev) =>
+      prev.some((m) => m.status === "queued" && (m.nextAttemptAt || 0) > Date.now())
+        ? prev.map((m) => (m.status === "queued" ? { ...m, nextAttemptAt: Date.now() } : m))
+        : prev,
+    )
+  }, [isConnected])
+
+  // Messages go to the outbox first and show up as queued bubbles until Firebase has them.
+  // Returns the push key reserved for the message, which it keeps once delivered.
+  const queueMessage = useCallback(
+    async (
+      contactId: string,
+      fields: Pick<Message, "text" | "fileUrl" | "fileType" | "fileName" | "replyToId" | "replyToText">,
+    ): Promise<string | null> => {
+      if (!currentUser) return null
+
+      const chatId = getChatId(currentUser.uid, contactId)
+      const messageId = push(ref(database, `messages/${chatId}`)).key
+      if (!messageId) return null
+
+      await savePendingMessage({
+        ...fields,
+        id: messageId,
+        senderUid: currentUser.uid,
+        receiverUid: contactId,
+        timestamp: Date.now(),
+        status: "queued",
+        sender: "user",
+        isTemp: true,
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+      })
+      return messageId
+    },
+    [currentUser, database, savePendingMessage],
+  )
 
   const sendMessage = useCallback(
     async (text: string, replyToId?: string, fileUrl?: string, fileType?: string, fileName?: string): Promise<void> => {
       if (!currentUser || !selectedContact) return
 
-      const chatId = getChatId(currentUser.uid, selectedContact.id)
-      const messagesRef = ref(database, `messages/${chatId}`)
-      const newMessageRef = push(messagesRef)
+      await queueMessage(selectedContact.id, {
+        text,
+        fileUrl,
+        fileType,
+        fileName,
+        replyToId,
+        replyToText: replyToId ? messages[selectedContact.id]?.find((m) => m.id === replyToId)?.text : undefined,
+      })
+    },
+    [currentUser, selectedContact, messages, queueMessage],
+  )
+
+  // Queues the text as a separate DM to every recipient, then records which message went to whom
+  // so the list's history can follow each copy
+  const sendBroadcastMessage = useCallback(
+    async (listId: string, recipients: { id: string; name: string }[], text: string): Promise<void> => {
+      if (!currentUser) return
 
       try {
-        const message = {
+        const broadcastRecipients: { [contactId: string]: { messageId: string; name: string } } = {}
+        for (const recipient of recipients) {
+          const messageId = await queueMessage(recipient.id, { text })
+          if (messageId) broadcastRecipients[recipient.id] = { messageId, name: recipient.name }
+        }
+
+        await set(push(ref(database, `broadcastMessages/${currentUser.uid}/${listId}`)), {
           text,
-          senderUid: currentUser.uid,
-          receiverUid: selectedContact.id,
-          timestamp: {
+          sentAt: {
             ".sv": "timestamp",
           },
-          clientTimestamp: Date.now(),
-          status: "sent",
-          fileUrl: fileUrl || null,
-          fileType: fileType || null,
-          fileName: fileName || null,
-          replyToId: replyToId || null,
-          replyToText: replyToId ? messages[selectedContact.id]?.find((m) => m.id === replyToId)?.text || null : null,
-          reactions: {},
-          read: false,
+          recipients: broadcastRecipients,
+        })
+      } catch (error) {
+        console.error("Failed to send broadcast:", error)
+        setError("Failed to send broadcast")
+        throw error
+      }
+    },
+    [currentUser, database, queueMessage],
+  )
+
+  const retryPendingMessage = useCallback(
+    async (messageId: string): Promise<void> => {
+      const message = pendingMessages.find((m) => m.id === messageId)
+      if (!message) return
+
+      await savePendingMessage({ ...message, status: "queued", attempts: 0, nextAttemptAt: Date.now() })
+    },
+    [pendingMessages, savePendingMessage],
+  )
+
+  const cancelPendingMessage = useCallback(
+    async (messageId: string): Promise<void> => {
+      const message = pendingMessages.find((m) => m.id === messageId)
+      // Once it is on its way the write can't be taken back
+      if (!message || message.status === "sending") return
+
+      await removePendingMessage(messageId)
+    },
+    [pendingMessages, removePendingMessage],
+  )
+
+  const forwardMessage = useCallback(
+    async (
+      contactId: string,
+      message: Pick<Message, "text" | "fileUrl" | "fileType" | "fileName">,
+      forwardedFrom: ForwardedFrom,
+    ): Promise<void> => {
+      if (!currentUser) return
+
+      try {
+        // Attachments are forwarded by reference, so nothing is uploaded again
+        await deliverDirectMessage(contactId, {
+          text: message.text || "",
+          fileUrl: message.fileUrl || null,
+          fileType: message.fileType || null,
+          fileName: message.fileName || null,
+          forwardedFrom,
+        })
+      } catch (error) {
+        console.error("Failed to forward message:", error)
+        setError("Failed to forward message")
+        throw error
+      }
+    },
+    [currentUser, deliverDirectMessage],
+  )
+
+  const sendPoll = useCallback(
+    async (
+      contactId: string,
+      poll: Pick<Poll, "question" | "options" | "allowMultiple" | "anonymous" | "closesAt">,
+    ): Promise<void> => {
+      if (!currentUser) return
+
+      try {
+        await deliverDirectMessage(contactId, {
+          text: getPollPreview(poll),
+          type: "poll",
+          poll: {
+            ...poll,
+            closesAt: poll.closesAt || null,
+            createdBy: currentUser.uid,
+          },
+        })
+      } catch (error) {
+        console.error("Failed to send poll:", error)
+        setError("Failed to send poll")
+        throw error
+      }
+    },
+    [currentUser, deliverDirectMessage],
+  )
+
+  const votePoll = useCallback(
+    async (messageId: string, contactId: string, optionIds: string[], voteKey: string): Promise<void> => {
+      if (!currentUser) return
+
+      try {
+        const chatId = getChatId(currentUser.uid, contactId)
+        const pollRef = ref(database, `messages/${chatId}/${messageId}/poll`)
+        const pollSnapshot = await get(pollRef)
+        if (!pollSnapshot.exists()) return
+
+        const poll = pollSnapshot.val()
+        if (poll.closedAt || (poll.closesAt && Date.now() >= poll.closesAt)) return
+
+        // Each voter only ever writes their own entry, so simultaneous votes can't clobber each other
+        const voteRef = ref(database, `messages/${chatId}/${messageId}/poll/votes/${voteKey}`)
+        if (optionIds.length === 0) {
+          await remove(voteRef)
+          return
         }
 
-        // Send message directly to Firebase - let the real-time listener handle UI updates
-        await set(newMessageRef, message)
+        await set(voteRef, {
+          options: Object.fromEntries(optionIds.map((optionId) => [optionId, true])),
+          ...(poll.anonymous ? {} : { name: userProfile?.name || "Unknown" }),
+          timestamp: Date.now(),
+        })
+      } catch (error) {
+        console.error("Failed to vote on poll:", error)
+        setError("Failed to vote on poll")
+        throw error
+      }
+    },
+    [currentUser, userProfile, database],
+  )
 
-        // After sending message successfully, set up a listener for delivery status
-        const deliveryRef = ref(database, `messageDelivery/${chatId}/${newMessageRef.key}`)
+  const closePoll = useCallback(
+    async (messageId: string, contactId: string): Promise<void> => {
+      if (!currentUser) return
 
-        // Listen for when the receiver marks this message as delivered
-        const deliveryListener = onValue(deliveryRef, (snapshot) => {
-          if (snapshot.exists() && snapshot.val().delivered) {
-            // Update message status to delivered
-            const messageRef = ref(database, `messages/${chatId}/${newMessageRef.key}`)
-            update(messageRef, { status: "delivered" })
-          }
+      try {
+        const chatId = getChatId(currentUser.uid, contactId)
+        const pollRef = ref(database, `messages/${chatId}/${messageId}/poll`)
+        const pollSnapshot = await get(pollRef)
+
+        // Only the poll's creator can close it in a direct chat
+        if (!pollSnapshot.exists() || pollSnapshot.val().createdBy !== currentUser.uid) return
+
+        await update(pollRef, {
+          closedAt: Date.now(),
+          closedBy: currentUser.uid,
         })
+      } catch (error) {
+        console.error("Failed to close poll:", error)
+        setError("Failed to close poll")
+        throw error
+      }
+    },
+    [currentUser, database],
+  )
 
-        // Clean up listener after a reasonable time
-        setTimeout(() => deliveryListener(), 30000)
+  // Delivers a message queued with "Send later" through the same path as sendMessage
+  const sendScheduledMessage = useCallback(
+    async (contactId: string, text: string, scheduledAt: number): Promise<void> => {
+      if (!currentUser) return
 
-        // Update both users' contact lists with last message info
-        const messageText = text || (fileName ? `📎 ${fileName}` : "File")
-        const timestamp = Date.now()
+      try {
+        await deliverDirectMessage(contactId, { text, scheduledAt })
+      } catch (error) {
+        console.error("Failed to send scheduled message:", error)
+        setError("Failed to send scheduled message")
+        throw error
+      }
+    },
+    [currentUser, deliverDirectMessage],
+  )
+
+  const sendVoiceNote = useCallback(
+    async (contactId: string, fileUrl: string, fileName: string, voiceNote: VoiceNote): Promise<void> => {
+      if (!currentUser) return
 
-        // Update sender's contact list
-        const senderContactRef = ref(database, `contacts/${currentUser.uid}/${selectedContact.id}`)
-        await update(senderContactRef, {
-          lastMessage: messageText,
-          timestamp,
+      try {
+        await deliverDirectMessage(contactId, {
+          fileUrl,
+          fileType: "audio",
+          fileName,
+          voiceNote,
+          listened: false,
         })
+      } catch (error) {
+        console.error("Failed to send voice message:", error)
+        setError("Failed to send voice message")
+        throw error
+      }
+    },
+    [currentUser, deliverDirectMessage],
+  )
+
+  // Either participant can change a DM's timer; the change is announced with a system message
+  const setDisappearingTimer = useCallback(
+    async (contactId: string, timer: number): Promise<void> => {
+      if (!currentUser) return
 
-        // Update receiver's contact list and increment unread count
-        const receiverContactRef = ref(database, `contacts/${selectedContact.id}/${currentUser.uid}`)
-        const receiverContactSnapshot = await get(receiverContactRef)
-        const currentUnread = receiverContactSnapshot.exists() ? receiverContactSnapshot.val().unread || 0 : 0
+      try {
+        const chatId = getChatId(currentUser.uid, contactId)
+        await set(ref(database, `chatSettings/${chatId}/disappearingTimer`), timer)
 
-        await update(receiverContactRef, {
-          lastMessage: messageText,
-          timestamp,
-          unread: currentUnread + 1,
+        // System messages stay out of unread counts and the contact's last message
+        await set(push(ref(database, `messages/${chatId}`)), {
+          type: "system",
+          systemEvent: "disappearing_timer",
+          text: getDisappearingTimerNotice(userProfile?.name || "Someone", timer),
+          senderUid: currentUser.uid,
+          receiverUid: contactId,
+          timestamp: {
+            ".sv": "timestamp",
+          },
+          clientTimestamp: Date.now(),
+          read: true,
         })
       } catch (error) {
-        console.error("Failed to send message:", error)
-        setError("Failed to send message")
+        console.error("Failed to update disappearing messages:", error)
+        setError("Failed to update disappearing messages")
         throw error
       }
     },
-    [currentUser, selectedContact, database, messages],
+    [currentUser, userProfile, database],
+  )
+
+  const markVoiceNoteListened = useCallback(
+    async (messageId: string, contactId: string): Promise<void> => {
+      if (!currentUser) return
+
+      try {
+        const chatId = getChatId(currentUser.uid, contactId)
+        const messageRef = ref(database, `messages/${chatId}/${messageId}`)
+        const messageSnapshot = await get(messageRef)
+        if (!messageSnapshot.exists()) return
+
+        // Only the recipient playing the clip counts, mirroring read receipts
+        const messageData = messageSnapshot.val()
+        if (messageData.senderUid === currentUser.uid || messageData.listened) return
+
+        await update(messageRef, {
+          listened: true,
+          listenedAt: Date.now(),
+        })
+      } catch (error) {
+        console.error("Failed to mark voice message as listened:", error)
+      }
+    },
+    [currentUser, database],
   )
 
   const addReaction = useCallback(
@@ -490,6 +1079,53 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     [currentUser, database],
   )
 
+  const editMessage = useCallback(
+    async (
+      messageId: string,
+      conversation: { contactId: string } | { groupId: string },
+      newText: string,
+    ): Promise<void> => {
+      if (!currentUser || !newText.trim()) return
+
+      try {
+        const messagePath =
+          "groupId" in conversation
+            ? `groupMessages/${conversation.groupId}/${messageId}`
+            : `messages/${getChatId(currentUser.uid, conversation.contactId)}/${messageId}`
+        const messageRef = ref(database, messagePath)
+
+        const messageSnapshot = await get(messageRef)
+        if (!messageSnapshot.exists()) return
+
+        const messageData = messageSnapshot.val()
+
+        // Only the sender can edit, and deleted messages stay deleted
+        if (messageData.senderUid !== currentUser.uid || messageData.isDeleted) return
+        if ((messageData.text || "") === newText.trim()) return
+
+        // Keep the version being replaced, stamped with the time it was written
+        const historyKey = push(ref(database, `${messagePath}/editHistory`)).key
+        const previousTimestamp =
+          messageData.editedAt ||
+          (typeof messageData.timestamp === "number" ? messageData.timestamp : messageData.clientTimestamp || 0)
+
+        await update(messageRef, {
+          text: newText.trim(),
+          editedAt: Date.now(),
+          [`editHistory/${historyKey}`]: {
+            text: messageData.text || "",
+            timestamp: previousTimestamp,
+          },
+        })
+      } catch (error) {
+        console.error("Failed to edit message:", error)
+        setError("Failed to edit message")
+        throw error
+      }
+    },
+    [currentUser, database],
+  )
+
   const updateContactName = useCallback(
     async (contactId: string, newName: string): Promise<void> => {
       if (!currentUser) return
@@ -512,6 +1148,87 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     [currentUser, database, setContacts],
   )
 
+  const blockContact = useCallback(
+    async (contactId: string): Promise<void> => {
+      if (!currentUser) return
+
+      try {
+        const chatId = getChatId(currentUser.uid, contactId)
+        await update(ref(database), {
+          [getBlockedUserPath(currentUser.uid, contactId)]: { ".sv": "timestamp" },
+          [getBlockedByPath(contactId, currentUser.uid)]: true,
+          [`typing/${chatId}/${currentUser.uid}`]: null,
+        })
+      } catch (error) {
+        console.error("Error blocking contact:", error)
+        setError("Failed to block contact")
+        throw error
+      }
+    },
+    [currentUser, database],
+  )
+
+  const unblockContact = useCallback(
+    async (contactId: string): Promise<void> => {
+      if (!currentUser) return
+
+      try {
+        await update(ref(database), {
+          [getBlockedUserPath(currentUser.uid, contactId)]: null,
+          [getBlockedByPath(contactId, currentUser.uid)]: null,
+        })
+      } catch (error) {
+        console.error("Error unblocking contact:", error)
+        setError("Failed to unblock contact")
+        throw error
+      }
+    },
+    [currentUser, database],
+  )
+
+  // Files a report in the moderation queue with the latest messages of the chat attached
+  const reportContact = useCallback(
+    async (contactId: string, reason: ReportReason, details: string): Promise<void> => {
+      if (!currentUser) return
+
+      try {
+        const chatId = getChatId(currentUser.uid, contactId)
+        const recentSnapshot = await get(
+          query(ref(database, `messages/${chatId}`), orderByChild("timestamp"), limitToLast(REPORT_SNAPSHOT_SIZE)),
+        )
+
+        const recentMessages: ReportedMessage[] = []
+        recentSnapshot.forEach((child) => {
+          const msgData = child.val()
+          if (msgData.type === "system") return
+          recentMessages.push({
+            id: child.key as string,
+            senderUid: msgData.senderUid,
+            text: msgData.isDeleted ? msgData.originalText || "" : msgData.text || "",
+            fileUrl: (msgData.isDeleted ? msgData.originalFileUrl : msgData.fileUrl) || null,
+            fileName: (msgData.isDeleted ? msgData.originalFileName : msgData.fileName) || null,
+            timestamp: typeof msgData.timestamp === "number" ? msgData.timestamp : msgData.clientTimestamp || 0,
+          })
+        })
+
+        await push(ref(database, "reports"), {
+          reporterUid: currentUser.uid,
+          reportedUid: contactId,
+          reason,
+          details: details.trim(),
+          messages: recentMessages,
+          status: "open",
+          createdAt: { ".sv": "timestamp" },
+        })
+      } catch (error) {
+        console.error("Error reporting contact:", error)
+        setError("Failed to report contact")
+        throw error
+      }
+    },
+    [currentUser, database],
+  )
+
   // Cleanup typing timeouts on unmount
   useEffect(() => {
     return () => {
@@ -526,14 +1243,27 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setSelectedContact,
     messages,
     sendMessage,
+    sendBroadcastMessage,
+    forwardMessage,
+    sendPoll,
+    votePoll,
+    closePoll,
+    setDisappearingTimer,
+    sendScheduledMessage,
+    sendVoiceNote,
+    markVoiceNoteListened,
     addReaction,
     deleteMessage,
+    editMessage,
     contacts,
     setContacts,
     error,
     setError,
     pendingMessages,
     setPendingMessages,
+    retryPendingMessage,
+    cancelPendingMessage,
+    isConnected,
     typingUsers,
     setTyping,
     startTyping,
@@ -542,6 +1272,11 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     loadMoreMessages,
     hasMoreMessages,
     updateContactName,
+    blockedUsers,
+    blockedByUsers,
+    blockContact,
+    unblockContact,
+    reportContact,
   }
 
   return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>
@@ -0,0 +1,35 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ref, onValue } from "firebase/database"
+import { database } from "@/lib/firebase"
+import type { BroadcastMessage } from "@/lib/broadcast-lists"
+
+interface DeliveredCopy {
+  status?: string
+  read?: boolean
+  deliveredAt?: number
+}
+
+const getChatId = (uid1: string, uid2: string) => (uid1 > uid2 ? `${uid1}-${uid2}` : `${uid2}-${uid1}`)
+
+// Follows each recipient's copy of one broadcast; only the broadcast being inspected is listened to,
+// since a list can have hundreds of recipients. Copies not written yet map to null.
+export function useBroadcastDelivery(userId: string | undefined, broadcast: BroadcastMessage | null) {
+  const [copies, setCopies] = useState<{ [contactId: string]: DeliveredCopy | null }>({})
+
+  useEffect(() => {
+    setCopies({})
+    if (!userId || !broadcast) return
+
+    const unsubscribes = Object.entries(broadcast.recipients || {}).map(([contactId, recipient]) =>
+      onValue(ref(database, `messages/${getChatId(userId, contactId)}/${recipient.messageId}`), (snapshot) => {
+        setCopies((prev) => ({ ...prev, [contactId]: snapshot.exists() ? snapshot.val() : null }))
+      }),
+    )
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [userId, broadcast])
+
+  return copies
+}
@@ -0,0 +1,35 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ref, onValue, query, orderByChild, limitToLast } from "firebase/database"
+import { database } from "@/lib/firebase"
+import { BROADCAST_HISTORY_LIMIT, type BroadcastMessage } from "@/lib/broadcast-lists"
+
+// The most recent broadcasts sent to a list, oldest first
+export function useBroadcastHistory(userId: string | undefined, listId: string | null) {
+  const [broadcasts, setBroadcasts] = useState<BroadcastMessage[]>([])
+
+  useEffect(() => {
+    if (!userId || !listId) {
+      setBroadcasts([])
+      return
+    }
+
+    const historyQuery = query(
+      ref(database, `broadcastMessages/${userId}/${listId}`),
+      orderByChild("sentAt"),
+      limitToLast(BROADCAST_HISTORY_LIMIT),
+    )
+    const unsubscribe = onValue(historyQuery, (snapshot) => {
+      const broadcastsList: BroadcastMessage[] = []
+      snapshot.forEach((child) => {
+        broadcastsList.push({ ...child.val(), id: child.key as string })
+      })
+      setBroadcasts(broadcastsList)
+    })
+
+    return () => unsubscribe()
+  }, [userId, listId])
+
+  return broadcasts
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ref, onValue, push, set, update } from "firebase/database"
+import { database } from "@/lib/firebase"
+import { parseBroadcastLists, type BroadcastList } from "@/lib/broadcast-lists"
+
+// The signed-in user's broadcast lists, oldest first, with save and delete
+export function useBroadcastLists(userId: string | undefined) {
+  const [broadcastLists, setBroadcastLists] = useState<BroadcastList[]>([])
+
+  useEffect(() => {
+    if (!userId) {
+      setBroadcastLists([])
+      return
+    }
+
+    const listsRef = ref(database, `broadcastLists/${userId}`)
+    const unsubscribe = onValue(listsRef, (snapshot) => {
+      setBroadcastLists(parseBroadcastLists(snapshot.val()))
+    })
+
+    return () => unsubscribe()
+  }, [userId])
+
+  // Creates a list when no existing one is passed; returns the list's id
+  const saveBroadcastList = useCallback(
+    async (list: BroadcastList | null, name: string, recipientIds: string[]) => {
+      if (!userId) return null
+
+      const listRef = list
+        ? ref(database, `broadcastLists/${userId}/${list.id}`)
+        : push(ref(database, `broadcastLists/${userId}`))
+
+      await set(listRef, {
+        name,
+        recipients: Object.fromEntries(recipientIds.map((id) => [id, true])),
+        createdAt: list?.createdAt || Date.now(),
+      })
+      return listRef.key
+    },
+    [userId],
+  )
+
+  // The DMs already sent stay in each recipient's chat; only the list and its history go
+  const deleteBroadcastList = useCallback(
+    async (listId: string) => {
+      if (!userId) return
+
+      await update(ref(database), {
+        [`broadcastLists/${userId}/${listId}`]: null,
+        [`broadcastMessages/${userId}/${listId}`]: null,
+      })
+    },
+    [userId],
+  )
+
+  return { broadcastLists, saveBroadcastList, deleteBroadcastList }
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ref, onValue, update, get, set } from "firebase/database"
+import { database } from "@/lib/firebase"
+import { getBlockedByPath } from "@/lib/moderation"
+import type { DirectoryUser } from "@/lib/usernames"
+import type {
+  AddContactOutcome,
+  ContactRequest,
+  ContactRequestSender,
+  ContactRequestStatus,
+} from "@/lib/contact-requests"
+
+// Incoming contact requests for the signed-in user, oldest first, with accept, decline and sending new ones
+export function useContactRequests(userId: string | undefined) {
+  const [contactRequests, setContactRequests] = useState<ContactRequest[]>([])
+
+  useEffect(() => {
+    if (!userId) {
+      setContactRequests([])
+      return
+    }
+
+    const requestsRef = ref(database, `contactRequests/${userId}`)
+    const unsubscribe = onValue(requestsRef, (snapshot) => {
+      if (!snapshot.exists()) {
+        setContactRequests([])
+        return
+      }
+
+      const requestsData = snapshot.val()
+      const requestsList = Object.keys(requestsData).map((key) => ({ ...requestsData[key], id: key }))
+      requestsList.sort((a, b) => a.createdAt - b.createdAt)
+      setContactRequests(requestsList)
+    })
+
+    return () => unsubscribe()
+  }, [userId])
+
+  const acceptContactRequest = useCallback(
+    async (request: ContactRequest) => {
+      if (!userId) return
+
+      await update(ref(database), {
+        [`contacts/${userId}/${request.id}`]: {
+          name: request.name,
+          email: request.email,
+          addedAt: Date.now(),
+          lastMessage: "",
+          timestamp: 0,
+          unread: 0,
+        },
+        [`contacts/${request.id}/${userId}/requestStatus`]: null,
+        [`contactRequests/${userId}/${request.id}`]: null,
+      })
+    },
+    [userId],
+  )
+
+  const declineContactRequest = useCallback(
+    async (request: ContactRequest) => {
+      if (!userId) return
+
+      await update(ref(database), {
+        [`contacts/${request.id}/${userId}/requestStatus`]: "declined",
+        [`contactRequests/${userId}/${request.id}`]: null,
+      })
+    },
+    [userId],
+  )
+
+  const sendContactRequest = useCallback(
+    async (user: DirectoryUser, sender: ContactRequestSender): Promise<AddContactOutcome> => {
+      if (!userId) throw new Error("You must be signed in to add contacts")
+      if (user.uid === userId) return "self"
+
+      const existingContactRef = ref(database, `contacts/${userId}/${user.uid}`)
+      const existingSnapshot = await get(existingContactRef)
+      if (existingSnapshot.exists()) {
+        return (existingSnapshot.val().requestStatus as ContactRequestStatus | undefined) || "exists"
+      }
+
+      // If they already asked to add us, adding them back accepts their request
+      const incomingRequest = contactRequests.find((request) => request.id === user.uid)
+      if (incomingRequest) {
+        await acceptContactRequest(incomingRequest)
+        return "accepted"
+      }
+
+      // Add contact for current user; chat unlocks once they accept
+      await set(existingContactRef, {
+        name: user.name,
+        email: user.email,
+        addedAt: Date.now(),
+        lastMessage: "",
+        timestamp: 0,
+        unread: 0,
+        requestStatus: "pending",
+      })
+
+      // Send the request, unless they have blocked us - then it just stays pending
+      const blockedBySnapshot = await get(ref(database, getBlockedByPath(userId, user.uid)))
+      if (!blockedBySnapshot.exists()) {
+        await set(ref(database, `contactRequests/${user.uid}/${userId}`), {
+          name: sender.name,
+          email: sender.email,
+          avatar: sender.avatar || null,
+          createdAt: Date.now(),
+        })
+      }
+
+      return "sent"
+    },
+    [userId, contactRequests, acceptContactRequest],
+  )
+
+  return { contactRequests, acceptContactRequest, declineContactRequest, sendContactRequest }
+}
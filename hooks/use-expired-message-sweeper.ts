@@ -0,0 +1,59 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { ref, get, query, orderByChild, startAt, endAt, update } from "firebase/database"
+import { database } from "@/lib/firebase"
+import { EXPIRED_SWEEP_INTERVAL } from "@/lib/disappearing-messages"
+
+// Hard-deletes expired messages from the given conversations while the app is open.
+// Paths are `messages/{chatId}` or `groupMessages/{groupId}`; pins of removed messages
+// are cleared too. Clients hide expired messages on their own, so a late sweep is harmless.
+export function useExpiredMessageSweeper(conversationPaths: string[]) {
+  const pathsKey = conversationPaths.join(",")
+  const isSweepingRef = useRef(false)
+
+  useEffect(() => {
+    if (!pathsKey) return
+    const paths = pathsKey.split(",")
+
+    const sweepExpiredMessages = async () => {
+      if (isSweepingRef.current) return
+      isSweepingRef.current = true
+
+      try {
+        for (const path of paths) {
+          // startAt(1) skips messages without an expiresAt, which sort first
+          const expiredQuery = query(ref(database, path), orderByChild("expiresAt"), startAt(1), endAt(Date.now()))
+          const snapshot = await get(expiredQuery)
+          if (!snapshot.exists()) continue
+
+          const conversationKey = path.split("/")[1]
+          const updates: { [path: string]: null } = {}
+          const pinUpdates: { [path: string]: null } = {}
+          snapshot.forEach((child) => {
+            updates[`${path}/${child.key}`] = null
+            pinUpdates[`pinnedMessages/${conversationKey}/${child.key}`] = null
+          })
+
+          await update(ref(database), updates)
+
+          // Pins go in their own write: the rules only let members who can't pin clear a pin once its
+          // message is gone, and a rejected pin cleanup must not hold up the sweep
+          try {
+            await update(ref(database), pinUpdates)
+          } catch (error) {
+            console.error("Failed to clear pins of expired messages:", error)
+          }
+        }
+      } catch (error) {
+        console.error("Failed to delete expired messages:", error)
+      } finally {
+        isSweepingRef.current = false
+      }
+    }
+
+    sweepExpiredMessages()
+    const interval = setInterval(sweepExpiredMessages, EXPIRED_SWEEP_INTERVAL)
+    return () => clearInterval(interval)
+  }, [pathsKey])
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ref, onValue, update } from "firebase/database"
+import { database } from "@/lib/firebase"
+import { generateInviteCode } from "@/lib/invite-links"
+import { parseGroupInviteLink, type GroupInviteLink } from "@/lib/group-invites"
+
+// A group's active invite link, with create/replace and revoke for admins
+export function useGroupInviteLink(groupId: string | undefined, inviteCode: string | undefined, userId: string) {
+  const [invite, setInvite] = useState<GroupInviteLink | null>(null)
+
+  useEffect(() => {
+    if (!groupId || !inviteCode) {
+      setInvite(null)
+      return
+    }
+
+    const inviteRef = ref(database, `groupInviteLinks/${inviteCode}`)
+    const unsubscribe = onValue(inviteRef, (snapshot) => {
+      setInvite(snapshot.exists() ? parseGroupInviteLink(inviteCode, snapshot.val()) : null)
+    })
+
+    return () => unsubscribe()
+  }, [groupId, inviteCode])
+
+  // Replaces any existing link, so the old URL stops working
+  const createInvite = useCallback(
+    async (duration: number | null, maxUses: number | null) => {
+      if (!groupId) return
+
+      const code = generateInviteCode()
+      const createdAt = Date.now()
+      const updates: Record<string, unknown> = {
+        [`groupInviteLinks/${code}`]: {
+          groupId,
+          createdBy: userId,
+          createdAt,
+          expiresAt: duration === null ? null : createdAt + duration,
+          maxUses,
+          uses: 0,
+        },
+        [`groups/${groupId}/inviteCode`]: code,
+      }
+      if (inviteCode) updates[`groupInviteLinks/${inviteCode}`] = null
+
+      await update(ref(database), updates)
+    },
+    [groupId, inviteCode, userId],
+  )
+
+  const revokeInvite = useCallback(async () => {
+    if (!groupId || !inviteCode) return
+
+    await update(ref(database), {
+      [`groupInviteLinks/${inviteCode}`]: null,
+      [`groups/${groupId}/inviteCode`]: null,
+    })
+  }, [groupId, inviteCode])
+
+  return { invite, createInvite, revokeInvite }
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ref, onValue, update, get, set, push, increment } from "firebase/database"
+import { database } from "@/lib/firebase"
+import { buildGroupSystemMessage, getMemberJoinedNotice } from "@/lib/group-events"
+import { isInviteExpired } from "@/lib/invite-links"
+import { hasInviteUsesLeft, parseGroupInviteLink, type GroupJoinRequest } from "@/lib/group-invites"
+
+// Pending requests to join a group, oldest first, with approve and reject for admins
+export function useGroupJoinRequests(groupId: string | undefined, isAdmin: boolean) {
+  const [joinRequests, setJoinRequests] = useState<GroupJoinRequest[]>([])
+
+  useEffect(() => {
+    if (!groupId || !isAdmin) {
+      setJoinRequests([])
+      return
+    }
+
+    const requestsRef = ref(database, `groupJoinRequests/${groupId}`)
+    const unsubscribe = onValue(requestsRef, (snapshot) => {
+      if (!snapshot.exists()) {
+        setJoinRequests([])
+        return
+      }
+
+      const requestsData = snapshot.val()
+      const requestsList = Object.keys(requestsData).map((key) => ({ ...requestsData[key], id: key }))
+      requestsList.sort((a, b) => a.requestedAt - b.requestedAt)
+      setJoinRequests(requestsList)
+    })
+
+    return () => unsubscribe()
+  }, [groupId, isAdmin])
+
+  const approveJoinRequest = useCallback(
+    async (request: GroupJoinRequest, approver: { uid: string; name: string }) => {
+      if (!groupId) return
+
+      const updates: Record<string, unknown> = {
+        [`groups/${groupId}/members/${request.id}`]: {
+          name: request.name,
+          role: "member",
+          joinedAt: Date.now(),
+        },
+        [`groupJoinRequests/${groupId}/${request.id}`]: null,
+      }
+
+      // Count the use against the link it came through while that link still admits people. Requests made
+      // before it was replaced, expired or filled up are approved without touching it.
+      const inviteSnapshot = await get(ref(database, `groupInviteLinks/${request.inviteCode}`))
+      if (inviteSnapshot.exists()) {
+        const invite = parseGroupInviteLink(request.inviteCode, inviteSnapshot.val())
+        if (!isInviteExpired(invite) && hasInviteUsesLeft(invite)) {
+          updates[`groupInviteLinks/${request.inviteCode}/uses`] = increment(1)
+        }
+      }
+
+      await update(ref(database), updates)
+      await set(
+        push(ref(database, `groupMessages/${groupId}`)),
+        buildGroupSystemMessage(groupId, "member_joined", getMemberJoinedNotice(request.name), approver),
+      )
+    },
+    [groupId],
+  )
+
+  const rejectJoinRequest = useCallback(
+    async (request: GroupJoinRequest) => {
+      if (!groupId) return
+
+      await set(ref(database, `groupJoinRequests/${groupId}/${request.id}`), null)
+    },
+    [groupId],
+  )
+
+  return { joinRequests, approveJoinRequest, rejectJoinRequest }
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ref, onValue, update } from "firebase/database"
+import { database } from "@/lib/firebase"
+import { generateInviteCode, type InviteLink } from "@/lib/invite-links"
+
+// The signed-in user's active invite link, with create/replace and revoke
+export function useInviteLink(userId: string | undefined) {
+  const [invite, setInvite] = useState<InviteLink | null>(null)
+
+  useEffect(() => {
+    if (!userId) {
+      setInvite(null)
+      return
+    }
+
+    const inviteRef = ref(database, `userInvites/${userId}`)
+    const unsubscribe = onValue(inviteRef, (snapshot) => {
+      if (!snapshot.exists()) {
+        setInvite(null)
+        return
+      }
+
+      // Firebase drops null values, so a missing expiresAt means the link never expires
+      const data = snapshot.val()
+      setInvite({ code: data.code, uid: userId, createdAt: data.createdAt, expiresAt: data.expiresAt ?? null })
+    })
+
+    return () => unsubscribe()
+  }, [userId])
+
+  // Replaces any existing link, so the old URL stops working
+  const createInvite = useCallback(
+    async (duration: number | null) => {
+      if (!userId) return
+
+      const code = generateInviteCode()
+      const createdAt = Date.now()
+      const expiresAt = duration === null ? null : createdAt + duration
+      const updates: Record<string, unknown> = {
+        [`inviteLinks/${code}`]: { uid: userId, createdAt, expiresAt },
+        [`userInvites/${userId}`]: { code, createdAt, expiresAt },
+      }
+      if (invite) updates[`inviteLinks/${invite.code}`] = null
+
+      await update(ref(database), updates)
+    },
+    [userId, invite],
+  )
+
+  const revokeInvite = useCallback(async () => {
+    if (!userId || !invite) return
+
+    await update(ref(database), {
+      [`inviteLinks/${invite.code}`]: null,
+      [`userInvites/${userId}`]: null,
+    })
+  }, [userId, invite])
+
+  return { invite, createInvite, revokeInvite }
+}
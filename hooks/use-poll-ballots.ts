@@ -0,0 +1,38 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ref, onValue, push, runTransaction } from "firebase/database"
+import { database } from "@/lib/firebase"
+
+// Anonymous polls store each vote under a random ballot id instead of the voter's uid. The mapping lives
+// at pollBallots/{uid}/{messageId}, which only the voter can read, so nobody else can tell whose vote is whose.
+export function usePollBallots(userId: string | undefined) {
+  const [ballots, setBallots] = useState<{ [messageId: string]: string }>({})
+
+  useEffect(() => {
+    if (!userId) {
+      setBallots({})
+      return
+    }
+
+    const unsubscribe = onValue(ref(database, `pollBallots/${userId}`), (snapshot) => {
+      setBallots(snapshot.val() || {})
+    })
+
+    return () => unsubscribe()
+  }, [userId])
+
+  // Reuses the voter's ballot for this poll, or draws one; the rules keep it fixed once written
+  const getBallotKey = useCallback(
+    async (messageId: string): Promise<string> => {
+      const result = await runTransaction(
+        ref(database, `pollBallots/${userId}/${messageId}`),
+        (current) => current || push(ref(database, "pollBallots")).key,
+      )
+      return result.snapshot.val()
+    },
+    [userId],
+  )
+
+  return { ballots, getBallotKey }
+}
@@ -0,0 +1,99 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { ref, onValue, query, orderByChild, equalTo, runTransaction, remove, update } from "firebase/database"
+import { database } from "@/lib/firebase"
+import {
+  SCHEDULED_WORKER_INTERVAL,
+  isScheduledMessageClaimable,
+  isScheduledMessageDue,
+  type ScheduledMessage,
+} from "@/lib/scheduled-messages"
+
+// Lists the user's scheduled messages and delivers the due ones while the app is open.
+// The /api/scheduled-messages route covers delivery when no tab is open; both claim a
+// message before sending so it is never delivered twice. `deliver` resolves with a reason when the
+// message can't be sent at all, which marks it failed instead of putting it back in the queue.
+export function useScheduledMessages(
+  userId: string | undefined,
+  deliver: (scheduled: ScheduledMessage) => Promise<string | null>,
+) {
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([])
+  const deliverRef = useRef(deliver)
+  const inFlightRef = useRef<Set<string>>(new Set())
+
+  useEffect(() => {
+    deliverRef.current = deliver
+  }, [deliver])
+
+  useEffect(() => {
+    if (!userId) {
+      setScheduledMessages([])
+      return
+    }
+
+    const scheduledQuery = query(ref(database, "scheduledMessages"), orderByChild("senderUid"), equalTo(userId))
+    const unsubscribe = onValue(scheduledQuery, (snapshot) => {
+      if (!snapshot.exists()) {
+        setScheduledMessages([])
+        return
+      }
+
+      const scheduledData = snapshot.val()
+      const scheduledList = Object.keys(scheduledData).map((key) => ({ id: key, ...scheduledData[key] }))
+      scheduledList.sort((a, b) => a.sendAt - b.sendAt)
+      setScheduledMessages(scheduledList)
+    })
+
+    return () => unsubscribe()
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId) return
+
+    const deliverDueMessages = async () => {
+      const dueMessages = scheduledMessages.filter(
+        (scheduled) =>
+          isScheduledMessageDue(scheduled) &&
+          isScheduledMessageClaimable(scheduled) &&
+          !inFlightRef.current.has(scheduled.id),
+      )
+
+      for (const scheduled of dueMessages) {
+        inFlightRef.current.add(scheduled.id)
+        const scheduledRef = ref(database, `scheduledMessages/${scheduled.id}`)
+
+        try {
+          // Claim the message so another tab or the server route doesn't send it as well
+          const claim = await runTransaction(scheduledRef, (current) => {
+            if (!current || !isScheduledMessageClaimable(current)) return
+            return { ...current, status: "sending", claimedAt: Date.now() }
+          })
+          if (!claim.committed) continue
+
+          try {
+            const failedReason = await deliverRef.current(scheduled)
+            if (failedReason) {
+              await update(scheduledRef, { status: "failed", claimedAt: null, failedReason })
+            } else {
+              await remove(scheduledRef)
+            }
+          } catch (error) {
+            console.error("Failed to deliver scheduled message:", error)
+            await update(scheduledRef, { status: "pending", claimedAt: null })
+          }
+        } catch (error) {
+          console.error("Failed to claim scheduled message:", error)
+        } finally {
+          inFlightRef.current.delete(scheduled.id)
+        }
+      }
+    }
+
+    deliverDueMessages()
+    const interval = setInterval(deliverDueMessages, SCHEDULED_WORKER_INTERVAL)
+    return () => clearInterval(interval)
+  }, [userId, scheduledMessages])
+
+  return { scheduledMessages }
+}
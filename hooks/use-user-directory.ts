@@ -0,0 +1,77 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ref, get, query, orderByChild, equalTo, startAt, endAt, limitToFirst } from "firebase/database"
+import { database } from "@/lib/firebase"
+import {
+  DIRECTORY_RESULT_LIMIT,
+  DIRECTORY_SEARCH_DEBOUNCE,
+  isDiscoverable,
+  normalizeUsername,
+  type DirectoryUser,
+} from "@/lib/usernames"
+
+// Debounced directory search: an email address must match exactly, anything else is a handle prefix.
+// Users who opted out of being found the way they were searched for are left out.
+export function useUserDirectory(searchQuery: string, currentUserId: string | undefined) {
+  const [results, setResults] = useState<DirectoryUser[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+
+  useEffect(() => {
+    const trimmed = searchQuery.trim()
+    const byEmail = trimmed.includes("@") && !trimmed.startsWith("@")
+    const term = byEmail ? trimmed : normalizeUsername(trimmed)
+
+    if (!term || !currentUserId) {
+      setResults([])
+      setIsSearching(false)
+      return
+    }
+
+    let cancelled = false
+    setIsSearching(true)
+
+    const timeout = setTimeout(async () => {
+      try {
+        const usersRef = ref(database, "users")
+        const directoryQuery = byEmail
+          ? query(usersRef, orderByChild("email"), equalTo(term))
+          : query(
+              usersRef,
+              orderByChild("username"),
+              startAt(term),
+              endAt(term + "\uf8ff"),
+              limitToFirst(DIRECTORY_RESULT_LIMIT),
+            )
+        const snapshot = await get(directoryQuery)
+        if (cancelled) return
+
+        const found: DirectoryUser[] = []
+        snapshot.forEach((child) => {
+          const user = child.val()
+          if (child.key === currentUserId || !isDiscoverable(user.discovery, byEmail ? "email" : "username")) return
+          found.push({
+            uid: child.key!,
+            name: user.name || user.email?.split("@")[0] || "Unknown",
+            email: user.email,
+            username: user.username,
+            avatar: user.avatar,
+          })
+        })
+        setResults(found)
+      } catch (error) {
+        console.error("Error searching user directory:", error)
+        if (!cancelled) setResults([])
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, DIRECTORY_SEARCH_DEBOUNCE)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [searchQuery, currentUserId])
+
+  return { results, isSearching }
+}
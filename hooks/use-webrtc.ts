@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef, useCallback } from "react"
 import { ref, push, onValue, set, remove, get, off } from "firebase/database"
 import { database } from "@/lib/firebase"
+import { getBlockedByPath, getBlockedUserPath } from "@/lib/moderation"
 import { useAuth } from "@/contexts/auth-context"
 import { useToast } from "@/components/ui/use-toast"
 
@@ -139,6 +140,26 @@ export const useWebRTC = ({ contactId, callType, isIncoming = false }: UseWebRTC
       console.log("Starting outgoing call")
       setCallStatus("calling")
 
+      const [blockedSnapshot, blockedBySnapshot] = await Promise.all([
+        get(ref(database, getBlockedUserPath(currentUser.uid, contactId))),
+        get(ref(database, getBlockedByPath(currentUser.uid, contactId))),
+      ])
+      if (blockedSnapshot.exists()) {
+        toast({
+          title: "Call unavailable",
+          description: "Unblock this contact to call them",
+          variant: "destructive",
+        })
+        setCallStatus("ended")
+        return
+      }
+
+      // Don't ring someone who has blocked us; to the caller it looks like an unanswered call
+      if (blockedBySnapshot.exists()) {
+        console.log("Callee has blocked the caller, not placing call")
+        return
+      }
+
       const stream = await initializeMedia()
       const pc = createPeerConnection()
 
@@ -417,8 +438,12 @@ export const useWebRTC = ({ contactId, callType, isIncoming = false }: UseWebRTC
       console.log("Setting up incoming call listener")
       const callsRef = ref(database, "calls")
 
-      const handleIncomingCall = (snapshot: any) => {
-        if (snapshot.exists()) {
+      const handleIncomingCall = async (snapshot: any) => {
+        if (snapshot.exists() && currentUser) {
+          // Calls from blocked users never reach us
+          const blockedSnapshot = await get(ref(database, getBlockedUserPath(currentUser.uid, contactId)))
+          if (blockedSnapshot.exists()) return
+
           const calls = snapshot.val()
           Object.entries(calls).forEach(([callId, callData]: [string, any]) => {
             if (
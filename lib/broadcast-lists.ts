@@ -0,0 +1,59 @@
+import type { OutboxStatus } from "@/lib/outbox"
+import type { ReceiptStatus } from "@/lib/read-receipts"
+
+// Broadcast lists are private to their owner, stored at broadcastLists/{uid}/{listId}.
+// Sending to a list queues an ordinary DM to each recipient through the outbox, so replies land in the
+// 1:1 chat. broadcastMessages/{uid}/{listId}/{broadcastId} records which message went to whom, which is
+// all the list's history needs to look up each copy's delivery status.
+export const MAX_BROADCAST_RECIPIENTS = 256
+export const MAX_BROADCAST_LIST_NAME_LENGTH = 32
+export const BROADCAST_HISTORY_LIMIT = 20
+
+export interface BroadcastList {
+  id: string
+  name: string
+  recipients?: { [contactId: string]: true }
+  createdAt: number
+}
+
+export interface BroadcastRecipient {
+  messageId: string
+  name: string
+}
+
+export interface BroadcastMessage {
+  id: string
+  text: string
+  sentAt: number
+  recipients?: { [contactId: string]: BroadcastRecipient }
+}
+
+// Where one recipient's copy is: still in our outbox, or written and waiting on their receipts
+export type BroadcastDeliveryStatus = OutboxStatus | ReceiptStatus
+
+export const BROADCAST_STATUS_LABELS: Record<BroadcastDeliveryStatus, string> = {
+  queued: "Waiting to send",
+  sending: "Sending",
+  failed: "Failed",
+  sent: "Sent",
+  delivered: "Delivered",
+  read: "Read",
+}
+
+// The outbox entry wins while it exists; after that the DM itself carries the receipts
+export const getBroadcastDeliveryStatus = (
+  message: { status?: string; read?: boolean; deliveredAt?: number } | null,
+  outboxStatus?: OutboxStatus,
+): BroadcastDeliveryStatus => {
+  if (outboxStatus) return outboxStatus
+  if (!message) return "queued"
+  if (message.read) return "read"
+  return message.status === "delivered" || message.deliveredAt ? "delivered" : "sent"
+}
+
+export const getBroadcastRecipientIds = (list: BroadcastList) => Object.keys(list.recipients || {})
+
+export const parseBroadcastLists = (value: { [listId: string]: Omit<BroadcastList, "id"> } | null): BroadcastList[] =>
+  Object.entries(value || {})
+    .map(([id, list]) => ({ ...list, id }))
+    .sort((a, b) => a.createdAt - b.createdAt)
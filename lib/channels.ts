@@ -0,0 +1,9 @@
+// Channels are groups with type "channel": only admins post, everyone else reads and reacts.
+// Instead of bumping every member's groupUnread count on each post, a channel keeps a running
+// messageCount and each member stores the readCount they had seen, so unread = messageCount - readCount.
+export type GroupType = "group" | "channel"
+
+export const isChannel = (group: { type?: GroupType }) => group.type === "channel"
+
+export const getChannelUnread = (messageCount = 0, readCount = 0, markedUnread = false) =>
+  Math.max(markedUnread ? 1 : 0, messageCount - readCount)
@@ -0,0 +1,50 @@
+// Custom sidebar folders, stored per user at chatFolders/{uid}/{folderId}.
+// A chat belongs to a folder if it was added by hand, or if the folder has rules and the chat
+// passes all of them.
+export interface ChatFolderRules {
+  unreadOnly?: boolean
+  groupsOnly?: boolean
+  contactsOnly?: boolean
+  // Case-insensitive match against the chat's name
+  nameMatch?: string
+}
+
+export interface ChatFolder {
+  id: string
+  name: string
+  chatIds?: { [chatId: string]: true }
+  rules?: ChatFolderRules
+  createdAt: number
+}
+
+export interface FolderChat {
+  id: string
+  name: string
+  unread?: number
+  markedUnread?: boolean
+  isGroup: boolean
+}
+
+export const MAX_FOLDER_NAME_LENGTH = 24
+
+export const hasFolderRules = (rules?: ChatFolderRules) =>
+  !!rules && (!!rules.unreadOnly || !!rules.groupsOnly || !!rules.contactsOnly || !!rules.nameMatch?.trim())
+
+export const chatMatchesFolder = (folder: ChatFolder, chat: FolderChat) => {
+  if (folder.chatIds?.[chat.id]) return true
+
+  const { rules } = folder
+  if (!rules || !hasFolderRules(rules)) return false
+
+  if (rules.unreadOnly && !(chat.unread || 0) && !chat.markedUnread) return false
+  if (rules.groupsOnly && !chat.isGroup) return false
+  if (rules.contactsOnly && chat.isGroup) return false
+  const nameMatch = rules.nameMatch?.trim().toLowerCase()
+  if (nameMatch && !chat.name.toLowerCase().includes(nameMatch)) return false
+  return true
+}
+
+export const parseChatFolders = (value: { [folderId: string]: Omit<ChatFolder, "id"> } | null): ChatFolder[] =>
+  Object.entries(value || {})
+    .map(([id, folder]) => ({ ...folder, id }))
+    .sort((a, b) => a.createdAt - b.createdAt)
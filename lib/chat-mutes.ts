@@ -0,0 +1,25 @@
+const HOUR = 60 * 60 * 1000
+
+// Stored at mutedChats/{uid}/{chatId} as the time the mute ends, or MUTE_FOREVER
+export const MUTE_FOREVER = -1
+
+export const MUTE_OPTIONS = [
+  { label: "8 hours", duration: 8 * HOUR },
+  { label: "1 week", duration: 7 * 24 * HOUR },
+  { label: "Always", duration: MUTE_FOREVER },
+]
+
+export const getMutedUntil = (duration: number, now = Date.now()) =>
+  duration === MUTE_FOREVER ? MUTE_FOREVER : now + duration
+
+export const isMuteActive = (mutedUntil: number | null | undefined, now = Date.now()) =>
+  mutedUntil === MUTE_FOREVER || (!!mutedUntil && mutedUntil > now)
+
+export const getMuteDescription = (mutedUntil: number) =>
+  mutedUntil === MUTE_FOREVER
+    ? "Muted until you unmute it"
+    : `Muted until ${new Date(mutedUntil).toLocaleString([], {
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      })}`
@@ -0,0 +1,32 @@
+// Replace with your Cloudinary cloud name and upload preset
+const CLOUD_NAME = "de7ywzcsr"
+const UPLOAD_PRESET = "media_chat"
+
+// Uploads a file and resolves with its hosted URL, falling back to a local object URL if the upload fails
+export async function uploadToCloudinary(file: Blob, fileName?: string): Promise<string> {
+  const formData = new FormData()
+  if (fileName) {
+    formData.append("file", file, fileName)
+  } else {
+    formData.append("file", file)
+  }
+  formData.append("upload_preset", UPLOAD_PRESET)
+
+  try {
+    const response = await fetch(`https://api.cloudinary.com/v1_1/${CLOUD_NAME}/auto/upload`, {
+      method: "POST",
+      body: formData,
+    })
+
+    if (!response.ok) {
+      throw new Error(`Upload failed with status: ${response.status}`)
+    }
+
+    const data = await response.json()
+    return data.secure_url
+  } catch (error) {
+    console.error("Upload error:", error)
+    // For demo purposes, return a local URL
+    return URL.createObjectURL(file)
+  }
+}
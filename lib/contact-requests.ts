@@ -0,0 +1,46 @@
+// Adding someone sends a request to contactRequests/{theirUid}/{myUid} and creates our own contact entry
+// with requestStatus "pending". Accepting adds the sender to the recipient's contacts and clears the
+// sender's requestStatus; declining sets it to "declined". Entries without a requestStatus are accepted.
+export type ContactRequestStatus = "pending" | "declined"
+
+export interface ContactRequest {
+  // The sender's uid
+  id: string
+  name: string
+  email: string
+  avatar?: string
+  createdAt: number
+}
+
+export const getContactRequestLabel = (status: ContactRequestStatus, name: string) =>
+  status === "pending" ? `Waiting for ${name} to accept your request` : `${name} declined your contact request`
+
+// What adding someone did: the status of an entry we already had, or the action taken
+export type AddContactOutcome = "self" | "exists" | ContactRequestStatus | "accepted" | "sent"
+
+// The profile details shown to the recipient of a request
+export interface ContactRequestSender {
+  name: string
+  email: string
+  avatar?: string
+}
+
+export const getAddContactMessage = (
+  outcome: AddContactOutcome,
+  name: string,
+): { title: string; description: string; variant?: "destructive" } => {
+  switch (outcome) {
+    case "self":
+      return { title: "Invalid contact", description: "You cannot add yourself as a contact", variant: "destructive" }
+    case "exists":
+      return { title: "Contact exists", description: "This contact is already in your list" }
+    case "pending":
+      return { title: "Request already sent", description: getContactRequestLabel(outcome, name) }
+    case "declined":
+      return { title: "Request declined", description: getContactRequestLabel(outcome, name) }
+    case "accepted":
+      return { title: "Contact added", description: `You accepted ${name}'s contact request` }
+    case "sent":
+      return { title: "Request sent", description: `You can chat with ${name} once they accept your request` }
+  }
+}
@@ -0,0 +1,28 @@
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+export const EXPIRED_SWEEP_INTERVAL = 5 * 60 * 1000 // Hard-delete expired messages every 5 minutes
+
+export const DISAPPEARING_TIMER_OPTIONS = [
+  { label: "Off", value: 0 },
+  { label: "1 hour", value: HOUR },
+  { label: "24 hours", value: DAY },
+  { label: "7 days", value: 7 * DAY },
+  { label: "90 days", value: 90 * DAY },
+]
+
+export const getDisappearingTimerLabel = (timer: number) =>
+  DISAPPEARING_TIMER_OPTIONS.find((option) => option.value === timer)?.label || "Off"
+
+// Expiry stamped on new messages; null keeps the field out of chats without a timer
+export const getExpiresAt = (timer: number | null | undefined, sentAt = Date.now()) =>
+  timer && timer > 0 ? sentAt + timer : null
+
+export const isMessageExpired = (message: { expiresAt?: number | null }, now = Date.now()) =>
+  !!message.expiresAt && message.expiresAt <= now
+
+// Text of the system message announcing a timer change
+export const getDisappearingTimerNotice = (actorName: string, timer: number) =>
+  timer > 0
+    ? `${actorName} set disappearing messages to ${getDisappearingTimerLabel(timer)}`
+    : `${actorName} turned off disappearing messages`
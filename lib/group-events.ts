@@ -0,0 +1,44 @@
+// Group changes are posted to groupMessages as system messages and shown as timeline chips. They are
+// written directly rather than through deliverGroupMessage, so they never bump unread counts or the
+// group's last message.
+export type GroupSystemEvent =
+  "member_joined" | "member_left" | "role_changed" | "group_renamed" | "description_changed" | "disappearing_timer"
+
+export const buildGroupSystemMessage = (
+  groupId: string,
+  systemEvent: GroupSystemEvent,
+  text: string,
+  actor: { uid: string; name: string },
+) => ({
+  type: "system",
+  systemEvent,
+  text,
+  senderUid: actor.uid,
+  senderName: actor.name,
+  groupId,
+  timestamp: {
+    ".sv": "timestamp",
+  },
+  clientTimestamp: Date.now(),
+})
+
+export const getMemberJoinedNotice = (name: string, viaLink = false) =>
+  viaLink ? `${name} joined using an invite link` : `${name} joined`
+
+export const getMembersAddedNotice = (actorName: string, names: string[]) => `${actorName} added ${names.join(", ")}`
+
+export const getMemberLeftNotice = (name: string) => `${name} left`
+
+export const getMemberRemovedNotice = (actorName: string, name: string) => `${actorName} removed ${name}`
+
+export const getRoleChangedNotice = (actorName: string, name: string, isAdmin: boolean) =>
+  isAdmin ? `${actorName} made ${name} an admin` : `${actorName} removed ${name} as admin`
+
+export const getOwnershipTransferredNotice = (actorName: string, name: string) =>
+  `${actorName} made ${name} the group owner`
+
+export const getGroupRenamedNotice = (actorName: string, name: string) =>
+  `${actorName} changed the group name to "${name}"`
+
+export const getDescriptionChangedNotice = (actorName: string, description: string) =>
+  description ? `${actorName} changed the group description` : `${actorName} removed the group description`
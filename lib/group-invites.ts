@@ -0,0 +1,54 @@
+// Group invite links live at groupInviteLinks/{code} -> group, with the active code on groups/{id}/inviteCode so
+// admins can show, replace or revoke the group's single link. In "approval" mode, opening the link files a
+// request under groupJoinRequests/{groupId}/{uid} for an admin to approve or reject.
+export type GroupJoinMode = "instant" | "approval"
+
+export interface GroupInviteLink {
+  code: string
+  groupId: string
+  createdBy: string
+  createdAt: number
+  // Null when the link never expires / has no use limit
+  expiresAt: number | null
+  maxUses: number | null
+  uses: number
+}
+
+export interface GroupJoinRequest {
+  // The requester's uid
+  id: string
+  name: string
+  avatar?: string
+  // The link the request came through, so approving it counts as a use
+  inviteCode: string
+  requestedAt: number
+}
+
+export const INVITE_MAX_USES_OPTIONS: { value: string; label: string; maxUses: number | null }[] = [
+  { value: "unlimited", label: "Unlimited", maxUses: null },
+  { value: "1", label: "1 use", maxUses: 1 },
+  { value: "5", label: "5 uses", maxUses: 5 },
+  { value: "25", label: "25 uses", maxUses: 25 },
+  { value: "100", label: "100 uses", maxUses: 100 },
+]
+
+export const hasInviteUsesLeft = (invite: Pick<GroupInviteLink, "maxUses" | "uses">) =>
+  invite.maxUses === null || invite.uses < invite.maxUses
+
+export const getInviteUsageLabel = (invite: Pick<GroupInviteLink, "maxUses" | "uses">) =>
+  invite.maxUses === null
+    ? `Used ${invite.uses} ${invite.uses === 1 ? "time" : "times"}`
+    : `${invite.uses} of ${invite.maxUses} uses`
+
+export const getGroupInviteUrl = (code: string) => `${window.location.origin}/join/${code}`
+
+// Firebase drops null values, so missing limits come back as undefined
+export const parseGroupInviteLink = (code: string, data: any): GroupInviteLink => ({
+  code,
+  groupId: data.groupId,
+  createdBy: data.createdBy,
+  createdAt: data.createdAt,
+  expiresAt: data.expiresAt ?? null,
+  maxUses: data.maxUses ?? null,
+  uses: data.uses || 0,
+})
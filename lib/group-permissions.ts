@@ -0,0 +1,82 @@
+import type { GroupType } from "@/lib/channels"
+
+// Group roles: the owner is groups/{id}/createdBy and is always an admin; other admins have
+// members/{uid}/role "admin". Each permission is granted to everyone or to admins only, stored under
+// groups/{id}/settings/permissions. database.rules.json enforces the same checks on writes.
+export type GroupRole = "owner" | "admin" | "member"
+
+// There is deliberately no "start calls" permission: calls are one-to-one between contacts (use-webrtc
+// and the incoming-call notification have no group calls), so there is nothing in a group for it to gate.
+// Add it here, with a check where group calls start and are answered, if group calls are ever built.
+
+export type GroupPermission = "sendMessages" | "editInfo" | "addMembers" | "pinMessages"
+
+export type PermissionLevel = "everyone" | "admins"
+
+export type GroupPermissions = Partial<Record<GroupPermission, PermissionLevel>>
+
+export const DEFAULT_GROUP_PERMISSIONS: Record<GroupPermission, PermissionLevel> = {
+  sendMessages: "everyone",
+  editInfo: "admins",
+  addMembers: "admins",
+  pinMessages: "admins",
+}
+
+export const GROUP_PERMISSION_OPTIONS: { key: GroupPermission; label: string; description: string }[] = [
+  { key: "sendMessages", label: "Members can send messages", description: "Only admins can post when this is off" },
+  { key: "editInfo", label: "Members can edit group info", description: "Name and description" },
+  { key: "addMembers", label: "Members can add members", description: "From their own contacts" },
+  { key: "pinMessages", label: "Members can pin messages", description: "Only admins can pin when this is off" },
+]
+
+// The slice of a group these checks read; every component's Group type satisfies it
+export interface GroupAccess {
+  type?: GroupType
+  createdBy: string
+  members: { [uid: string]: { role: "admin" | "member" } }
+  settings?: { permissions?: GroupPermissions; membersCanPin?: boolean }
+}
+
+export const getGroupRole = (group: GroupAccess, uid: string): GroupRole | null => {
+  if (group.createdBy === uid) return "owner"
+  const member = group.members[uid]
+  if (!member) return null
+  return member.role === "admin" ? "admin" : "member"
+}
+
+export const GROUP_ROLE_LABELS: Record<GroupRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+}
+
+export const isGroupAdmin = (group: GroupAccess, uid: string) => {
+  const role = getGroupRole(group, uid)
+  return role === "owner" || role === "admin"
+}
+
+// Groups created before permissions existed only had the membersCanPin flag
+export const getPermissionLevel = (group: GroupAccess, permission: GroupPermission): PermissionLevel => {
+  const level = group.settings?.permissions?.[permission]
+  if (level) return level
+  if (permission === "pinMessages" && group.settings?.membersCanPin) return "everyone"
+  return DEFAULT_GROUP_PERMISSIONS[permission]
+}
+
+export const hasGroupPermission = (group: GroupAccess, uid: string, permission: GroupPermission) => {
+  const role = getGroupRole(group, uid)
+  if (!role) return false
+  if (role !== "member") return true
+  // Posting in a channel is always reserved for admins
+  if (permission === "sendMessages" && group.type === "channel") return false
+  return getPermissionLevel(group, permission) === "everyone"
+}
+
+// Owners manage everyone; admins manage plain members only
+export const canManageMember = (group: GroupAccess, actorUid: string, targetUid: string) => {
+  if (actorUid === targetUid) return false
+  const actorRole = getGroupRole(group, actorUid)
+  const targetRole = getGroupRole(group, targetUid)
+  if (!targetRole || targetRole === "owner") return false
+  return actorRole === "owner" || (actorRole === "admin" && targetRole === "member")
+}
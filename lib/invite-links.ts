@@ -0,0 +1,32 @@
+// Personal invite links live at inviteLinks/{code} -> owner, mirrored on userInvites/{uid} so the owner
+// can show, revoke or replace their single active link. Revoking removes both, which kills the old URL.
+// database.rules.json only lets the owner write either node; anyone signed in can look up a code.
+export interface InviteLink {
+  code: string
+  uid: string
+  createdAt: number
+  // Null when the link never expires
+  expiresAt: number | null
+}
+
+const INVITE_CODE_LENGTH = 10
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789"
+
+const DAY = 24 * 60 * 60 * 1000
+
+export const INVITE_EXPIRY_OPTIONS: { value: string; label: string; duration: number | null }[] = [
+  { value: "never", label: "Never", duration: null },
+  { value: "1d", label: "1 day", duration: DAY },
+  { value: "7d", label: "7 days", duration: 7 * DAY },
+  { value: "30d", label: "30 days", duration: 30 * DAY },
+]
+
+export const generateInviteCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH))
+  return Array.from(bytes, (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]).join("")
+}
+
+export const getInviteUrl = (code: string) => `${window.location.origin}/invite/${code}`
+
+export const isInviteExpired = (invite: Pick<InviteLink, "expiresAt">, now = Date.now()) =>
+  invite.expiresAt !== null && invite.expiresAt <= now
@@ -0,0 +1,53 @@
+export const MENTION_ALL = "all"
+
+type GroupMembers = { [uid: string]: { name: string; role: "admin" | "member"; joinedAt: number } }
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Matches "@name" only when it starts a word and isn't followed by more name characters
+const mentionPattern = (name: string) => new RegExp(`(^|\\s)@${escapeRegExp(name)}(?=$|[\\s.,!?;:])`, "i")
+
+// Resolves the members mentioned in a group message from its "@Name" tokens; "@all" only counts for admins
+export function resolveMentions(
+  text: string,
+  members: GroupMembers,
+  senderUid: string,
+  canMentionAll: boolean,
+): { mentions: string[]; mentionsAll: boolean } {
+  const mentions = Object.entries(members)
+    .filter(([uid, member]) => uid !== senderUid && member.name && mentionPattern(member.name).test(text))
+    .map(([uid]) => uid)
+
+  return {
+    mentions,
+    mentionsAll: canMentionAll && mentionPattern(MENTION_ALL).test(text),
+  }
+}
+
+// Splits message text into plain and mention segments so mentions can be highlighted
+export function splitMentions(text: string, names: string[]): { text: string; isMention: boolean }[] {
+  const sortedNames = names.filter(Boolean).sort((a, b) => b.length - a.length)
+  if (sortedNames.length === 0) return [{ text, isMention: false }]
+
+  const pattern = new RegExp(`(@(?:${sortedNames.map(escapeRegExp).join("|")}))(?=$|[\\s.,!?;:])`, "gi")
+  const segments: { text: string; isMention: boolean }[] = []
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(text)) !== null) {
+    const precedingChar = match.index > 0 ? text[match.index - 1] : ""
+    if (precedingChar && !/\s/.test(precedingChar)) continue
+
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index), isMention: false })
+    }
+    segments.push({ text: match[1], isMention: true })
+    lastIndex = match.index + match[1].length
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), isMention: false })
+  }
+
+  return segments
+}
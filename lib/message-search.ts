@@ -0,0 +1,76 @@
+import { isMessageExpired } from "@/lib/disappearing-messages"
+
+export const MIN_SEARCH_LENGTH = 2
+const SNIPPET_RADIUS = 40
+
+export interface SearchableMessage {
+  id: string
+  text: string
+  senderUid: string
+  timestamp: number
+  fileUrl?: string
+  fileName?: string
+  isDeleted?: boolean
+  type?: string
+  expiresAt?: number
+  // Sent while the receiver had the sender blocked; only the sender ever sees it
+  withheld?: boolean
+}
+
+export interface MessageSearchFilters {
+  senderUid: string | null
+  from?: Date
+  to?: Date
+  hasAttachment: boolean
+}
+
+export const DEFAULT_SEARCH_FILTERS: MessageSearchFilters = {
+  senderUid: null,
+  hasAttachment: false,
+}
+
+// Checks a message against the query (body or attachment name) and the active filters
+export function matchesMessageSearch(
+  message: SearchableMessage,
+  searchQuery: string,
+  filters: MessageSearchFilters,
+  currentUserId: string,
+): boolean {
+  if (message.isDeleted || message.type === "system" || isMessageExpired(message)) return false
+  if (message.withheld && message.senderUid !== currentUserId) return false
+  if (filters.senderUid && message.senderUid !== filters.senderUid) return false
+  if (filters.hasAttachment && !message.fileUrl) return false
+  if (filters.from && message.timestamp < startOfDay(filters.from)) return false
+  if (filters.to && message.timestamp > endOfDay(filters.to)) return false
+
+  const normalizedQuery = searchQuery.trim().toLowerCase()
+  if (!normalizedQuery) return true
+
+  return (
+    (message.text || "").toLowerCase().includes(normalizedQuery) ||
+    (message.fileName || "").toLowerCase().includes(normalizedQuery)
+  )
+}
+
+// Cuts the text around the first match so the hit is visible in a single line
+export function getSearchSnippet(text: string, searchQuery: string): { before: string; match: string; after: string } {
+  const normalizedQuery = searchQuery.trim().toLowerCase()
+  const index = normalizedQuery ? text.toLowerCase().indexOf(normalizedQuery) : -1
+
+  if (index === -1) {
+    return { before: text.slice(0, SNIPPET_RADIUS * 2), match: "", after: "" }
+  }
+
+  const start = Math.max(0, index - SNIPPET_RADIUS)
+  const end = Math.min(text.length, index + normalizedQuery.length + SNIPPET_RADIUS)
+
+  return {
+    before: (start > 0 ? "…" : "") + text.slice(start, index),
+    match: text.slice(index, index + normalizedQuery.length),
+    after: text.slice(index + normalizedQuery.length, end) + (end < text.length ? "…" : ""),
+  }
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime() - 1
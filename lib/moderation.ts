@@ -0,0 +1,54 @@
+// A block is stored on both sides: blockedUsers/{uid}/{blockedUid} is the blocker's own list, and
+// blockedBy/{blockedUid}/{uid} lets the blocked user's client hold back messages, typing, calls and
+// presence aimed at the blocker. Only the blocker can write either entry. The blocker's client also
+// filters on its own side, since a blocked client can't be trusted to hold anything back.
+export const getBlockedUserPath = (uid: string, blockedUid: string) => `blockedUsers/${uid}/${blockedUid}`
+export const getBlockedByPath = (uid: string, blockerUid: string) => `blockedBy/${uid}/${blockerUid}`
+
+// Online status and last seen live at presence/{uid}, which the rules hide from users that uid has blocked
+export const getPresencePath = (uid: string) => `presence/${uid}`
+
+// Whether the current user must not see a message: the sender's client withheld it, or it was sent
+// after the current user blocked the sender (blockedUsers maps each blocked uid to when they were blocked)
+export const isHiddenByBlock = (
+  message: { senderUid: string; timestamp: number; withheld?: boolean },
+  currentUserId: string,
+  blockedUsers: { [uid: string]: number },
+) => {
+  if (message.senderUid === currentUserId) return false
+  const blockedAt = blockedUsers[message.senderUid]
+  return !!message.withheld || (!!blockedAt && message.timestamp >= blockedAt)
+}
+
+// Reports are pushed to reports/{id} with the latest messages of the chat attached. Clients can file
+// their own but never read them back; moderators review them with admin access.
+export const REPORT_SNAPSHOT_SIZE = 20
+
+export const REPORT_REASONS = [
+  { value: "spam", label: "Spam" },
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "inappropriate", label: "Inappropriate content" },
+  { value: "impersonation", label: "Pretending to be someone else" },
+  { value: "other", label: "Something else" },
+] as const
+
+export type ReportReason = (typeof REPORT_REASONS)[number]["value"]
+
+export interface ReportedMessage {
+  id: string
+  senderUid: string
+  text: string
+  fileUrl?: string | null
+  fileName?: string | null
+  timestamp: number
+}
+
+export interface UserReport {
+  reporterUid: string
+  reportedUid: string
+  reason: ReportReason
+  details: string
+  messages: ReportedMessage[]
+  status: "open" | "reviewed" | "dismissed"
+  createdAt: number
+}
@@ -0,0 +1,95 @@
+// Persistent outbox for direct messages that haven't reached Firebase yet.
+// Entries survive reloads in IndexedDB and are keyed by the push key reserved for the
+// message, so a retry overwrites the same node instead of creating a duplicate.
+const DB_NAME = "chat-outbox"
+const DB_VERSION = 1
+const STORE_NAME = "messages"
+
+export const OUTBOX_MAX_ATTEMPTS = 5 // After this many automatic retries a message needs a manual retry
+export const OUTBOX_SEND_TIMEOUT = 10000 // Firebase queues writes offline instead of failing, so give up after 10s
+const BASE_RETRY_DELAY = 2000
+const MAX_RETRY_DELAY = 60000
+
+export type OutboxStatus = "queued" | "sending" | "failed"
+
+export interface OutboxMessage {
+  id: string
+  senderUid: string
+  receiverUid: string
+  text: string
+  timestamp: number
+  status: OutboxStatus
+  fileUrl?: string
+  fileType?: string
+  fileName?: string
+  replyToId?: string
+  replyToText?: string
+  attempts: number
+  nextAttemptAt: number
+}
+
+// Exponential backoff: 2s, 4s, 8s... capped at a minute
+export const getOutboxRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY)
+
+export const withTimeout = <T>(promise: Promise<T>, timeout: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Timed out")), timeout)
+    promise.then(
+      (value) => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      (error) => {
+        clearTimeout(timer)
+        reject(error)
+      },
+    )
+  })
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openOutbox = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB is not available"))
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" })
+        store.createIndex("senderUid", "senderUid")
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openOutbox()
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const getOutboxMessages = async (senderUid: string): Promise<OutboxMessage[]> => {
+  const outboxMessages = await runRequest<OutboxMessage[]>("readonly", (store) =>
+    store.index("senderUid").getAll(senderUid),
+  )
+  return outboxMessages.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+export const saveOutboxMessage = (message: OutboxMessage) =>
+  runRequest("readwrite", (store) => store.put(message)).then(() => undefined)
+
+export const deleteOutboxMessage = (id: string) =>
+  runRequest("readwrite", (store) => store.delete(id)).then(() => undefined)
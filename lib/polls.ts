@@ -0,0 +1,57 @@
+export const MIN_POLL_OPTIONS = 2
+export const MAX_POLL_OPTIONS = 12
+
+export interface PollOption {
+  id: string
+  text: string
+}
+
+export interface PollVote {
+  options: { [optionId: string]: true }
+  // Omitted for anonymous polls so voters can't be listed
+  name?: string
+  timestamp: number
+}
+
+export interface Poll {
+  question: string
+  options: PollOption[]
+  allowMultiple: boolean
+  anonymous: boolean
+  createdBy: string
+  closesAt?: number | null
+  closedAt?: number
+  closedBy?: string
+  // Keyed by voter uid so concurrent votes never overwrite each other. Anonymous polls use the voter's
+  // private ballot id instead (see usePollBallots), so the keys don't reveal who voted.
+  votes?: { [voteKey: string]: PollVote }
+}
+
+// The key of the current user's entry in poll.votes, if they have one
+export const getPollVoteKey = (poll: Pick<Poll, "anonymous">, uid: string, ballotKey?: string) =>
+  poll.anonymous ? ballotKey : uid
+
+// A poll is closed once someone closed it early or its close time has passed
+export function isPollClosed(poll: Poll, now = Date.now()): boolean {
+  return !!poll.closedAt || (!!poll.closesAt && now >= poll.closesAt)
+}
+
+// Counts votes per option plus the number of distinct voters
+export function tallyPoll(poll: Poll): { counts: { [optionId: string]: number }; voterCount: number } {
+  const counts: { [optionId: string]: number } = {}
+  poll.options.forEach((option) => {
+    counts[option.id] = 0
+  })
+
+  const votes = Object.values(poll.votes || {})
+  votes.forEach((vote) => {
+    Object.keys(vote.options || {}).forEach((optionId) => {
+      if (optionId in counts) counts[optionId] += 1
+    })
+  })
+
+  return { counts, voterCount: votes.length }
+}
+
+// Message preview used for chat lists and notifications
+export const getPollPreview = (poll: Pick<Poll, "question">) => `📊 ${poll.question}`
@@ -0,0 +1,39 @@
+// Group receipts are derived from each member's groupUnread/{groupId}/{uid} entry:
+// lastDelivered is bumped whenever the member's client syncs the group list, lastRead
+// whenever they have the group open. Both are server timestamps, like message timestamps.
+export interface MemberReceipt {
+  lastRead?: number
+  lastDelivered?: number
+}
+
+export interface MessageReceipt {
+  uid: string
+  deliveredAt?: number
+  readAt?: number
+}
+
+export type ReceiptStatus = "sent" | "delivered" | "read"
+
+export function getGroupMessageReceipts(
+  message: { senderUid: string; timestamp: number },
+  memberIds: string[],
+  receipts: { [uid: string]: MemberReceipt },
+): MessageReceipt[] {
+  return memberIds
+    .filter((uid) => uid !== message.senderUid)
+    .map((uid) => {
+      const { lastRead, lastDelivered } = receipts[uid] || {}
+      const readAt = lastRead && lastRead >= message.timestamp ? lastRead : undefined
+      // Reading implies the message arrived, even if the delivery write was missed
+      const deliveredAt = lastDelivered && lastDelivered >= message.timestamp ? lastDelivered : readAt
+      return { uid, deliveredAt, readAt }
+    })
+}
+
+// A message counts as delivered or read only once every recipient has reached that point
+export function getReceiptStatus(receipts: MessageReceipt[]): ReceiptStatus {
+  if (receipts.length === 0) return "sent"
+  if (receipts.every((receipt) => receipt.readAt)) return "read"
+  if (receipts.every((receipt) => receipt.deliveredAt)) return "delivered"
+  return "sent"
+}
@@ -0,0 +1,55 @@
+import type { ContactRequestStatus } from "@/lib/contact-requests"
+import { hasGroupPermission, type GroupAccess } from "@/lib/group-permissions"
+
+export const SCHEDULED_WORKER_INTERVAL = 30000 // Check for due messages every 30 seconds
+// A claim older than this is treated as abandoned (e.g. the tab closed mid-send) and may be retried
+export const SCHEDULED_CLAIM_TIMEOUT = 2 * 60 * 1000
+
+export interface ScheduledMessage {
+  id: string
+  senderUid: string
+  senderName: string
+  chatType: "direct" | "group"
+  // Contact uid for direct chats, group id for groups
+  targetId: string
+  text: string
+  mentions?: string[]
+  mentionsAll?: boolean
+  sendAt: number
+  createdAt: number
+  // Failed messages stay listed for the author to reschedule or cancel; they are never retried on their own
+  status: "pending" | "sending" | "failed"
+  claimedAt?: number
+  failedReason?: string
+}
+
+export const isScheduledMessageDue = (scheduled: ScheduledMessage, now = Date.now()) => scheduled.sendAt <= now
+
+// Pending messages can be claimed, as can claims whose sender never finished
+export const isScheduledMessageClaimable = (scheduled: Pick<ScheduledMessage, "status" | "claimedAt">, now = Date.now()) =>
+  scheduled.status === "pending" ||
+  (scheduled.status === "sending" && !!scheduled.claimedAt && now - scheduled.claimedAt > SCHEDULED_CLAIM_TIMEOUT)
+
+// A DM can only go out once the contact has accepted our request, so an unanswered or declined one fails it
+export const getScheduledRequestFailure = (requestStatus: ContactRequestStatus | null) => {
+  if (requestStatus === "pending") return "Your contact request hasn't been accepted yet"
+  if (requestStatus === "declined") return "Your contact request was declined"
+  return null
+}
+
+// A group post fails once the group is gone, the author has left, or they have lost permission to post
+export const getScheduledGroupFailure = (group: GroupAccess | null, senderUid: string) => {
+  if (!group?.members?.[senderUid]) return "You're no longer in this group"
+  if (!hasGroupPermission(group, senderUid, "sendMessages")) return "Only admins can post here now"
+  return null
+}
+
+// Fields written onto the delivered message, shared by the in-app worker and the server route
+export function getScheduledMessageFields(scheduled: ScheduledMessage): { [key: string]: any } {
+  return {
+    text: scheduled.text,
+    scheduledAt: scheduled.sendAt,
+    ...(scheduled.mentions?.length ? { mentions: scheduled.mentions } : {}),
+    ...(scheduled.mentionsAll ? { mentionsAll: true } : {}),
+  }
+}
@@ -0,0 +1,44 @@
+// Handles are claimed through usernames/{username} -> uid, so two users can never hold the same one,
+// and mirrored on users/{uid}/username for display and prefix search.
+export const MIN_USERNAME_LENGTH = 3
+export const MAX_USERNAME_LENGTH = 20
+const USERNAME_PATTERN = /^[a-z0-9_]+$/
+
+export const DIRECTORY_RESULT_LIMIT = 10
+export const DIRECTORY_SEARCH_DEBOUNCE = 300
+
+// Who can find the user in the directory, set separately for handle and email searches
+export type DiscoverySetting = "everyone" | "nobody"
+
+export interface DiscoverySettings {
+  findByUsername?: DiscoverySetting
+  findByEmail?: DiscoverySetting
+}
+
+export const DISCOVERY_OPTIONS: { value: DiscoverySetting; label: string }[] = [
+  { value: "everyone", label: "Everyone" },
+  { value: "nobody", label: "Nobody" },
+]
+
+export const normalizeUsername = (input: string) => input.trim().replace(/^@/, "").toLowerCase()
+
+// Returns a message describing what's wrong, or null for a valid handle
+export const validateUsername = (username: string) => {
+  if (username.length < MIN_USERNAME_LENGTH) return `Usernames need at least ${MIN_USERNAME_LENGTH} characters`
+  if (username.length > MAX_USERNAME_LENGTH) return `Usernames can't be longer than ${MAX_USERNAME_LENGTH} characters`
+  if (!USERNAME_PATTERN.test(username)) return "Use only letters, numbers and underscores"
+  return null
+}
+
+// Both settings default to discoverable so existing accounts stay findable
+export const isDiscoverable = (settings: DiscoverySettings | undefined, by: "username" | "email") =>
+  (by === "username" ? settings?.findByUsername : settings?.findByEmail) !== "nobody"
+
+// A user found through the directory search
+export interface DirectoryUser {
+  uid: string
+  name: string
+  email: string
+  username?: string
+  avatar?: string
+}
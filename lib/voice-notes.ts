@@ -0,0 +1,30 @@
+export const VOICE_NOTE_PREVIEW = "🎤 Voice message"
+export const WAVEFORM_BARS = 40
+
+export interface VoiceNote {
+  // Length of the clip in seconds
+  duration: number
+  // Normalised peak levels (0-1), one per waveform bar
+  waveform: number[]
+}
+
+// Reduces raw level samples to a fixed number of bars, scaled so the loudest bar is full height
+export function downsampleWaveform(samples: number[], bars = WAVEFORM_BARS): number[] {
+  if (samples.length === 0) return Array(bars).fill(0.1)
+
+  const bucketSize = samples.length / bars
+  const peaks = Array.from({ length: bars }, (_, index) => {
+    const start = Math.floor(index * bucketSize)
+    const bucket = samples.slice(start, Math.max(Math.floor((index + 1) * bucketSize), start + 1))
+    return bucket.length > 0 ? Math.max(...bucket) : 0
+  })
+
+  const loudest = Math.max(...peaks) || 1
+  return peaks.map((peak) => Math.max(0.1, Math.round((peak / loudest) * 100) / 100))
+}
+
+export const formatVoiceDuration = (seconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(seconds))
+  const minutes = Math.floor(totalSeconds / 60)
+  return `${minutes}:${(totalSeconds % 60).toString().padStart(2, "0")}`
+}